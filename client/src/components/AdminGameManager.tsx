@@ -12,11 +12,19 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Plus, Trash2 } from "lucide-react";
+import { Ban, CalendarIcon, CheckCircle2, DoorOpen, Lock, Play, Plus, Repeat, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
-import { Court, Game, UserRole } from "@shared/schema";
+import {
+  Court,
+  Game,
+  GameStatusType,
+  GameTransitionType,
+  UserRole,
+  DEFAULT_OFFER_WINDOW_MINUTES,
+  canTransition
+} from "@shared/schema";
 import { es } from "date-fns/locale";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/hooks/use-auth";
@@ -32,7 +40,39 @@ const gameFormSchema = z.object({
   }),
   setsPerMatch: z.number().min(1).max(7),
   description: z.string().optional(),
-});
+  offerWindowMinutes: z.number().int().positive(),
+  signupOpensAt: z.string().optional(), // datetime-local; vacío = sin límite
+  signupClosesAt: z.string().optional(),
+  openSignups: z.boolean(), // false = el juego queda programado hasta abrir inscripciones
+}).refine(
+  ({ signupOpensAt, signupClosesAt }) => !signupOpensAt || !signupClosesAt || signupOpensAt < signupClosesAt,
+  { message: "Las inscripciones deben abrir antes de cerrar", path: ["signupClosesAt"] }
+);
+
+// Plazos para aceptar un lugar que se libera, en minutos
+const OFFER_WINDOW_OPTIONS = [30, 60, 120, 360, 720, 1440];
+
+const offerWindowLabel = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutos` : minutes === 60 ? "1 hora" : `${minutes / 60} horas`;
+
+// Estado del juego en su ciclo de vida
+const GAME_STATUS_BADGES: Record<GameStatusType, { label: string; className: string }> = {
+  scheduled: { label: "Programado", className: "bg-gray-100 text-gray-800" },
+  pending: { label: "Inscripciones abiertas", className: "bg-green-100 text-green-800" },
+  locked: { label: "Roster cerrado", className: "bg-amber-100 text-amber-800" },
+  in_progress: { label: "En juego", className: "bg-blue-100 text-blue-800" },
+  completed: { label: "Terminado", className: "bg-purple-100 text-purple-800" },
+  cancelled: { label: "Cancelado", className: "bg-red-100 text-red-800" },
+};
+
+// Acciones del ciclo de vida; cada botón aparece solo si el estado actual lo permite
+const TRANSITION_ACTIONS: { transition: GameTransitionType; label: string; icon: React.ElementType }[] = [
+  { transition: "open-signups", label: "Abrir inscripciones", icon: DoorOpen },
+  { transition: "lock-roster", label: "Cerrar roster", icon: Lock },
+  { transition: "start", label: "Empezar", icon: Play },
+  { transition: "complete", label: "Terminar", icon: CheckCircle2 },
+  { transition: "cancel", label: "Cancelar", icon: Ban },
+];
 
 type GameFormValues = z.infer<typeof gameFormSchema>;
 
@@ -58,6 +98,10 @@ export default function AdminGameManager() {
     defaultValues: {
       setsPerMatch: 3,
       courtIds: [],
+      offerWindowMinutes: DEFAULT_OFFER_WINDOW_MINUTES,
+      signupOpensAt: "",
+      signupClosesAt: "",
+      openSignups: true,
     },
   });
 
@@ -71,6 +115,10 @@ export default function AdminGameManager() {
           courtIds: data.courtIds,
           setsPerMatch: data.setsPerMatch,
           description: data.description || "",
+          offerWindowMinutes: data.offerWindowMinutes,
+          signupOpensAt: data.signupOpensAt ? new Date(data.signupOpensAt).toISOString() : null,
+          signupClosesAt: data.signupClosesAt ? new Date(data.signupClosesAt).toISOString() : null,
+          openSignups: data.openSignups,
         }),
       });
     },
@@ -117,6 +165,49 @@ export default function AdminGameManager() {
     },
   });
 
+  // Mutación para mover el juego en su ciclo de vida
+  const transitionMutation = useMutation({
+    mutationFn: async ({ gameId, transition, reason }: { gameId: number; transition: GameTransitionType; reason?: string }) => {
+      const response = await apiRequest(`/api/games/${gameId}/${transition}`, {
+        method: "POST",
+        body: JSON.stringify(reason ? { reason } : {}),
+      });
+      return (await response.json()) as Game;
+    },
+    onSuccess: (game) => {
+      toast({
+        title: "Estado actualizado",
+        description: `El juego quedó como: ${GAME_STATUS_BADGES[game.status].label.toLowerCase()}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "No se pudo cambiar el estado",
+        description: error.message || "Inténtalo de nuevo",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rankings"] });
+    },
+  });
+
+  // Terminar y cancelar no tienen vuelta atrás; cancelar avisa al roster con el motivo opcional
+  const handleTransition = (gameId: number, transition: GameTransitionType) => {
+    if (transition === "cancel") {
+      const reason = window.prompt("¿Cancelar este juego? Se avisará al roster. Motivo (opcional):");
+      if (reason === null) return;
+      transitionMutation.mutate({ gameId, transition, reason: reason.trim() || undefined });
+    } else if (transition === "complete") {
+      if (window.confirm("¿Terminar este juego? Se recalcularán los rankings con sus resultados.")) {
+        transitionMutation.mutate({ gameId, transition });
+      }
+    } else {
+      transitionMutation.mutate({ gameId, transition });
+    }
+  };
+
   // Manejar creación de juego
   const onSubmit = (data: GameFormValues) => {
     createGameMutation.mutate(data);
@@ -267,6 +358,91 @@ export default function AdminGameManager() {
                 )}
               />
 
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="signupOpensAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inscripciones abren (opcional)</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Sin fecha, los jugadores se pueden inscribir desde ya
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="signupClosesAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inscripciones cierran (opcional)</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Sin fecha, cierran al terminar el día del juego
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="openSignups"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Abrir inscripciones al crear</FormLabel>
+                      <FormDescription>
+                        Si no, el juego queda programado y los jugadores se inscriben cuando abras las inscripciones
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="offerWindowMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plazo para aceptar un lugar libre</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      defaultValue={field.value.toString()}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona el plazo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {OFFER_WINDOW_OPTIONS.map((minutes) => (
+                          <SelectItem key={minutes} value={minutes.toString()}>
+                            {offerWindowLabel(minutes)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Si alguien se baja, el siguiente de la lista de espera tiene este tiempo para aceptar el lugar
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="courtIds"
@@ -341,6 +517,7 @@ export default function AdminGameManager() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Fecha</TableHead>
+                    <TableHead>Estado</TableHead>
                     <TableHead>Sets por Partido</TableHead>
                     <TableHead>Capacidad</TableHead>
                     <TableHead>Canchas</TableHead>
@@ -353,6 +530,16 @@ export default function AdminGameManager() {
                     <TableRow key={game.id}>
                       <TableCell>
                         {format(new Date(game.date), "dd/MM/yyyy")}
+                        {game.seriesId && (
+                          <span title="Parte de una serie" className="ml-1 inline-flex text-muted-foreground">
+                            <Repeat className="h-3 w-3" />
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={GAME_STATUS_BADGES[game.status].className}>
+                          {GAME_STATUS_BADGES[game.status].label}
+                        </Badge>
                       </TableCell>
                       <TableCell>{game.setsPerMatch}</TableCell>
                       <TableCell>
@@ -366,14 +553,31 @@ export default function AdminGameManager() {
                       </TableCell>
                       <TableCell>{game.description || "-"}</TableCell>
                       <TableCell>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleDeleteGame(game.id)}
-                          disabled={deleteGameMutation.isPending}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <div className="flex flex-wrap gap-1">
+                          {TRANSITION_ACTIONS
+                            .filter(({ transition }) => canTransition(game.status, transition))
+                            .map(({ transition, label, icon: Icon }) => (
+                              <Button
+                                key={transition}
+                                size="sm"
+                                variant="outline"
+                                title={label}
+                                onClick={() => handleTransition(game.id!, transition)}
+                                disabled={transitionMutation.isPending}
+                              >
+                                <Icon className="h-4 w-4 mr-1" />
+                                {label}
+                              </Button>
+                            ))}
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeleteGame(game.id)}
+                            disabled={deleteGameMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -4,6 +4,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -13,9 +15,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Player, Game, UserRole, insertPlayerSchema, WaitListPlayer } from "@shared/schema";
+import { Player, Game, UserRole, insertPlayerSchema, WaitListPlayer, WaitListPriority, WaitListPromotion, WaitListOffer, OfferStatus, RosterChange, isRosterEditable } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
-import { Search, UserPlus, UserCheck, Trash2 } from "lucide-react";
+import { Search, UserPlus, UserCheck, UserMinus, Trash2, ArrowUpCircle, Star } from "lucide-react";
 
 // Schema para agregar invitado
 const guestPlayerSchema = insertPlayerSchema.pick({
@@ -33,6 +35,32 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
+  const gameKey = [`/api/games/${gameId}`];
+  const waitListKey = [`/api/games/${gameId}/waitlist`];
+  const promotionsKey = [`/api/games/${gameId}/promotions`];
+  const offersKey = [`/api/games/${gameId}/offers`];
+
+  // El roster cambia el juego, su lista de espera, las promociones y el listado de juegos
+  const refreshRoster = () => {
+    queryClient.invalidateQueries({ queryKey: gameKey });
+    queryClient.invalidateQueries({ queryKey: waitListKey });
+    queryClient.invalidateQueries({ queryKey: promotionsKey });
+    queryClient.invalidateQueries({ queryKey: offersKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+  };
+
+  // Si el juego estaba lleno, el servidor deja al jugador en la lista de espera
+  const notifyJoin = (change: RosterChange, title: string) => {
+    toast(change.waitListed
+      ? {
+          title: "Juego completo",
+          description: "El jugador quedó en la lista de espera y subirá cuando se libere un lugar",
+        }
+      : {
+          title,
+          description: "El jugador ha sido agregado al juego exitosamente",
+        });
+  };
 
   // Formulario para agregar invitado
   const guestForm = useForm<GuestPlayerValues>({
@@ -52,30 +80,40 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
 
   // Cargar detalles del juego
   const { data: game, isLoading: isLoadingGame } = useQuery<Game>({
-    queryKey: ["/api/games", gameId],
+    queryKey: gameKey,
     enabled: Boolean(gameId),
   });
 
   // Cargar lista de espera
   const { data: waitList = [], isLoading: isLoadingWaitList } = useQuery<WaitListPlayer[]>({
-    queryKey: ["/api/games", gameId, "waitlist"],
+    queryKey: waitListKey,
+    enabled: Boolean(gameId),
+  });
+
+  // Historial de quién pasó de la lista de espera al juego
+  const { data: promotions = [] } = useQuery<WaitListPromotion[]>({
+    queryKey: promotionsKey,
     enabled: Boolean(gameId),
   });
 
+  // Ofertas de lugares libres; la pendiente de cada jugador se muestra en la lista de espera
+  const { data: offers = [] } = useQuery<WaitListOffer[]>({
+    queryKey: offersKey,
+    enabled: Boolean(gameId),
+  });
+  const pendingOffers = offers.filter(offer => offer.status === OfferStatus.PENDING);
+
   // Mutación para agregar jugador al juego
   const addPlayerMutation = useMutation({
     mutationFn: async (playerId: number) => {
-      return await apiRequest(`/api/games/${gameId}/players/${playerId}`, {
+      const response = await apiRequest(`/api/games/${gameId}/players/${playerId}`, {
         method: "POST",
       });
+      return (await response.json()) as RosterChange;
     },
-    onSuccess: () => {
-      toast({
-        title: "Jugador agregado",
-        description: "El jugador ha sido agregado al juego exitosamente",
-      });
-      // Refrescar datos
-      queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+    onSuccess: (change) => {
+      notifyJoin(change, "Jugador agregado");
+      refreshRoster();
     },
     onError: (error: any) => {
       toast({
@@ -90,32 +128,30 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
   const addGuestMutation = useMutation({
     mutationFn: async (guestData: GuestPlayerValues) => {
       // Primero creamos el jugador invitado
-      const newPlayer = await apiRequest("/api/players", {
+      const playerResponse = await apiRequest("/api/players", {
         method: "POST",
         body: JSON.stringify({
           ...guestData,
-          role: UserRole.PLAYER,
-          selected: true // Automáticamente seleccionarlo
+          role: UserRole.PLAYER
         }),
       });
+      const newPlayer = (await playerResponse.json()) as Player;
 
       // Luego lo agregamos al juego
       if (newPlayer && newPlayer.id) {
-        return await apiRequest(`/api/games/${gameId}/players/${newPlayer.id}`, {
+        const response = await apiRequest(`/api/games/${gameId}/players/${newPlayer.id}`, {
           method: "POST",
         });
+        return (await response.json()) as RosterChange;
       }
       throw new Error("No se pudo crear el jugador invitado");
     },
-    onSuccess: () => {
-      toast({
-        title: "Invitado agregado",
-        description: "El invitado ha sido registrado y agregado al juego exitosamente",
-      });
+    onSuccess: (change) => {
+      notifyJoin(change, "Invitado agregado");
       guestForm.reset();
       // Refrescar datos
       queryClient.invalidateQueries({ queryKey: ["/api/players"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+      refreshRoster();
     },
     onError: (error: any) => {
       toast({
@@ -126,6 +162,32 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
     },
   });
 
+  // Mutación para quitar jugador del juego; el primero en espera ocupa su lugar
+  const removePlayerMutation = useMutation({
+    mutationFn: async (playerId: number) => {
+      const response = await apiRequest(`/api/games/${gameId}/players/${playerId}`, {
+        method: "DELETE",
+      });
+      return (await response.json()) as RosterChange;
+    },
+    onSuccess: ({ offered }) => {
+      toast({
+        title: "Jugador quitado",
+        description: offered
+          ? `Se le ofreció el lugar a ${offered.alias || offered.name}, el siguiente de la lista de espera`
+          : "El jugador ha sido quitado del juego",
+      });
+      refreshRoster();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo quitar el jugador",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mutación para agregar a la lista de espera
   const addToWaitListMutation = useMutation({
     mutationFn: async (playerId: number) => {
@@ -139,7 +201,7 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
         description: "El jugador ha sido agregado a la lista de espera exitosamente",
       });
       // Refrescar datos
-      queryClient.invalidateQueries({ queryKey: ["/api/games", gameId, "waitlist"] });
+      queryClient.invalidateQueries({ queryKey: waitListKey });
     },
     onError: (error: any) => {
       toast({
@@ -162,8 +224,8 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
         title: "Quitado de lista de espera",
         description: "El jugador ha sido quitado de la lista de espera exitosamente",
       });
-      // Refrescar datos
-      queryClient.invalidateQueries({ queryKey: ["/api/games", gameId, "waitlist"] });
+      // Refrescar datos; si tenía un lugar ofrecido, pasó al siguiente
+      refreshRoster();
     },
     onError: (error: any) => {
       toast({
@@ -174,6 +236,63 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
     },
   });
 
+  // Mutación para subir manualmente a un jugador de la lista de espera al juego
+  const promoteMutation = useMutation({
+    mutationFn: async (playerId: number) => {
+      return await apiRequest(`/api/games/${gameId}/waitlist/${playerId}/move`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Jugador promovido",
+        description: "El jugador pasó de la lista de espera al juego",
+      });
+      refreshRoster();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo promover al jugador",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutación para dar o quitar prioridad en la lista de espera
+  const priorityMutation = useMutation({
+    mutationFn: async ({ playerId, priority }: { playerId: number; priority: number }) => {
+      return await apiRequest(`/api/games/${gameId}/waitlist/${playerId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ priority }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: waitListKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo cambiar la prioridad",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const offerStatusLabel: Record<string, string> = {
+    [OfferStatus.PENDING]: "Pendiente",
+    [OfferStatus.ACCEPTED]: "Aceptada",
+    [OfferStatus.DECLINED]: "Rechazada",
+    [OfferStatus.EXPIRED]: "Vencida",
+  };
+
+  // Nombre para mostrar de un jugador del historial (puede haberse eliminado)
+  const playerName = (playerId: number | null) => {
+    if (playerId === null) return "-";
+    const player = players.find(p => p.id === playerId);
+    return player ? player.alias || player.name : `#${playerId}`;
+  };
+
   // Manejar envío del formulario de invitado
   const onGuestFormSubmit = (data: GuestPlayerValues) => {
     if (!user?.id) {
@@ -205,6 +324,9 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
   // Verificar si el juego está lleno
   const isGameFull = game?.playerIds.length === game?.maxPlayers;
 
+  // Una vez que el juego empieza, termina o se cancela, su roster ya no cambia
+  const isRosterFrozen = game !== undefined && !isRosterEditable(game);
+
   // Verificar si el usuario actual es admin
   const isAdmin = user && (user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN);
 
@@ -244,6 +366,11 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {isRosterFrozen && (
+            <p className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+              El juego ya empezó, terminó o se canceló; su roster no se puede cambiar
+            </p>
+          )}
           <Tabs defaultValue="registered">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="registered">Jugadores Registrados</TabsTrigger>
@@ -306,13 +433,21 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
                               <TableCell>{player.phone || "-"}</TableCell>
                               <TableCell>
                                 {isInGame ? (
-                                  <Badge>Ya está en el juego</Badge>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => removePlayerMutation.mutate(player.id)}
+                                    disabled={isRosterFrozen || removePlayerMutation.isPending}
+                                  >
+                                    <UserMinus className="h-4 w-4 mr-1" />
+                                    Quitar del juego
+                                  </Button>
                                 ) : isInWaitList ? (
                                   <Button
                                     size="sm"
                                     variant="destructive"
                                     onClick={() => removeFromWaitListMutation.mutate(player.id)}
-                                    disabled={removeFromWaitListMutation.isPending}
+                                    disabled={isRosterFrozen || removeFromWaitListMutation.isPending}
                                   >
                                     <Trash2 className="h-4 w-4 mr-1" />
                                     Quitar de espera
@@ -322,7 +457,7 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
                                     size="sm"
                                     variant="secondary"
                                     onClick={() => addToWaitListMutation.mutate(player.id)}
-                                    disabled={addToWaitListMutation.isPending}
+                                    disabled={isRosterFrozen || addToWaitListMutation.isPending}
                                   >
                                     Agregar a espera
                                   </Button>
@@ -331,7 +466,7 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
                                     size="sm"
                                     variant="default"
                                     onClick={() => addPlayerMutation.mutate(player.id)}
-                                    disabled={addPlayerMutation.isPending}
+                                    disabled={isRosterFrozen || addPlayerMutation.isPending}
                                   >
                                     <UserPlus className="h-4 w-4 mr-1" />
                                     Agregar al juego
@@ -347,36 +482,161 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
                 </div>
               )}
 
-              {/* Lista de espera */}
+              {/* Lista de espera, en el orden en que se promueve */}
               {waitList.length > 0 && (
                 <div className="mt-8">
-                  <h3 className="text-lg font-medium mb-4">Lista de Espera</h3>
+                  <h3 className="text-lg font-medium mb-1">Lista de Espera</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Los socios van antes que los invitados; a igual prioridad, sube primero quien llegó antes
+                  </p>
                   <div className="rounded-md border overflow-hidden">
                     <Table>
                       <TableHeader>
                         <TableRow>
+                          <TableHead>#</TableHead>
                           <TableHead>Alias</TableHead>
-                          <TableHead>Nombre completo</TableHead>
-                          <TableHead>Teléfono</TableHead>
+                          <TableHead>Prioridad</TableHead>
+                          <TableHead>En espera desde</TableHead>
+                          <TableHead>Oferta</TableHead>
                           <TableHead>Acciones</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {waitList.map((player) => (
-                          <TableRow key={player.id}>
-                            <TableCell>{player.alias || player.name}</TableCell>
-                            <TableCell>{player.name}</TableCell>
-                            <TableCell>{player.phone || "-"}</TableCell>
+                        {waitList.map((player, index) => {
+                          const offer = pendingOffers.find(o => o.playerId === player.id);
+
+                          return (
+                            <TableRow key={player.id}>
+                              <TableCell>{index + 1}</TableCell>
+                              <TableCell>{player.alias || player.name}</TableCell>
+                              <TableCell>
+                                {player.priority > WaitListPriority.MEMBER ? (
+                                  <Badge>Prioritario</Badge>
+                                ) : player.priority === WaitListPriority.MEMBER ? (
+                                  <Badge variant="outline">Socio</Badge>
+                                ) : (
+                                  <Badge variant="secondary">Invitado</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {format(new Date(player.waitingSince), "d 'de' MMMM, HH:mm", { locale: es })}
+                              </TableCell>
+                              <TableCell>
+                                {offer ? (
+                                  <Badge variant="outline" className="border-amber-300 text-amber-800">
+                                    Lugar ofrecido · vence {format(new Date(offer.expiresAt), "HH:mm", { locale: es })}
+                                  </Badge>
+                                ) : "-"}
+                              </TableCell>
+                              <TableCell className="space-x-2">
+                                <Button
+                                  size="sm"
+                                  variant="default"
+                                  onClick={() => promoteMutation.mutate(player.id)}
+                                  disabled={isRosterFrozen || promoteMutation.isPending || (isGameFull && !offer)}
+                                >
+                                  <ArrowUpCircle className="h-4 w-4 mr-1" />
+                                  Subir al juego
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => priorityMutation.mutate({
+                                    playerId: player.id,
+                                    priority: player.priority > WaitListPriority.MEMBER
+                                      ? WaitListPriority.MEMBER
+                                      : WaitListPriority.MEMBER + 1,
+                                  })}
+                                  disabled={priorityMutation.isPending}
+                                >
+                                  <Star className="h-4 w-4 mr-1" />
+                                  {player.priority > WaitListPriority.MEMBER ? "Quitar prioridad" : "Dar prioridad"}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => removeFromWaitListMutation.mutate(player.id)}
+                                  disabled={isRosterFrozen || removeFromWaitListMutation.isPending}
+                                >
+                                  <Trash2 className="h-4 w-4 mr-1" />
+                                  Quitar
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {/* Ofertas de lugares libres */}
+              {offers.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-medium mb-1">Lugares ofrecidos</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Al liberarse un lugar se ofrece al siguiente de la lista de espera; si no responde a tiempo, pasa al que sigue
+                  </p>
+                  <div className="rounded-md border overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Jugador</TableHead>
+                          <TableHead>Estado</TableHead>
+                          <TableHead>Ofrecido</TableHead>
+                          <TableHead>Vence</TableHead>
+                          <TableHead>Respuesta</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {offers.map((offer) => (
+                          <TableRow key={offer.id}>
+                            <TableCell>{playerName(offer.playerId)}</TableCell>
+                            <TableCell>
+                              <Badge variant={offer.status === OfferStatus.PENDING ? "default" : "outline"}>
+                                {offerStatusLabel[offer.status]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {format(new Date(offer.offeredAt), "d 'de' MMMM, HH:mm", { locale: es })}
+                            </TableCell>
+                            <TableCell>{format(new Date(offer.expiresAt), "HH:mm", { locale: es })}</TableCell>
+                            <TableCell>
+                              {offer.respondedAt ? format(new Date(offer.respondedAt), "HH:mm", { locale: es }) : "-"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {/* Historial de promociones */}
+              {promotions.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-lg font-medium mb-4">Promociones desde la lista de espera</h3>
+                  <div className="rounded-md border overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Fecha</TableHead>
+                          <TableHead>Jugador</TableHead>
+                          <TableHead>Ocupó el lugar de</TableHead>
+                          <TableHead>Movido por</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {promotions.map((promotion) => (
+                          <TableRow key={promotion.id}>
+                            <TableCell>
+                              {format(new Date(promotion.promotedAt), "d 'de' MMMM, HH:mm", { locale: es })}
+                            </TableCell>
+                            <TableCell>{playerName(promotion.playerId)}</TableCell>
+                            <TableCell>{playerName(promotion.replacedPlayerId)}</TableCell>
                             <TableCell>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => removeFromWaitListMutation.mutate(player.id)}
-                                disabled={removeFromWaitListMutation.isPending}
-                              >
-                                <Trash2 className="h-4 w-4 mr-1" />
-                                Quitar
-                              </Button>
+                              {promotion.promotedBy === null ? "Automática" : playerName(promotion.promotedBy)}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -444,14 +704,12 @@ export default function AdminGamePlayers({ gameId }: { gameId: number }) {
                   <Button
                     type="submit"
                     className="w-full"
-                    disabled={
-                      addGuestMutation.isPending || isGameFull || !game
-                    }
+                    disabled={isRosterFrozen || addGuestMutation.isPending || !game}
                   >
                     {addGuestMutation.isPending ? (
                       "Agregando invitado..."
                     ) : isGameFull ? (
-                      "Juego completo"
+                      "Juego completo: agregar a lista de espera"
                     ) : (
                       <>
                         <UserCheck className="mr-2 h-4 w-4" /> Agregar Invitado
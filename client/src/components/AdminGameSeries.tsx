@@ -0,0 +1,541 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Plus, Repeat, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  Court,
+  GameSeriesDetails,
+  GameStatus,
+  MAX_SERIES_OCCURRENCES,
+  SeriesFrequency,
+  seriesDates
+} from "@shared/schema";
+
+// Días de la semana en el orden del club (lunes primero); el valor es getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Lun" },
+  { value: 2, label: "Mar" },
+  { value: 3, label: "Mié" },
+  { value: 4, label: "Jue" },
+  { value: 5, label: "Vie" },
+  { value: 6, label: "Sáb" },
+  { value: 0, label: "Dom" },
+];
+
+const weekdayLabel = (day: number) => WEEKDAYS.find(weekday => weekday.value === day)?.label ?? "";
+
+const seriesFormSchema = z.object({
+  startDate: z.string().min(1, { message: "La fecha de inicio es requerida" }),
+  weekdays: z.array(z.number()).min(1, { message: "Elige al menos un día de la semana" }),
+  frequency: z.enum([SeriesFrequency.WEEKLY, SeriesFrequency.BIWEEKLY]),
+  endType: z.enum(["date", "count"]),
+  endDate: z.string().optional(),
+  occurrences: z.string().optional(),
+  courtIds: z.array(z.number()).min(1, { message: "Selecciona al menos una cancha" }),
+  setsPerMatch: z.number().min(1).max(7),
+  maxPlayers: z.string().optional(), // Vacío = 4 por cancha
+  description: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.endType === "date" && !values.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "Indica la fecha de fin" });
+  }
+  const occurrences = Number(values.occurrences);
+  if (values.endType === "count" && !(Number.isInteger(occurrences) && occurrences >= 1 && occurrences <= MAX_SERIES_OCCURRENCES)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["occurrences"],
+      message: `Indica entre 1 y ${MAX_SERIES_OCCURRENCES} fechas`,
+    });
+  }
+});
+
+type SeriesFormValues = z.infer<typeof seriesFormSchema>;
+
+const DEFAULT_VALUES: SeriesFormValues = {
+  startDate: "",
+  weekdays: [],
+  frequency: SeriesFrequency.WEEKLY,
+  endType: "count",
+  endDate: "",
+  occurrences: "8",
+  courtIds: [],
+  setsPerMatch: 3,
+  maxPlayers: "",
+  description: "",
+};
+
+const dateLabel = (date: string) => format(new Date(`${date}T00:00:00`), "d 'de' MMMM yyyy", { locale: es });
+
+// Cuerpo de la solicitud: la serie termina en una fecha o tras un número de fechas, nunca ambas
+function toSeriesBody(values: SeriesFormValues) {
+  return {
+    weekdays: values.weekdays,
+    frequency: values.frequency,
+    endDate: values.endType === "date" ? values.endDate : null,
+    occurrences: values.endType === "count" ? Number(values.occurrences) : null,
+    courtIds: values.courtIds,
+    setsPerMatch: values.setsPerMatch,
+    maxPlayers: values.maxPlayers ? Number(values.maxPlayers) : null,
+    description: values.description || null,
+  };
+}
+
+function toFormValues(series: GameSeriesDetails): SeriesFormValues {
+  return {
+    startDate: series.startDate,
+    weekdays: series.weekdays,
+    frequency: series.frequency,
+    endType: series.endDate ? "date" : "count",
+    endDate: series.endDate ?? "",
+    occurrences: series.occurrences?.toString() ?? "",
+    courtIds: series.courtIds,
+    setsPerMatch: series.setsPerMatch,
+    maxPlayers: series.maxPlayers?.toString() ?? "",
+    description: series.description ?? "",
+  };
+}
+
+// Al editar, solo se envía lo que cambió: así no se pisan los cambios hechos a mano en cada fecha
+function changedFields(series: GameSeriesDetails, values: SeriesFormValues) {
+  const before: Record<string, unknown> = toSeriesBody(toFormValues(series));
+  return Object.fromEntries(
+    Object.entries(toSeriesBody(values)).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(before[key]))
+  );
+}
+
+/**
+ * Series de juegos recurrentes: cada fecha se crea como un juego que se edita o cancela
+ * en "Fechas de Juego"; editar la serie cambia solo las fechas de hoy en adelante.
+ */
+export default function AdminGameSeries() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: courts = [] } = useQuery<Court[]>({
+    queryKey: ["/api/courts"],
+  });
+
+  const { data: seriesList = [], isLoading } = useQuery<GameSeriesDetails[]>({
+    queryKey: ["/api/series"],
+  });
+
+  const form = useForm<SeriesFormValues>({
+    resolver: zodResolver(seriesFormSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const values = form.watch();
+  const preview = values.startDate && values.weekdays.length > 0
+    ? seriesDates({
+        startDate: values.startDate,
+        weekdays: values.weekdays,
+        frequency: values.frequency,
+        endDate: values.endType === "date" ? values.endDate || null : null,
+        occurrences: values.endType === "count" ? Number(values.occurrences) || null : null,
+      })
+    : [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/series"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    form.reset(DEFAULT_VALUES);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SeriesFormValues) => {
+      const response = editingId === null
+        ? await apiRequest("/api/series", {
+            method: "POST",
+            body: JSON.stringify({ ...toSeriesBody(data), startDate: data.startDate }),
+          })
+        : await apiRequest(`/api/series/${editingId}`, {
+            method: "PATCH",
+            body: JSON.stringify(changedFields(seriesList.find(series => series.id === editingId)!, data)),
+          });
+      return (await response.json()) as GameSeriesDetails;
+    },
+    onSuccess: () => {
+      toast(editingId === null
+        ? { title: "Serie creada", description: "Sus fechas ya aparecen en Fechas de Juego" }
+        : { title: "Serie actualizada", description: "Los cambios aplican de hoy en adelante" });
+      stopEditing();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar la serie",
+        variant: "destructive",
+      });
+    },
+    onSettled: refresh,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (seriesId: number) => {
+      await apiRequest(`/api/series/${seriesId}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      toast({ title: "Serie eliminada", description: "Sus fechas próximas se quitaron; los juegos pasados se conservan" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo eliminar la serie",
+        variant: "destructive",
+      });
+    },
+    onSettled: refresh,
+  });
+
+  const startEditing = (series: GameSeriesDetails) => {
+    setEditingId(series.id);
+    form.reset(toFormValues(series));
+  };
+
+  const handleDelete = (seriesId: number) => {
+    if (window.confirm("¿Eliminar esta serie? Se quitarán sus fechas próximas; las que ya tienen jugadores se cancelan con aviso.")) {
+      deleteMutation.mutate(seriesId);
+    }
+  };
+
+  const toggleInList = (list: number[], value: number, checked: boolean) =>
+    checked ? Array.from(new Set([...list, value])) : list.filter(item => item !== value);
+
+  const today = new Date().toISOString().split("T")[0];
+  const upcomingCount = (series: GameSeriesDetails) =>
+    series.games.filter(game => game.gameDate >= today && game.status !== GameStatus.CANCELLED).length;
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            {editingId === null ? "Crear Serie de Juegos" : "Editar Serie de Juegos"}
+          </CardTitle>
+          <CardDescription>
+            {editingId === null
+              ? "Repite una fecha de juego cada semana o cada dos semanas; cada fecha se puede editar o cancelar por separado"
+              : "Los cambios aplican a las fechas de hoy en adelante que no han empezado; lo editado a mano en cada fecha se conserva"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fecha de inicio</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} disabled={editingId !== null} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frecuencia</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={SeriesFrequency.WEEKLY}>Cada semana</SelectItem>
+                          <SelectItem value={SeriesFrequency.BIWEEKLY}>Cada dos semanas</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="weekdays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Días de la semana</FormLabel>
+                    <div className="flex flex-wrap gap-3">
+                      {WEEKDAYS.map(({ value, label }) => (
+                        <label key={value} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(value)}
+                            onCheckedChange={(checked) => field.onChange(toggleInList(field.value, value, checked === true))}
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="endType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Termina</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="count">Después de un número de fechas</SelectItem>
+                          <SelectItem value="date">En una fecha</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {values.endType === "date" ? (
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fecha de fin</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="occurrences"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número de fechas</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_SERIES_OCCURRENCES} {...field} />
+                        </FormControl>
+                        <FormDescription>Cuentan desde la fecha de inicio</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="setsPerMatch"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sets por Partido</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value.toString()}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {[1, 3, 5, 7].map((num) => (
+                            <SelectItem key={num} value={num.toString()}>
+                              {num} {num === 1 ? "set" : "sets"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxPlayers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacidad (opcional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} placeholder={`${values.courtIds.length * 4} jugadores`} {...field} />
+                      </FormControl>
+                      <FormDescription>Sin valor, 4 jugadores por cancha</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descripción (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Por ejemplo: Martes y jueves de dobles" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="courtIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Canchas</FormLabel>
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                      {courts.map((court) => (
+                        <label key={court.id} className="flex items-center space-x-2 rounded-md border p-3 text-sm font-medium cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(court.id)}
+                            onCheckedChange={(checked) => field.onChange(toggleInList(field.value, court.id, checked === true))}
+                          />
+                          <span>{court.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {preview.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {preview.length} {preview.length === 1 ? "fecha" : "fechas"}: del {dateLabel(preview[0])} al{" "}
+                  {dateLabel(preview[preview.length - 1])}
+                  {editingId === null && preview[0] < today && " (las fechas pasadas no se crean)"}
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? (
+                    "Guardando serie..."
+                  ) : editingId === null ? (
+                    <>
+                      <Plus className="mr-2 h-4 w-4" /> Crear Serie
+                    </>
+                  ) : (
+                    "Guardar cambios"
+                  )}
+                </Button>
+                {editingId !== null && (
+                  <Button type="button" variant="outline" onClick={stopEditing}>
+                    <X className="mr-2 h-4 w-4" /> Cancelar edición
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-2xl">Series Programadas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center my-8">
+              <p>Cargando series...</p>
+            </div>
+          ) : seriesList.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No hay series de juegos</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Días</TableHead>
+                    <TableHead>Frecuencia</TableHead>
+                    <TableHead>Termina</TableHead>
+                    <TableHead>Canchas</TableHead>
+                    <TableHead>Próximas fechas</TableHead>
+                    <TableHead>Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {seriesList.map((series) => (
+                    <TableRow key={series.id}>
+                      <TableCell>
+                        {series.weekdays.map(weekdayLabel).join(", ")}
+                        {series.description && (
+                          <p className="text-xs text-muted-foreground">{series.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {series.frequency === SeriesFrequency.BIWEEKLY ? "Cada dos semanas" : "Cada semana"}
+                      </TableCell>
+                      <TableCell>
+                        {series.endDate ? dateLabel(series.endDate) : `Tras ${series.occurrences} fechas`}
+                      </TableCell>
+                      <TableCell>
+                        {series.courtIds.length} {series.courtIds.length === 1 ? "cancha" : "canchas"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{upcomingCount(series)}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="outline" onClick={() => startEditing(series)} title="Editar serie">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDelete(series.id)}
+                            disabled={deleteMutation.isPending}
+                            title="Eliminar serie"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
-import { Search, UserPlus } from "lucide-react";
+import { KeyRound, Search, UserPlus } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 
 export default function AdminUserManager() {
@@ -16,6 +16,7 @@ export default function AdminUserManager() {
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const { user } = useAuth();
+  const [resetToken, setResetToken] = useState<{ playerName: string; token: string; expiresAt: string } | null>(null);
   
   // Cargar jugadores
   const { data: players = [], isLoading } = useQuery<Player[]>({
@@ -47,6 +48,28 @@ export default function AdminUserManager() {
     },
   });
 
+  // Mutación para emitir un token de restablecimiento de contraseña (solo superadmin)
+  const resetMutation = useMutation({
+    mutationFn: async (player: Player) => {
+      const response = await apiRequest(`/api/players/${player.id}/password-reset`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      return { playerName: player.name, token: data.token as string, expiresAt: data.expiresAt as string };
+    },
+    onSuccess: (data) => {
+      // El token solo se muestra una vez; el servidor guarda únicamente su hash
+      setResetToken(data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo generar el token",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Función para filtrar jugadores
   const filteredPlayers = players.filter(
     (player) =>
@@ -62,6 +85,8 @@ export default function AdminUserManager() {
     }
   };
 
+  const isSuperAdmin = user?.role === UserRole.SUPERADMIN;
+
   // Verificar si el usuario actual es admin
   const isAdmin = user && (user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN);
 
@@ -96,6 +121,20 @@ export default function AdminUserManager() {
           </div>
         </div>
 
+        {resetToken && (
+          <div className="mb-6 rounded-md border border-amber-300 bg-amber-50 p-4 text-sm">
+            <p className="font-medium">Token de restablecimiento para {resetToken.playerName}</p>
+            <p className="my-2 break-all font-mono">{resetToken.token}</p>
+            <p className="text-muted-foreground">
+              Compártelo de forma privada. Es de un solo uso y vence el{" "}
+              {new Date(resetToken.expiresAt).toLocaleString()}.
+            </p>
+            <Button size="sm" variant="outline" className="mt-2" onClick={() => setResetToken(null)}>
+              Ocultar
+            </Button>
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex justify-center my-8">
             <p>Cargando usuarios...</p>
@@ -152,6 +191,17 @@ export default function AdminUserManager() {
                             Promover a Admin
                           </Button>
                         )}
+                        {isSuperAdmin && player.role !== UserRole.PLAYER && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resetMutation.mutate(player)}
+                            disabled={resetMutation.isPending}
+                          >
+                            <KeyRound className="h-4 w-4 mr-1" />
+                            Restablecer contraseña
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -1,15 +1,17 @@
 import { X } from "lucide-react";
 import type { Court, CourtPairing } from "@shared/schema";
+import { formatProbability, isEvenCourt } from "@/lib/pairing";
 
 interface CourtCardProps {
   court: Court;
   pairing?: CourtPairing;
+  fairness?: number | null; // Equidad de toda la sesión, de 0 a 100
   selected?: boolean;
   onRemove: () => void;
   onToggleSelection?: () => void;
 }
 
-export default function CourtCard({ court, pairing, selected = false, onRemove, onToggleSelection }: CourtCardProps) {
+export default function CourtCard({ court, pairing, fairness, selected = false, onRemove, onToggleSelection }: CourtCardProps) {
   return (
     <div 
       className={`border ${selected ? 'border-[var(--color-primary)]' : 'border-gray-200'} rounded-lg bg-white shadow-sm overflow-hidden transition-all ${onToggleSelection ? 'cursor-pointer hover:shadow-md' : ''} ${selected ? 'ring-2 ring-[var(--color-primary)] ring-opacity-50' : ''}`}
@@ -32,7 +34,9 @@ export default function CourtCard({ court, pairing, selected = false, onRemove,
         {pairing ? (
           <>
             <div className="mb-3">
-              <div className="text-sm font-medium text-gray-500 mb-1">Pareja 1</div>
+              <div className="text-sm font-medium text-gray-500 mb-1">
+                Pareja 1{pairing.balance && ` · gana ${formatProbability(pairing.balance.pair1WinProbability)}`}
+              </div>
               <div className="flex flex-wrap gap-2">
                 <div className="bg-primary-100 text-primary-800 px-2 py-1 rounded text-sm">
                   {pairing.pair1.player1.name}
@@ -43,7 +47,9 @@ export default function CourtCard({ court, pairing, selected = false, onRemove,
               </div>
             </div>
             <div>
-              <div className="text-sm font-medium text-gray-500 mb-1">Pareja 2</div>
+              <div className="text-sm font-medium text-gray-500 mb-1">
+                Pareja 2{pairing.balance && ` · gana ${formatProbability(pairing.balance.pair2WinProbability)}`}
+              </div>
               <div className="flex flex-wrap gap-2">
                 <div className="bg-primary-100 text-primary-800 px-2 py-1 rounded text-sm">
                   {pairing.pair2.player1.name}
@@ -53,6 +59,18 @@ export default function CourtCard({ court, pairing, selected = false, onRemove,
                 </div>
               </div>
             </div>
+            {(pairing.balance || (fairness !== undefined && fairness !== null)) && (
+              <div className="mt-3 pt-3 border-t border-gray-100 text-xs text-gray-500 space-y-0.5">
+                {pairing.balance && (
+                  <div className={isEvenCourt(pairing.balance) ? "" : "text-amber-700"}>
+                    Diferencia de rating: {pairing.balance.ratingDiff} pts
+                  </div>
+                )}
+                {fairness !== undefined && fairness !== null && (
+                  <div>Equidad de la sesión: {fairness}/100</div>
+                )}
+              </div>
+            )}
           </>
         ) : (
           <div className="flex flex-col items-center justify-center p-4 text-center">
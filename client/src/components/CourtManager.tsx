@@ -1,13 +1,25 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { AlertCircle, PlusCircle, Users, Calendar, Hash } from "lucide-react";
+import { AlertCircle, PlusCircle, Users, Calendar, Hash, Shuffle, History, Coffee, Repeat, KeyRound } from "lucide-react";
 import CourtCard from "./CourtCard";
-import type { Player, Court, CourtPairing } from "@shared/schema";
+import {
+  PairingStrategy,
+  pairingStrategySchema,
+  sessionFairness,
+  type Player,
+  type BenchPlayer,
+  type Court,
+  type CourtPairing,
+  type Game,
+  type GeneratePairingsRequest,
+  type PairingStrategyType
+} from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -16,21 +28,51 @@ import { zodResolver } from "@hookform/resolvers/zod";
 const gamePairingSchema = z.object({
   gameDate: z.string().min(1, { message: "La fecha es obligatoria" }),
   sets: z.coerce.number().min(3, { message: "Mínimo 3 sets" }).max(7, { message: "Máximo 7 sets" }),
+  strategy: pairingStrategySchema,
+  lookback: z.coerce.number().min(0).max(52),
+  rounds: z.coerce.number().min(1, { message: "Mínimo 1 ronda" }).max(12, { message: "Máximo 12 rondas" }),
+  seed: z.string().max(64, { message: "Máximo 64 caracteres" }),
 });
 
+// Nombre y descripción de cada estrategia de emparejamiento
+const strategyOptions: Record<PairingStrategyType, { label: string; description: string }> = {
+  [PairingStrategy.BALANCED]: {
+    label: "Equilibrado por ranking",
+    description: "El mejor con el peor (1+8, 2+7...) para partidos parejos",
+  },
+  [PairingStrategy.KING_OF_THE_COURT]: {
+    label: "Por niveles",
+    description: "Los fuertes contra los fuertes; la primera cancha es la de mayor nivel",
+  },
+  [PairingStrategy.RANDOM]: {
+    label: "Aleatorio",
+    description: "Parejas y canchas al azar, sin tomar en cuenta el ranking",
+  },
+  [PairingStrategy.MIXED]: {
+    label: "Parejas mixtas",
+    description: "Cada pareja con un jugador de cada categoría",
+  },
+  [PairingStrategy.MEXICANO]: {
+    label: "Mexicano",
+    description: "Una ronda a la vez: al cerrarla, la siguiente se arma por niveles con los puntos de la sesión",
+  },
+};
+
 type GamePairingFormValues = z.infer<typeof gamePairingSchema>;
 
 interface CourtManagerProps {
   courts: Court[];
-  players: Player[];
+  players: Player[]; // Los que juegan: el roster del juego o, si está vacío, todos
+  game?: Game; // Juego seleccionado; su fecha reemplaza a la del formulario
   pairings: CourtPairing[];
+  bench?: BenchPlayer[]; // Jugadores que descansan en el rol generado
   isLoading: boolean;
   isGenerating: boolean;
   onAddCourt: () => void;
   onRemoveCourt: (id: number) => void;
   onToggleCourtSelection?: (id: number) => void;
   courtsWithSelection?: Array<Court & { selected: boolean }>;
-  onGeneratePairings: (gameDate?: string, sets?: number, selectedCourtIds?: number[]) => void;
+  onGeneratePairings: (request: GeneratePairingsRequest) => void;
   canGeneratePairings: boolean;
   validationMessage: string;
 }
@@ -38,7 +80,9 @@ interface CourtManagerProps {
 export default function CourtManager({
   courts,
   players,
+  game,
   pairings,
+  bench = [],
   isLoading,
   isGenerating,
   onAddCourt,
@@ -49,14 +93,29 @@ export default function CourtManager({
   canGeneratePairings,
   validationMessage
 }: CourtManagerProps) {
+  const hasRounds = pairings.some(p => (p.round ?? 1) > 1);
+  
   // Inicializar formulario con valores por defecto
   const form = useForm<GamePairingFormValues>({
     resolver: zodResolver(gamePairingSchema),
     defaultValues: {
       gameDate: new Date().toISOString().split('T')[0],
       sets: 3, // Valor por defecto: 3 sets
+      strategy: PairingStrategy.BALANCED,
+      lookback: 4, // Últimos 4 juegos
+      rounds: 1,
+      seed: "",
     },
   });
+  const isMexicano = form.watch("strategy") === PairingStrategy.MEXICANO;
+  
+  // La fecha sigue al juego seleccionado
+  useEffect(() => {
+    if (game) {
+      form.setValue("gameDate", game.gameDate);
+    }
+  }, [game, form]);
+  
   return (
     <Card className="bg-white shadow rounded-lg mb-6">
       <CardContent className="p-6">
@@ -76,7 +135,8 @@ export default function CourtManager({
             </div>
           ) : (
             (courtsWithSelection.length > 0 ? courtsWithSelection : courts).map((court) => {
-              const courtPairing = pairings.find(p => p.courtId === court.id);
+              // Las tarjetas muestran la primera ronda; el rol completo está en ResultDisplay
+              const courtPairing = pairings.find(p => p.courtId === court.id && (p.round ?? 1) === 1);
               const isSelected = 'selected' in court ? Boolean(court.selected) : false;
               
               return (
@@ -84,6 +144,7 @@ export default function CourtManager({
                   key={court.id}
                   court={court}
                   pairing={courtPairing}
+                  fairness={courtPairing ? sessionFairness(pairings) : undefined}
                   selected={isSelected}
                   onRemove={() => onRemoveCourt(court.id)}
                   onToggleSelection={onToggleCourtSelection ? () => onToggleCourtSelection(court.id) : undefined}
@@ -93,6 +154,25 @@ export default function CourtManager({
           )}
         </div>
         
+        {/* Banca: jugadores que no completan una cancha en esta ronda */}
+        {bench.length > 0 && (
+          <div className="mt-4 p-3 rounded-lg border border-amber-200 bg-amber-50">
+            <p className="text-sm font-medium text-amber-800 flex items-center gap-1 mb-2">
+              <Coffee className="h-4 w-4" />
+              {hasRounds ? "Descansos por ronda" : "Descansan esta ronda"}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {bench.map(player => (
+                <span key={`${player.round}-${player.id}`} className="text-xs bg-white border border-amber-200 text-amber-900 px-2 py-1 rounded">
+                  {hasRounds && <span className="text-amber-600 mr-1">R{player.round}</span>}
+                  {player.alias || player.name}
+                  <span className="text-amber-600 ml-1">({player.sitOuts}º descanso)</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        
         <div className="mt-4 pt-4 border-t border-gray-200">
           <Form {...form}>
             <form onSubmit={form.handleSubmit((data) => {
@@ -101,11 +181,14 @@ export default function CourtManager({
                 .filter(court => court.selected)
                 .map(court => court.id);
               
-              // Si no hay canchas seleccionadas, usar todas
-              const courtIdsToUse = selectedCourtIds.length > 0 ? selectedCourtIds : undefined;
-              
-              // Llamar a la función con los parámetros del formulario
-              onGeneratePairings(data.gameDate, data.sets, courtIdsToUse);
+              // Si no hay canchas seleccionadas, el servidor usa todas
+              onGeneratePairings({
+                ...data,
+                rounds: data.strategy === PairingStrategy.MEXICANO ? 1 : data.rounds,
+                seed: data.seed.trim() || undefined, // Sin semilla, el servidor genera una
+                gameId: game?.id,
+                selectedCourtIds,
+              });
             })}>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                 <FormField
@@ -120,9 +203,15 @@ export default function CourtManager({
                       <FormControl>
                         <Input
                           type="date"
+                          disabled={!!game}
                           {...field}
                         />
                       </FormControl>
+                      {game && (
+                        <FormDescription className="text-xs text-gray-500">
+                          Es la fecha del juego seleccionado
+                        </FormDescription>
+                      )}
                     </FormItem>
                   )}
                 />
@@ -154,6 +243,95 @@ export default function CourtManager({
                     </FormItem>
                   )}
                 />
+                
+                <FormField
+                  control={form.control}
+                  name="strategy"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel className="flex items-center">
+                        <Shuffle className="h-4 w-4 mr-2" />
+                        Formato de emparejamiento
+                      </FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(strategyOptions).map(([value, option]) => (
+                            <SelectItem key={value} value={value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs text-gray-500">
+                        {strategyOptions[field.value].description}
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="rounds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center">
+                        <Repeat className="h-4 w-4 mr-2" />
+                        Rondas
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" max="12" disabled={isMexicano} {...field} />
+                      </FormControl>
+                      <FormDescription className="text-xs text-gray-500">
+                        {isMexicano
+                          ? "En Mexicano cada ronda se genera al cerrar la anterior"
+                          : "Con más de una ronda, parejas y rivales rotan en cada una (Americano)"}
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="lookback"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center">
+                        <History className="h-4 w-4 mr-2" />
+                        Evitar repetir parejas de los últimos juegos
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max="52" {...field} />
+                      </FormControl>
+                      <FormDescription className="text-xs text-gray-500">
+                        Número de juegos anteriores a considerar (0 para no tomarlos en cuenta)
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="seed"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel className="flex items-center">
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        Semilla (opcional)
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="Se genera una al azar" {...field} />
+                      </FormControl>
+                      <FormDescription className="text-xs text-gray-500">
+                        Con la misma semilla y los mismos datos se obtiene el mismo rol; queda registrada en el juego
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
               </div>
             
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
@@ -203,7 +381,7 @@ export default function CourtManager({
           <ol className="list-decimal pl-5 space-y-1">
             <li>Selecciona los jugadores en la pestaña "Jugadores"</li>
             <li>Agrega las canchas necesarias (4 jugadores por cancha)</li>
-            <li>Configura la fecha del juego y el número de sets</li>
+            <li>Configura la fecha del juego, el número de sets y el formato de emparejamiento</li>
             <li>Haz clic en "Generar Rol de Juegos" para crear los emparejamientos</li>
           </ol>
           <p className="mt-2 italic">Nota: Se utilizará el número mínimo de canchas necesarias para acomodar a todos los jugadores seleccionados.</p>
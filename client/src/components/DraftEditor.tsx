@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { GripVertical, Loader2, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { describePairingError, formatProbability, isEvenCourt } from "@/lib/pairing";
+import { courtBalance, sessionFairness, type CourtPairing, type DraftEdit, type Match, type Pair } from "@shared/schema";
+
+interface DraftEditorProps {
+  gameId: number;
+  pairings: CourtPairing[]; // Partidos en borrador de la ronda que se edita
+  getPoints: (playerId: number) => number;
+  onSaved: (matches: Match[]) => void;
+  onCancel: () => void;
+}
+
+type PairKey = "pair1" | "pair2";
+type PlayerKey = "player1" | "player2";
+
+// Lo que se arrastra: un jugador o una pareja completa
+type DragItem =
+  | { type: "player"; match: number; pair: PairKey; player: PlayerKey }
+  | { type: "pair"; match: number; pair: PairKey };
+
+const displayName = (player: Pair["player1"]) => player.alias || player.name;
+
+/**
+ * Editor del borrador: arrastrar un jugador sobre otro los intercambia (entre parejas
+ * o entre canchas) y arrastrar una pareja sobre otra intercambia las parejas completas.
+ * La probabilidad de victoria de cada pareja y la equidad de la ronda se recalculan
+ * con cada cambio; nada se guarda hasta "Guardar".
+ */
+export default function DraftEditor({ gameId, pairings, getPoints, onSaved, onCancel }: DraftEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CourtPairing[]>(pairings);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+
+  useEffect(() => {
+    setDraft(pairings);
+  }, [pairings]);
+
+  const pairPoints = (pair: Pair) => getPoints(pair.player1.id) + getPoints(pair.player2.id);
+  const balances = draft.map(pairing => courtBalance(pairPoints(pairing.pair1), pairPoints(pairing.pair2)));
+  const fairness = sessionFairness(balances.map(balance => ({ balance })));
+  const isDirty = draft.some((pairing, i) =>
+    JSON.stringify([pairing.pair1, pairing.pair2]) !== JSON.stringify([pairings[i].pair1, pairings[i].pair2])
+  );
+
+  const handleDrop = (target: DragItem) => {
+    const source = dragItem;
+    setDragItem(null);
+    if (!source || source.type !== target.type) return;
+
+    const next = draft.map(pairing => ({
+      ...pairing,
+      pair1: { ...pairing.pair1 },
+      pair2: { ...pairing.pair2 },
+    }));
+
+    if (source.type === "player" && target.type === "player") {
+      const from = next[source.match][source.pair];
+      const to = next[target.match][target.pair];
+      [from[source.player], to[target.player]] = [to[target.player], from[source.player]];
+    } else {
+      [next[source.match][source.pair], next[target.match][target.pair]] =
+        [next[target.match][target.pair], next[source.match][source.pair]];
+    }
+
+    setDraft(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const edit: DraftEdit = {
+        matches: draft.map(pairing => ({
+          id: pairing.id!,
+          courtId: pairing.courtId,
+          pair1: { player1Id: pairing.pair1.player1.id, player2Id: pairing.pair1.player2.id },
+          pair2: { player1Id: pairing.pair2.player1.id, player2Id: pairing.pair2.player2.id },
+        })),
+      };
+      const response = await apiRequest(`/api/games/${gameId}/draft`, {
+        method: "PUT",
+        body: JSON.stringify(edit),
+      });
+      return (await response.json()) as Match[];
+    },
+    onSuccess: (matches) => {
+      toast({
+        title: "Borrador guardado",
+        description: "Los jugadores aún no ven el rol hasta que se publique",
+      });
+      onSaved(matches);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo guardar el borrador",
+        description: describePairingError(error, "Inténtalo de nuevo."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dropProps = (target: DragItem) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (dragItem?.type === target.type) e.preventDefault();
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(target);
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <p className="text-sm text-blue-900">
+          Arrastra un jugador sobre otro para intercambiarlos, o una pareja (<GripVertical className="inline h-3 w-3" />) sobre otra
+        </p>
+        <span className="text-sm font-medium text-blue-900">
+          Equidad de la ronda: {fairness ?? "—"}/100
+        </span>
+      </div>
+
+      {draft.map((pairing, matchIndex) => (
+        <div key={pairing.id ?? pairing.courtId} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium text-gray-900">{pairing.courtName}</h3>
+            <span className={`text-xs font-medium px-2 py-0.5 rounded ${
+              isEvenCourt(balances[matchIndex]) ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-800"
+            }`}>
+              Diferencia {balances[matchIndex].ratingDiff} pts
+            </span>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            {(["pair1", "pair2"] as const).map((pairKey, pairIndex) => (
+              <div
+                key={pairKey}
+                className="bg-white p-3 rounded shadow-sm border border-gray-100"
+                {...dropProps({ type: "pair", match: matchIndex, pair: pairKey })}
+              >
+                <div
+                  draggable
+                  onDragStart={() => setDragItem({ type: "pair", match: matchIndex, pair: pairKey })}
+                  onDragEnd={() => setDragItem(null)}
+                  className="text-sm font-medium text-primary-600 mb-2 flex items-center justify-center gap-1 cursor-move"
+                >
+                  <GripVertical className="h-4 w-4 text-gray-400" />
+                  Pareja {pairIndex + 1} · {pairPoints(pairing[pairKey])} pts · gana {formatProbability(
+                    pairKey === "pair1" ? balances[matchIndex].pair1WinProbability : balances[matchIndex].pair2WinProbability
+                  )}
+                </div>
+                <ul className="space-y-1">
+                  {(["player1", "player2"] as const).map(playerKey => {
+                    const player = pairing[pairKey][playerKey];
+                    return (
+                      <li
+                        key={playerKey}
+                        draggable
+                        onDragStart={(e) => {
+                          e.stopPropagation();
+                          setDragItem({ type: "player", match: matchIndex, pair: pairKey, player: playerKey });
+                        }}
+                        onDragEnd={() => setDragItem(null)}
+                        {...dropProps({ type: "player", match: matchIndex, pair: pairKey, player: playerKey })}
+                        className="text-gray-700 text-center border border-dashed border-gray-200 rounded py-1 cursor-move hover:bg-gray-50"
+                      >
+                        {displayName(player)}
+                        <span className="text-xs text-gray-400 ml-1">({getPoints(player.id)})</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => setDraft(pairings)} disabled={!isDirty || saveMutation.isPending}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Deshacer cambios
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={saveMutation.isPending}>
+          Cerrar editor
+        </Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Guardar borrador
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CalendarDays } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Game } from "@shared/schema";
+
+interface GameSelectorProps {
+  games: Game[];
+  gameId?: number;
+  onChange: (gameId: number) => void;
+}
+
+// La fecha se guarda como YYYY-MM-DD; se interpreta en hora local para no cambiar de día
+const gameLabel = (game: Game) =>
+  format(new Date(`${game.gameDate}T00:00:00`), "EEEE d 'de' MMMM yyyy", { locale: es });
+
+// Juego cuyo roster se está preparando: la selección de jugadores y la generación se aplican a él
+export default function GameSelector({ games, gameId, onChange }: GameSelectorProps) {
+  const selectedGame = games.find(game => game.id === gameId);
+
+  return (
+    <Card className="bg-white shadow rounded-lg">
+      <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-[var(--color-dark)]">
+          <CalendarDays className="h-4 w-4" />
+          Juego
+        </div>
+        {games.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No hay juegos programados; al generar el rol se crea el juego de esa fecha con todos los jugadores
+          </p>
+        ) : (
+          <>
+            <Select value={gameId !== undefined ? String(gameId) : undefined} onValueChange={(value) => onChange(Number(value))}>
+              <SelectTrigger className="sm:w-72">
+                <SelectValue placeholder="Selecciona un juego" />
+              </SelectTrigger>
+              <SelectContent>
+                {games.map(game => (
+                  <SelectItem key={game.id} value={String(game.id)}>
+                    {gameLabel(game)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedGame && (
+              <p className="text-sm text-gray-500">
+                {selectedGame.playerIds.length}
+                {selectedGame.maxPlayers ? `/${selectedGame.maxPlayers}` : ""} jugadores en el roster
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
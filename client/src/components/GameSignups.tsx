@@ -0,0 +1,195 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CalendarCheck, CalendarDays, LogOut, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  isRosterEditable,
+  SignupStatus,
+  SignupWindow,
+  signupWindow,
+  type Game,
+  type PlayerSignup,
+  type RosterChange
+} from "@shared/schema";
+
+// La fecha se guarda como YYYY-MM-DD; se interpreta en hora local para no cambiar de día
+const gameLabel = (game: Game) =>
+  format(new Date(`${game.gameDate}T00:00:00`), "EEEE d 'de' MMMM", { locale: es });
+
+const dateTimeLabel = (date: Date | string) =>
+  format(new Date(date), "d 'de' MMMM, HH:mm", { locale: es });
+
+// Texto de la ventana de inscripción de un juego
+function windowLabel(game: Game): string {
+  switch (signupWindow(game)) {
+    case SignupWindow.NOT_OPEN:
+      // Un juego programado abre inscripciones cuando lo decide un admin
+      return game.signupOpensAt
+        ? `Inscripciones desde el ${dateTimeLabel(game.signupOpensAt)}`
+        : "Inscripciones aún no abren";
+    case SignupWindow.CLOSED:
+      return "Inscripciones cerradas";
+    default:
+      return game.signupClosesAt
+        ? `Inscripciones hasta el ${dateTimeLabel(game.signupClosesAt)}`
+        : "Inscripciones abiertas";
+  }
+}
+
+const isFull = (game: Game) => game.maxPlayers !== undefined && game.playerIds.length >= game.maxPlayers;
+
+// Juegos próximos para que el jugador de la sesión se inscriba o se salga por su cuenta
+export default function GameSignups() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: games = [], isLoading: isLoadingGames } = useQuery<Game[]>({
+    queryKey: ["/api/games"],
+  });
+
+  const { data: signups = [], isLoading: isLoadingSignups } = useQuery<PlayerSignup[]>({
+    queryKey: ["/api/signups/mine"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/signups/mine"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/offers/mine"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async (gameId: number) => {
+      const response = await apiRequest(`/api/games/${gameId}/signup`, { method: "POST" });
+      return (await response.json()) as RosterChange;
+    },
+    onSuccess: ({ waitListed }) => {
+      toast(waitListed
+        ? { title: "Juego completo", description: "Quedaste en la lista de espera; te avisaremos si se libera un lugar" }
+        : { title: "¡Inscrito!", description: "Ya estás en el roster del juego" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo inscribir", description: error.message, variant: "destructive" });
+    },
+    onSettled: refresh,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (gameId: number) => {
+      await apiRequest(`/api/games/${gameId}/signup`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      toast({ title: "Inscripción cancelada", description: "Tu lugar se ofrecerá al siguiente de la lista de espera" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo cancelar", description: error.message, variant: "destructive" });
+    },
+    onSettled: refresh,
+  });
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const signedUpIds = new Set(signups.map(signup => signup.game.id));
+  const upcoming = games
+    .filter(game => isRosterEditable(game) && game.gameDate >= today && !signedUpIds.has(game.id))
+    .sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+
+  const statusBadge = (signup: PlayerSignup) => {
+    switch (signup.status) {
+      case SignupStatus.CONFIRMED:
+        return <Badge>Confirmado</Badge>;
+      case SignupStatus.OFFERED:
+        return <Badge className="bg-amber-500 hover:bg-amber-500">Lugar ofrecido</Badge>;
+      default:
+        return <Badge variant="secondary">En espera · #{signup.waitListPosition}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Mis inscripciones
+          </CardTitle>
+          <CardDescription>Juegos en los que estás confirmado o esperando un lugar</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingSignups ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : signups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no te has inscrito a ningún juego</p>
+          ) : (
+            <ul className="divide-y">
+              {signups.map(signup => (
+                <li key={signup.game.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium capitalize">{gameLabel(signup.game)}</p>
+                    <p className="text-xs text-muted-foreground">{windowLabel(signup.game)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {statusBadge(signup)}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => leaveMutation.mutate(signup.game.id!)}
+                      disabled={leaveMutation.isPending || signupWindow(signup.game) === SignupWindow.CLOSED}
+                    >
+                      <LogOut className="h-4 w-4 mr-1" />
+                      {signup.status === SignupStatus.CONFIRMED ? "Salirme" : "Dejar la espera"}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Próximos juegos
+          </CardTitle>
+          <CardDescription>Si el juego está lleno, quedas en la lista de espera</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingGames ? (
+            <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+          ) : upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay otros juegos programados</p>
+          ) : (
+            <ul className="divide-y">
+              {upcoming.map(game => (
+                <li key={game.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium capitalize">{gameLabel(game)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {game.playerIds.length}{game.maxPlayers ? `/${game.maxPlayers}` : ""} jugadores
+                      {game.description && ` · ${game.description}`}
+                      {" · "}{windowLabel(game)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={isFull(game) ? "secondary" : "default"}
+                    onClick={() => joinMutation.mutate(game.id!)}
+                    disabled={joinMutation.isPending || signupWindow(game) !== SignupWindow.OPEN}
+                  >
+                    <UserPlus className="h-4 w-4 mr-1" />
+                    {isFull(game) ? "Entrar a la lista de espera" : "Inscribirme"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CheckCircle2, ChevronDown, ChevronUp, RotateCcw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import type { GenerationOutput, PairingGeneration } from "@shared/schema";
+
+interface GenerationLogProps {
+  gameId: number;
+}
+
+interface ReplayResult {
+  generationId: number;
+  seed: string;
+  identical: boolean;
+  original: string[];
+  replayed: string[];
+}
+
+const playerName = (player: { name: string; alias?: string | null }) => player.alias || player.name;
+
+// Partidos del resultado guardado, ronda por ronda
+function OutputSummary({ output }: { output: GenerationOutput }) {
+  return (
+    <ul className="text-xs text-gray-600 space-y-0.5">
+      {output.pairings.map((pairing, i) => (
+        <li key={i}>
+          R{pairing.round ?? 1} · {pairing.courtName}: {playerName(pairing.pair1.player1)} + {playerName(pairing.pair1.player2)}
+          {" vs "}
+          {playerName(pairing.pair2.player1)} + {playerName(pairing.pair2.player2)}
+        </li>
+      ))}
+      {output.bench.map(player => (
+        <li key={`bench-${player.round}-${player.id}`} className="text-amber-700">
+          R{player.round} · Descansa: {playerName(player)}
+        </li>
+      ))}
+      {output.overflow.length > 0 && (
+        <li className="text-gray-500">
+          Lista de espera: {output.overflow.map(playerName).join(", ")}
+        </li>
+      )}
+    </ul>
+  );
+}
+
+// Registro de generaciones de un juego: con qué datos y semilla se armó cada rol
+export default function GenerationLog({ gameId }: GenerationLogProps) {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [replays, setReplays] = useState<Record<number, ReplayResult>>({});
+
+  const { data: generations = [], isLoading } = useQuery({
+    queryKey: [`/api/games/${gameId}/generations`],
+    queryFn: getQueryFn<PairingGeneration[]>({ on401: "throw" }),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (generationId: number) => {
+      const response = await apiRequest(`/api/games/${gameId}/generations/${generationId}/replay`, {
+        method: "POST",
+      });
+      return (await response.json()) as ReplayResult;
+    },
+    onSuccess: (result) => {
+      setReplays(prev => ({ ...prev, [result.generationId]: result }));
+    },
+  });
+
+  return (
+    <Card className="w-full mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl">Registro de generaciones</CardTitle>
+        <CardDescription>
+          Cada rol guarda sus datos de entrada y su semilla; al repetirlo debe salir idéntico
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : generations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Este juego aún no tiene generaciones registradas</p>
+        ) : (
+          <ul className="space-y-3">
+            {generations.map(generation => {
+              const { input, output } = generation;
+              const isExpanded = expandedId === generation.id;
+              const replay = replays[generation.id];
+              const lastRound = input.firstRound + input.rounds - 1;
+
+              return (
+                <li key={generation.id} className="border rounded-lg p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {format(new Date(generation.createdAt), "d 'de' MMMM, HH:mm", { locale: es })}
+                        {" · "}
+                        {input.rounds > 1 || input.firstRound > 1
+                          ? `Rondas ${input.firstRound}${lastRound > input.firstRound ? `-${lastRound}` : ""}`
+                          : "Ronda 1"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Formato {generation.strategy} · Semilla <code>{generation.seed}</code> · {input.players.length} jugadores
+                        · {input.courts.length} canchas · {input.constraints.length} restricciones
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayMutation.mutate(generation.id)}
+                        disabled={replayMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Repetir
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(isExpanded ? null : generation.id)}
+                      >
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {replay && (
+                    <p className={`text-sm mt-2 flex items-center gap-1 ${replay.identical ? "text-green-700" : "text-red-700"}`}>
+                      {replay.identical ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                      {replay.identical
+                        ? "La repetición produjo exactamente el mismo rol"
+                        : "La repetición produjo un rol distinto al registrado"}
+                    </p>
+                  )}
+
+                  {isExpanded && (
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <h4 className="text-sm font-medium mb-1">Entradas</h4>
+                        <p className="text-xs text-gray-600">
+                          Jugadores (en orden): {input.players.map(playerName).join(", ")}
+                        </p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          Canchas: {input.courts.map(court => court.name).join(", ")}
+                        </p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          Puntos: {input.rankings.filter(ranking => ranking.points > 0).length} jugadores con puntos
+                          · Historial: {input.history.length} partidos anteriores
+                        </p>
+                      </div>
+                      <div>
+                        <h4 className="text-sm font-medium mb-1">Resultado</h4>
+                        <OutputSummary output={output} />
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
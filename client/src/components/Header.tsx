@@ -1,5 +1,5 @@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { RefreshCw, Settings } from "lucide-react";
+import { LogIn, LogOut, RefreshCw, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import logoImg from "../assets/logo.svg";
 import { useAuth } from "@/hooks/use-auth";
@@ -11,7 +11,7 @@ interface HeaderProps {
 }
 
 export default function Header({ onReset }: HeaderProps) {
-  const { user } = useAuth();
+  const { user, logout } = useAuth();
   const isAdmin = user && (user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN);
   
   return (
@@ -26,6 +26,24 @@ export default function Header({ onReset }: HeaderProps) {
           </div>
           
           <div className="flex gap-2">
+            {user ? (
+              <Button
+                variant="ghost"
+                className="text-[var(--color-white)] hover:text-[var(--color-primary)] flex items-center gap-1"
+                onClick={() => logout()}
+              >
+                <LogOut className="h-5 w-5" />
+                <span>Salir ({user.alias || user.name})</span>
+              </Button>
+            ) : (
+              <Link href="/login">
+                <Button variant="ghost" className="text-[var(--color-white)] hover:text-[var(--color-primary)] flex items-center gap-1">
+                  <LogIn className="h-5 w-5" />
+                  <span>Iniciar sesión</span>
+                </Button>
+              </Link>
+            )}
+            
             {isAdmin && (
               <Link href="/admin">
                 <Button variant="ghost" className="text-[var(--color-white)] hover:text-[var(--color-primary)] flex items-center gap-1">
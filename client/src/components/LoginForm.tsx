@@ -9,6 +9,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
 
 // Schema para login
 const loginSchema = z.object({
@@ -24,6 +25,7 @@ interface LoginFormProps {
 
 export default function LoginForm({ onSuccess }: LoginFormProps) {
   const { toast } = useToast();
+  const { login } = useAuth();
   
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -35,10 +37,11 @@ export default function LoginForm({ onSuccess }: LoginFormProps) {
 
   const mutation = useMutation({
     mutationFn: async (data: LoginFormValues) => {
-      return apiRequest<any>("/api/auth/login", {
+      const response = await apiRequest("/api/auth/login", {
         method: "POST",
         body: JSON.stringify(data),
       });
+      return (await response.json()) as AuthUser;
     },
     onSuccess: (data) => {
       toast({
@@ -46,8 +49,8 @@ export default function LoginForm({ onSuccess }: LoginFormProps) {
         description: `Bienvenido, ${data.name}`,
       });
       
-      // Guardar el usuario en localStorage
-      localStorage.setItem("currentUser", JSON.stringify(data));
+      // La sesión vive en el servidor; actualizar el usuario actual
+      login(data);
       
       if (onSuccess) {
         onSuccess(data);
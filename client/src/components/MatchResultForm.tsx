@@ -18,16 +18,22 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/componen
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { Label } from "@/components/ui/label";
-import { Trophy, Award, Loader2, Info, AlertCircle } from "lucide-react";
+import { Trophy, Award, Loader2, Info, AlertCircle, ChevronsRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import type { MatchResult, CourtPairing } from "@shared/schema";
-import { useQuery } from "@tanstack/react-query";
-
-// Extender la interfaz de CourtPairing para incluir el ID
-interface CourtPairingWithId extends CourtPairing {
-  id: number;
-}
+import {
+  PairingStrategy,
+  UserRole,
+  isMatchParticipant,
+  roleSatisfies,
+  type CourtPairing,
+  type Game,
+  type GeneratedPairings,
+  type MatchResult
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { describePairingError } from "@/lib/pairing";
+import { useMutation, useQuery } from "@tanstack/react-query";
 
 // Esquema de validación para el formulario de resultados
 const resultFormSchema = z.object({
@@ -43,23 +49,61 @@ const resultFormSchema = z.object({
 type ResultFormValues = z.infer<typeof resultFormSchema>;
 
 interface MatchResultFormProps {
-  pairing: CourtPairing & { id?: number };
+  pairing: CourtPairing; // pairing.id es el ID del partido persistido
   onSuccess?: () => void;
+  isLatestRound?: boolean; // Solo desde la última ronda se puede cerrar y generar la siguiente
+  onRoundGenerated?: (next: GeneratedPairings) => void;
 }
 
-export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormProps) {
+export default function MatchResultForm({ pairing, onSuccess, isLatestRound = false, onRoundGenerated }: MatchResultFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [maxSets, setMaxSets] = useState(pairing.sets || 3);
   const [currentSetNumber, setCurrentSetNumber] = useState(1);
   const [setsPlayed, setSetsPlayed] = useState(0);
   const { toast } = useToast();
+  const { user } = useAuth();
+  
+  // Solo los jugadores del partido o un administrador pueden registrar resultados
+  const isAdmin = !!user && roleSatisfies(user.role, UserRole.ADMIN);
+  const canEnterResult = !!user && (isAdmin || isMatchParticipant(user.id, pairing));
+
+  // En Mexicano, un administrador cierra la ronda y el servidor arma la siguiente
+  const { data: game } = useQuery<Game>({
+    queryKey: [`/api/games/${pairing.gameId}`],
+    enabled: pairing.gameId !== undefined,
+  });
+  const canCloseRound = isAdmin && isLatestRound && game?.strategy === PairingStrategy.MEXICANO;
+
+  const closeRoundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/games/${pairing.gameId}/rounds/next`, {
+        method: "POST",
+      });
+      return (await response.json()) as GeneratedPairings;
+    },
+    onSuccess: (next) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/games/${pairing.gameId}/standings`] });
+      toast({
+        title: `Ronda ${(pairing.round ?? 1) + 1} generada`,
+        description: "Las parejas se armaron con los puntos acumulados en la sesión",
+      });
+      if (onRoundGenerated) onRoundGenerated(next);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "No se pudo cerrar la ronda",
+        description: describePairingError(error, "Inténtalo de nuevo."),
+        variant: "destructive",
+      });
+    },
+  });
 
   // Consultar resultados existentes para saber cuántos sets ya se han jugado
   const { data: existingResults = [] } = useQuery<MatchResult[]>({
-    queryKey: [`/api/match-results/pairing/${pairing.id || pairing.courtId}`],
+    queryKey: [`/api/match-results/pairing/${pairing.id}`],
     queryFn: async () => {
       try {
-        const response = await apiRequest(`/api/match-results/by-pairing/${pairing.id || pairing.courtId}`);
+        const response = await apiRequest(`/api/match-results/by-pairing/${pairing.id}`);
         if (!response.ok) return [];
         return await response.json();
       } catch (error) {
@@ -67,7 +111,7 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
         return [];
       }
     },
-    enabled: !!pairing,
+    enabled: pairing.id !== undefined,
   });
 
   // Actualizar el número de set actual basado en los resultados existentes
@@ -88,8 +132,8 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
   const form = useForm<ResultFormValues>({
     resolver: zodResolver(resultFormSchema),
     defaultValues: {
-      pairingId: pairing.id || pairing.courtId, // Usar courtId si id no está disponible
-      gameDate: new Date().toISOString().split('T')[0],
+      pairingId: pairing.id,
+      gameDate: pairing.gameDate || new Date().toISOString().split('T')[0],
       setNumber: currentSetNumber,
       pair1Score: 0,
       pair2Score: 0,
@@ -149,7 +193,7 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
 
       // Actualizar caché de consultas
       await queryClient.invalidateQueries({ queryKey: ["/api/rankings"] });
-      await queryClient.invalidateQueries({ queryKey: [`/api/match-results/pairing/${pairing.id || pairing.courtId}`] });
+      await queryClient.invalidateQueries({ queryKey: [`/api/match-results/pairing/${pairing.id}`] });
       
       toast({
         title: "Resultado guardado",
@@ -162,8 +206,8 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
 
       // Resetear formulario
       form.reset({
-        pairingId: pairing.id || pairing.courtId,
-        gameDate: new Date().toISOString().split('T')[0],
+        pairingId: pairing.id,
+        gameDate: pairing.gameDate || new Date().toISOString().split('T')[0],
         setNumber: data.setNumber + 1, // Incrementar para el siguiente set
         pair1Score: 0,
         pair2Score: 0,
@@ -354,9 +398,15 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
               )}
             />
 
+            {!canEnterResult && (
+              <p className="text-sm text-muted-foreground text-center">
+                Solo los jugadores de este partido o un administrador pueden registrar resultados
+              </p>
+            )}
+
             <Button
               type="submit"
-              disabled={isSubmitting || maxSetsReached}
+              disabled={isSubmitting || maxSetsReached || pairing.id === undefined || !canEnterResult}
               className="w-full"
             >
               {isSubmitting ? (
@@ -371,6 +421,23 @@ export default function MatchResultForm({ pairing, onSuccess }: MatchResultFormP
                 </>
               )}
             </Button>
+
+            {canCloseRound && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={closeRoundMutation.isPending}
+                onClick={() => closeRoundMutation.mutate()}
+              >
+                {closeRoundMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ChevronsRight className="mr-2 h-4 w-4" />
+                )}
+                Cerrar ronda {pairing.round ?? 1} y generar la siguiente
+              </Button>
+            )}
           </form>
         </Form>
       </CardContent>
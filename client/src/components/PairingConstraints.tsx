@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, Ban, MapPin, PlusCircle, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { describePairingError } from "@/lib/pairing";
+import {
+  ConstraintKind,
+  UserRole,
+  roleSatisfies,
+  type ConstraintKindType,
+  type Court,
+  type InsertPairingConstraint,
+  type PairingConstraint,
+  type Player
+} from "@shared/schema";
+
+interface PairingConstraintsProps {
+  players: Player[];
+  courts: Court[];
+  gameId?: number; // Juego del rol actual; sin él solo se manejan restricciones globales
+}
+
+const kindOptions: Record<ConstraintKindType, { label: string; icon: typeof Link2 }> = {
+  [ConstraintKind.FIXED_PARTNERS]: { label: "Pareja fija", icon: Link2 },
+  [ConstraintKind.NEVER_PARTNERS]: { label: "Nunca juntos", icon: Ban },
+  [ConstraintKind.REQUIRED_COURT]: { label: "Cancha obligatoria", icon: MapPin },
+};
+
+// Restricciones que el motor respeta al generar el rol (solo las administra un admin)
+export default function PairingConstraints({ players, courts, gameId }: PairingConstraintsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = !!user && roleSatisfies(user.role, UserRole.ADMIN);
+
+  const [kind, setKind] = useState<ConstraintKindType>(ConstraintKind.FIXED_PARTNERS);
+  const [playerId, setPlayerId] = useState("");
+  const [targetId, setTargetId] = useState(""); // Otro jugador o cancha, según el tipo
+  const [onlyThisGame, setOnlyThisGame] = useState(false);
+
+  const queryUrl = gameId !== undefined ? `/api/pairing-constraints?gameId=${gameId}` : "/api/pairing-constraints";
+  const { data: constraints = [], isLoading } = useQuery({
+    queryKey: [queryUrl],
+    queryFn: getQueryFn<PairingConstraint[]>({ on401: "throw" }),
+    enabled: isAdmin,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith("/api/pairing-constraints"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (constraint: InsertPairingConstraint) => {
+      const response = await apiRequest("/api/pairing-constraints", {
+        method: "POST",
+        body: JSON.stringify(constraint),
+      });
+      return (await response.json()) as PairingConstraint;
+    },
+    onSuccess: () => {
+      invalidate();
+      setPlayerId("");
+      setTargetId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo agregar la restricción",
+        description: describePairingError(error, "Inténtalo de nuevo."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/pairing-constraints/${id}`, { method: "DELETE" });
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo eliminar la restricción",
+        description: describePairingError(error, "Inténtalo de nuevo."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAdmin) return null;
+
+  const isCourtConstraint = kind === ConstraintKind.REQUIRED_COURT;
+  const canAdd = playerId !== "" && targetId !== "" && (isCourtConstraint || playerId !== targetId);
+
+  const playerName = (id: number | null) => {
+    const player = players.find(p => p.id === id);
+    return player ? player.alias || player.name : `#${id}`;
+  };
+  const courtName = (id: number | null) => courts.find(c => c.id === id)?.name ?? `#${id}`;
+
+  const describe = (constraint: PairingConstraint) => {
+    switch (constraint.kind) {
+      case ConstraintKind.FIXED_PARTNERS:
+        return `${playerName(constraint.playerId)} y ${playerName(constraint.otherPlayerId)} juegan juntos`;
+      case ConstraintKind.NEVER_PARTNERS:
+        return `${playerName(constraint.playerId)} y ${playerName(constraint.otherPlayerId)} nunca son pareja`;
+      default:
+        return `${playerName(constraint.playerId)} juega en ${courtName(constraint.courtId)}`;
+    }
+  };
+
+  const handleAdd = () => {
+    createMutation.mutate({
+      gameId: onlyThisGame && gameId !== undefined ? gameId : null,
+      kind,
+      playerId: Number(playerId),
+      ...(isCourtConstraint ? { courtId: Number(targetId) } : { otherPlayerId: Number(targetId) }),
+    });
+  };
+
+  return (
+    <Card className="bg-white shadow rounded-lg mb-6">
+      <CardContent className="p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Restricciones de emparejamiento</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Se respetan en cada ronda; si no se pueden cumplir, el rol no se genera y se indica cuáles fallan
+        </p>
+
+        {isLoading ? (
+          <div className="h-16 bg-gray-100 rounded animate-pulse"></div>
+        ) : constraints.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">No hay restricciones</p>
+        ) : (
+          <ul className="space-y-2 mb-4">
+            {constraints.map(constraint => {
+              const Icon = kindOptions[constraint.kind].icon;
+              return (
+                <li key={constraint.id} className="flex items-center justify-between border border-gray-200 rounded px-3 py-2">
+                  <span className="text-sm flex items-center gap-2">
+                    <Icon className="h-4 w-4 text-gray-500" />
+                    {describe(constraint)}
+                    <span className="text-xs text-gray-400">
+                      {constraint.gameId === null ? "Todos los juegos" : "Este juego"}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(constraint.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label className="mb-1 block">Tipo</Label>
+            <Select
+              value={kind}
+              onValueChange={(value) => {
+                setKind(value as ConstraintKindType);
+                setTargetId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(kindOptions).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="mb-1 block">Jugador</Label>
+            <Select value={playerId} onValueChange={setPlayerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Elige un jugador" />
+              </SelectTrigger>
+              <SelectContent>
+                {players.map(player => (
+                  <SelectItem key={player.id} value={String(player.id)}>{player.alias || player.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label className="mb-1 block">{isCourtConstraint ? "Cancha" : "Con"}</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder={isCourtConstraint ? "Elige una cancha" : "Elige otro jugador"} />
+              </SelectTrigger>
+              <SelectContent>
+                {isCourtConstraint
+                  ? courts.map(court => (
+                      <SelectItem key={court.id} value={String(court.id)}>{court.name}</SelectItem>
+                    ))
+                  : players
+                      .filter(player => String(player.id) !== playerId)
+                      .map(player => (
+                        <SelectItem key={player.id} value={String(player.id)}>{player.alias || player.name}</SelectItem>
+                      ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button onClick={handleAdd} disabled={!canAdd || createMutation.isPending}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Agregar
+          </Button>
+        </div>
+
+        {gameId !== undefined && (
+          <div className="flex items-center gap-2 mt-3">
+            <Checkbox
+              id="constraint-only-this-game"
+              checked={onlyThisGame}
+              onCheckedChange={(checked) => setOnlyThisGame(checked === true)}
+            />
+            <Label htmlFor="constraint-only-this-game" className="text-sm font-normal">
+              Solo para el juego actual
+            </Label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,15 +4,22 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { phoneLoginSchema, quickRegisterSchema } from "@shared/schema";
+import { phoneCodeRequestSchema, phoneCodeVerifySchema } from "@shared/schema";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
 
-type PhoneLoginValues = z.infer<typeof phoneLoginSchema>;
-type QuickRegisterValues = z.infer<typeof quickRegisterSchema>;
+type PhoneRequestValues = z.infer<typeof phoneCodeRequestSchema>;
+type PhoneVerifyValues = z.infer<typeof phoneCodeVerifySchema>;
+
+interface CodeRequestResponse {
+  registered: boolean;
+  expiresInMinutes: number;
+}
 
 interface PhoneLoginFormProps {
   onSuccess?: (user: any) => void;
@@ -20,250 +27,255 @@ interface PhoneLoginFormProps {
 
 export default function PhoneLoginForm({ onSuccess }: PhoneLoginFormProps) {
   const { toast } = useToast();
-  const [needsRegister, setNeedsRegister] = useState(false);
-  const [phoneNumber, setPhoneNumber] = useState("");
-  
-  // Formulario de login por teléfono
-  const loginForm = useForm<PhoneLoginValues>({
-    resolver: zodResolver(phoneLoginSchema),
+  const { login } = useAuth();
+  // Paso 2: el código ya se envió; guarda si el número ya estaba registrado
+  const [codeRequest, setCodeRequest] = useState<CodeRequestResponse | null>(null);
+
+  // Paso 1: número de teléfono
+  const phoneForm = useForm<PhoneRequestValues>({
+    resolver: zodResolver(phoneCodeRequestSchema),
     defaultValues: {
       phone: "",
     },
   });
 
-  // Formulario de registro rápido
-  const registerForm = useForm<QuickRegisterValues>({
-    resolver: zodResolver(quickRegisterSchema),
+  // Paso 2: código recibido (y datos de registro si el número es nuevo)
+  const verifyForm = useForm<PhoneVerifyValues>({
+    resolver: zodResolver(phoneCodeVerifySchema),
     defaultValues: {
-      name: "",
       phone: "",
+      code: "",
+      name: undefined,
       alias: "",
     },
   });
 
-  // Mutación para login
-  const loginMutation = useMutation({
-    mutationFn: async (data: PhoneLoginValues) => {
-      return await apiRequest("/api/auth/login-phone", {
+  // Mutación para solicitar el código
+  const requestMutation = useMutation({
+    mutationFn: async (data: PhoneRequestValues) => {
+      const response = await apiRequest("/api/auth/phone/request-code", {
         method: "POST",
         body: JSON.stringify(data),
       });
+      return (await response.json()) as CodeRequestResponse;
     },
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
+      verifyForm.reset({
+        phone: variables.phone,
+        code: "",
+        name: data.registered ? undefined : "",
+        alias: "",
+      });
+      setCodeRequest(data);
+
       toast({
-        title: "¡Inicio de sesión exitoso!",
-        description: `Bienvenido, ${data.name}`,
+        title: "Código enviado",
+        description: `Revisa tus mensajes; el código vence en ${data.expiresInMinutes} minutos`,
       });
-      
-      // Guardar el usuario en localStorage
-      localStorage.setItem("currentUser", JSON.stringify(data));
-      
-      if (onSuccess) {
-        onSuccess(data);
-      }
     },
     onError: (error: any) => {
-      // Si el teléfono no está registrado, mostrar formulario de registro
-      if (error.response?.status === 404) {
-        setNeedsRegister(true);
-        setPhoneNumber(loginForm.getValues().phone);
-        registerForm.setValue("phone", loginForm.getValues().phone);
-        
-        toast({
-          title: "Número no registrado",
-          description: "Por favor regístrese para continuar",
-        });
-      } else {
-        toast({
-          title: "Error de inicio de sesión",
-          description: "Ocurrió un error. Por favor intente de nuevo.",
-          variant: "destructive",
-        });
-      }
+      toast({
+        title: "No se pudo enviar el código",
+        description: error.message?.startsWith("429")
+          ? "Espera un momento antes de pedir otro código"
+          : "Ocurrió un error. Por favor intente de nuevo.",
+        variant: "destructive",
+      });
     },
   });
 
-  // Mutación para registro rápido
-  const registerMutation = useMutation({
-    mutationFn: async (data: QuickRegisterValues) => {
-      return await apiRequest("/api/auth/register-phone", {
+  // Mutación para verificar el código e iniciar sesión
+  const verifyMutation = useMutation({
+    mutationFn: async (data: PhoneVerifyValues) => {
+      const response = await apiRequest("/api/auth/phone/verify", {
         method: "POST",
         body: JSON.stringify(data),
       });
+      return (await response.json()) as AuthUser;
     },
     onSuccess: (data) => {
       toast({
-        title: "¡Registro exitoso!",
+        title: codeRequest?.registered ? "¡Inicio de sesión exitoso!" : "¡Registro exitoso!",
         description: `Bienvenido, ${data.name}`,
       });
-      
-      // Guardar el usuario en localStorage
-      localStorage.setItem("currentUser", JSON.stringify(data));
-      
-      // Volver a formulario de login
-      setNeedsRegister(false);
-      
+
+      // La sesión vive en el servidor; actualizar el usuario actual
+      login(data);
+      setCodeRequest(null);
+
       if (onSuccess) {
         onSuccess(data);
       }
     },
     onError: (error: any) => {
+      // Un código expirado o con demasiados intentos obliga a pedir otro
+      const mustRestart = error.message?.startsWith("429") || error.message?.includes("expiró");
+      if (mustRestart) {
+        setCodeRequest(null);
+      } else {
+        verifyForm.setValue("code", "");
+      }
+
       toast({
-        title: "Error de registro",
-        description: error.message || "Ocurrió un error. Por favor intente de nuevo.",
+        title: "Código no válido",
+        description: mustRestart
+          ? "Solicita un código nuevo para continuar"
+          : "El código es incorrecto. Por favor intente de nuevo.",
         variant: "destructive",
       });
     },
   });
 
-  // Manejar envío de login
-  function onLoginSubmit(data: PhoneLoginValues) {
-    loginMutation.mutate(data);
+  function onRequestSubmit(data: PhoneRequestValues) {
+    requestMutation.mutate(data);
   }
 
-  // Manejar envío de registro
-  function onRegisterSubmit(data: QuickRegisterValues) {
-    registerMutation.mutate(data);
+  function onVerifySubmit(data: PhoneVerifyValues) {
+    verifyMutation.mutate(data);
   }
 
-  // Cambiar a formulario de login
-  function handleBackToLogin() {
-    setNeedsRegister(false);
+  // Volver a capturar el número de teléfono
+  function handleBack() {
+    setCodeRequest(null);
   }
 
+  const isNewPlayer = codeRequest !== null && !codeRequest.registered;
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
         <CardTitle className="text-2xl font-bold">
-          {needsRegister ? "Registro Rápido" : "Iniciar Sesión"}
+          {isNewPlayer ? "Registro Rápido" : "Iniciar Sesión"}
         </CardTitle>
         <CardDescription>
-          {needsRegister 
-            ? "Complete sus datos para registrarse" 
-            : "Ingrese su número de teléfono para acceder"}
+          {codeRequest
+            ? `Ingrese el código de 6 dígitos enviado al ${phoneForm.getValues().phone}`
+            : "Ingrese su número de teléfono para recibir un código"}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {needsRegister ? (
-          // Formulario de registro
-          <Form {...registerForm}>
-            <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
-              <FormField
-                control={registerForm.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Nombre completo</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Ingrese su nombre" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+        {codeRequest ? (
+          // Formulario de verificación del código
+          <Form {...verifyForm}>
+            <form onSubmit={verifyForm.handleSubmit(onVerifySubmit)} className="space-y-4">
               <FormField
-                control={registerForm.control}
-                name="phone"
+                control={verifyForm.control}
+                name="code"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Número de teléfono</FormLabel>
+                    <FormLabel>Código de verificación</FormLabel>
                     <FormControl>
-                      <Input 
-                        type="tel" 
-                        placeholder="Ej: 6441234567" 
-                        {...field} 
-                        defaultValue={phoneNumber}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={registerForm.control}
-                name="alias"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Alias o apodo (opcional)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Ingrese un alias o apodo" {...field} />
+                      <InputOTP maxLength={6} {...field}>
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              {isNewPlayer && (
+                <>
+                  <FormField
+                    control={verifyForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre completo</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ingrese su nombre" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={verifyForm.control}
+                    name="alias"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Alias o apodo (opcional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ingrese un alias o apodo" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
               <div className="flex space-x-2">
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={handleBackToLogin}
-                  disabled={registerMutation.isPending}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleBack}
+                  disabled={verifyMutation.isPending}
                 >
                   Volver
                 </Button>
-                <Button 
-                  type="submit" 
-                  className="flex-1" 
-                  disabled={registerMutation.isPending}
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={verifyMutation.isPending}
                 >
-                  {registerMutation.isPending ? "Registrando..." : "Registrarme"}
+                  {verifyMutation.isPending
+                    ? "Verificando..."
+                    : isNewPlayer ? "Registrarme" : "Entrar"}
                 </Button>
               </div>
             </form>
           </Form>
         ) : (
-          // Formulario de login
-          <Form {...loginForm}>
-            <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+          // Formulario del número de teléfono
+          <Form {...phoneForm}>
+            <form onSubmit={phoneForm.handleSubmit(onRequestSubmit)} className="space-y-4">
               <FormField
-                control={loginForm.control}
+                control={phoneForm.control}
                 name="phone"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Número de teléfono</FormLabel>
                     <FormControl>
-                      <Input 
-                        type="tel" 
-                        placeholder="Ej: 6441234567" 
-                        {...field} 
+                      <Input
+                        type="tel"
+                        placeholder="Ej: 6441234567"
+                        {...field}
                       />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={loginMutation.isPending}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={requestMutation.isPending}
               >
-                {loginMutation.isPending ? "Verificando..." : "Continuar"}
+                {requestMutation.isPending ? "Enviando código..." : "Continuar"}
               </Button>
             </form>
           </Form>
         )}
       </CardContent>
       <CardFooter className="flex justify-center flex-col gap-2">
-        {!needsRegister && (
-          <>
-            <p className="text-sm text-muted-foreground">
-              Si es su primera vez, se le pedirá que se registre
-            </p>
-            <p className="text-sm text-muted-foreground">
-              <Button 
-                variant="link" 
-                className="p-0 h-auto" 
-                onClick={() => {
-                  loginForm.setValue("phone", "123456789");
-                  loginForm.handleSubmit(onLoginSubmit)();
-                }}
-              >
-                Entrar como administrador
-              </Button>
-            </p>
-          </>
+        {codeRequest ? (
+          <Button
+            variant="link"
+            className="p-0 h-auto"
+            onClick={() => requestMutation.mutate(phoneForm.getValues())}
+            disabled={requestMutation.isPending}
+          >
+            Reenviar código
+          </Button>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Si es su primera vez, se le pedirá que se registre
+          </p>
         )}
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -4,13 +4,13 @@ import { Checkbox } from "@/components/ui/checkbox";
 
 interface PlayerChipProps {
   player: Player;
+  selected?: boolean; // Confirmado en el roster del juego
   onRemove: () => void;
   onToggleSelection?: () => void;
 }
 
-export default function PlayerChip({ player, onRemove, onToggleSelection }: PlayerChipProps) {
-  // Determinar si el jugador está seleccionado
-  const isSelected = player.selected === true;
+export default function PlayerChip({ player, selected = false, onRemove, onToggleSelection }: PlayerChipProps) {
+  const isSelected = selected;
   
   return (
     <div 
@@ -4,15 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { PlusCircle, CheckCircle } from "lucide-react";
 import PlayerChip from "./PlayerChip";
-import type { Player } from "@shared/schema";
+import { DominantHand, PlayerCategory, PlayerSide, type Player } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 
 interface PlayerInputProps {
   players: Player[];
+  selectedPlayerIds?: number[]; // Roster del juego seleccionado
   isLoading: boolean;
   onAddPlayer: (name: string, playerData?: Partial<Player>) => void;
   onRemovePlayer: (id: number) => void;
@@ -25,10 +27,14 @@ const playerFormSchema = z.object({
   alias: z.string().optional(),
   phone: z.string().optional(),
   affiliationNumber: z.string().optional(),
+  category: z.enum([PlayerCategory.MALE, PlayerCategory.FEMALE]).optional(),
+  preferredSide: z.enum([PlayerSide.DRIVE, PlayerSide.REVES, PlayerSide.BOTH]).optional(),
+  dominantHand: z.enum([DominantHand.RIGHT, DominantHand.LEFT]).optional(),
 });
 
 export default function PlayerInput({ 
   players, 
+  selectedPlayerIds = [],
   isLoading, 
   onAddPlayer, 
   onRemovePlayer,
@@ -71,6 +77,9 @@ export default function PlayerInput({
       alias: data.alias || null,
       phone: data.phone || null,
       affiliationNumber: data.affiliationNumber || null,
+      category: data.category || null,
+      preferredSide: data.preferredSide || null,
+      dominantHand: data.dominantHand || null,
     });
     form.reset();
   };
@@ -190,6 +199,72 @@ export default function PlayerInput({
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Categoría</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Categoría (opcional, para parejas mixtas)" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={PlayerCategory.MALE}>Varonil</SelectItem>
+                          <SelectItem value={PlayerCategory.FEMALE}>Femenil</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="preferredSide"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lado preferido</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Lado (opcional)" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={PlayerSide.DRIVE}>Drive (derecha)</SelectItem>
+                            <SelectItem value={PlayerSide.REVES}>Revés (izquierda)</SelectItem>
+                            <SelectItem value={PlayerSide.BOTH}>Ambos lados</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="dominantHand"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Mano dominante</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Mano (opcional)" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DominantHand.RIGHT}>Diestro</SelectItem>
+                            <SelectItem value={DominantHand.LEFT}>Zurdo</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
                 <Button 
                   type="submit" 
                   disabled={isLoading}
@@ -214,16 +289,16 @@ export default function PlayerInput({
                 className="text-xs font-medium text-[var(--color-primary)]"
                 onClick={() => {
                   // Función para seleccionar todos
-                  const allSelected = players.every(p => p.selected === true);
+                  const allSelected = players.every(p => selectedPlayerIds.includes(p.id));
                   players.forEach(player => {
-                    if (onTogglePlayerSelection && (allSelected || !player.selected)) {
+                    if (onTogglePlayerSelection && (allSelected || !selectedPlayerIds.includes(player.id))) {
                       onTogglePlayerSelection(player.id);
                     }
                   });
                 }}
               >
                 <CheckCircle className="h-3.5 w-3.5 mr-1" />
-                {players.every(p => p.selected === true) ? "Desmarcar Todos" : "Seleccionar Todos"}
+                {players.every(p => selectedPlayerIds.includes(p.id)) ? "Desmarcar Todos" : "Seleccionar Todos"}
               </Button>
             )}
           </div>
@@ -243,6 +318,7 @@ export default function PlayerInput({
                 <PlayerChip
                   key={player.id}
                   player={player}
+                  selected={selectedPlayerIds.includes(player.id)}
                   onRemove={() => onRemovePlayer(player.id)}
                   onToggleSelection={onTogglePlayerSelection ? () => onTogglePlayerSelection(player.id) : undefined}
                 />
@@ -0,0 +1,173 @@
+import { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { DominantHand, PlayerSide } from "@shared/schema";
+
+// Campos que cada jugador puede editar de su propio perfil
+const profileFormSchema = z.object({
+  alias: z.string(),
+  phone: z.string(),
+  preferredSide: z.enum([PlayerSide.DRIVE, PlayerSide.REVES, PlayerSide.BOTH]).or(z.literal("")),
+  dominantHand: z.enum([DominantHand.RIGHT, DominantHand.LEFT]).or(z.literal("")),
+});
+
+type ProfileFormValues = z.infer<typeof profileFormSchema>;
+
+export default function ProfileForm() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: {
+      alias: "",
+      phone: "",
+      preferredSide: "",
+      dominantHand: "",
+    },
+  });
+
+  // Cargar los datos actuales cuando llega la sesión
+  useEffect(() => {
+    if (!user) return;
+    form.reset({
+      alias: user.alias ?? "",
+      phone: user.phone ?? "",
+      preferredSide: (user.preferredSide as ProfileFormValues["preferredSide"]) ?? "",
+      dominantHand: (user.dominantHand as ProfileFormValues["dominantHand"]) ?? "",
+    });
+  }, [user, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: ProfileFormValues) => {
+      return await apiRequest(`/api/players/${user!.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          alias: data.alias.trim() || null,
+          phone: data.phone.trim() || null,
+          preferredSide: data.preferredSide || null,
+          dominantHand: data.dominantHand || null,
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+      toast({
+        title: "Perfil actualizado",
+        description: "Tus preferencias se usarán al formar las parejas",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message?.startsWith("409")
+          ? "Este número de teléfono ya está registrado"
+          : "No se pudo actualizar el perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="text-xl">Mi perfil</CardTitle>
+        <CardDescription>
+          {user.name}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="alias"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alias</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Apodo (opcional)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Teléfono</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Número de teléfono (opcional)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="preferredSide"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lado preferido</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sin preferencia" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={PlayerSide.DRIVE}>Drive (derecha)</SelectItem>
+                      <SelectItem value={PlayerSide.REVES}>Revés (izquierda)</SelectItem>
+                      <SelectItem value={PlayerSide.BOTH}>Ambos lados</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Al formar parejas se procura juntar un drive con un revés
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dominantHand"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mano dominante</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sin indicar" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={DominantHand.RIGHT}>Diestro</SelectItem>
+                      <SelectItem value={DominantHand.LEFT}>Zurdo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending ? "Guardando..." : "Guardar perfil"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
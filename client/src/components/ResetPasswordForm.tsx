@@ -0,0 +1,108 @@
+import React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { resetPasswordSchema } from "@shared/schema";
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordFormProps {
+  onSuccess?: () => void;
+}
+
+// Canjea el token de un solo uso que entrega un superadmin por una contraseña nueva
+export default function ResetPasswordForm({ onSuccess }: ResetPasswordFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      token: "",
+      newPassword: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormValues) => {
+      return await apiRequest("/api/auth/reset-password", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Contraseña restablecida",
+        description: "Ya puedes iniciar sesión con tu nueva contraseña",
+      });
+      form.reset();
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "El token es inválido o ha expirado",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(data: ResetPasswordFormValues) {
+    mutation.mutate(data);
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-xl">Restablecer contraseña</CardTitle>
+        <CardDescription>
+          Ingresa el token que te proporcionó un superadministrador
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="token"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Token</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nueva contraseña</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending ? "Restableciendo..." : "Restablecer contraseña"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
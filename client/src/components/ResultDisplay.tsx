@@ -1,33 +1,113 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Share2, Download, Trophy, ClipboardList } from "lucide-react";
-import { useRef, useState, useEffect } from "react";
+import { Share2, Download, Trophy, ClipboardList, Pencil, Send, EyeOff } from "lucide-react";
+import { useMemo, useRef, useState, useEffect } from "react";
 import html2canvas from "html2canvas";
 import { saveAs } from "file-saver";
-import type { CourtPairing, PlayerRanking } from "@shared/schema";
+import { UserRole, courtBalance, roleSatisfies, sessionFairness, type BenchPlayer, type CourtPairing, type GeneratedPairings, type Match, type PlayerRanking } from "@shared/schema";
 import MatchResultForm from "./MatchResultForm";
-import { useQuery } from "@tanstack/react-query";
+import SessionStandings from "./SessionStandings";
+import DraftEditor from "./DraftEditor";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describePairingError, formatProbability, isEvenCourt } from "@/lib/pairing";
 
 interface ResultDisplayProps {
   pairings: CourtPairing[];
+  bench?: BenchPlayer[]; // Jugadores que descansan en esta ronda
+  onRoundGenerated?: (next: GeneratedPairings) => void; // Mexicano: ronda agregada al cerrar la anterior
+  onPairingsChange?: (pairings: CourtPairing[]) => void; // Borrador editado o publicado
 }
 
-export default function ResultDisplay({ pairings }: ResultDisplayProps) {
+export default function ResultDisplay({ pairings, bench = [], onRoundGenerated, onPairingsChange }: ResultDisplayProps) {
   const resultsRef = useRef<HTMLDivElement>(null);
   const [isSharing, setIsSharing] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [selectedPairingIndex, setSelectedPairingIndex] = useState(0);
+  const [selectedRound, setSelectedRound] = useState(1);
+  const [isEditing, setIsEditing] = useState(false);
+  const firstPairingIdRef = useRef<number | undefined>(undefined);
+  const lastRoundRef = useRef(1);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = !!user && roleSatisfies(user.role, UserRole.ADMIN);
   
   // Reset to view mode when pairings change
   useEffect(() => {
     if (pairings.length > 0) {
       setShowResults(false);
     }
+    setIsEditing(false);
+    // Un rol nuevo empieza en la ronda 1; si se agregó una ronda (Mexicano), se muestra esa;
+    // si solo se editó o publicó el borrador, se queda en la ronda que se estaba viendo
+    const isSameSession = pairings.length > 0 && pairings[0].id === firstPairingIdRef.current;
+    const lastRound = Math.max(1, ...pairings.map(pairing => pairing.round ?? 1));
+    firstPairingIdRef.current = pairings[0]?.id;
+    if (!isSameSession) {
+      setSelectedRound(1);
+    } else if (lastRound > lastRoundRef.current) {
+      setSelectedRound(lastRound);
+    }
+    lastRoundRef.current = lastRound;
+    setSelectedPairingIndex(0);
   }, [pairings]);
   
+  // Rondas de la sesión; con una sola no se muestran pestañas
+  const rounds = Array.from(new Set(pairings.map(pairing => pairing.round ?? 1))).sort((a, b) => a - b);
+  const roundPairings = pairings.filter(pairing => (pairing.round ?? 1) === selectedRound);
+  const roundBench = bench.filter(player => player.round === selectedRound);
+  const gameId = pairings[0]?.gameId;
+  const hasDrafts = pairings.some(pairing => pairing.published === false);
+  // Memorizado: el editor reinicia su borrador local cuando cambia esta lista
+  const draftPairings = useMemo(
+    () => pairings.filter(pairing => (pairing.round ?? 1) === selectedRound && pairing.published === false),
+    [pairings, selectedRound]
+  );
+  const roundIsDraft = draftPairings.length > 0;
+  
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest(`/api/games/${gameId}/publish`, { method: "POST" });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rol publicado",
+        description: "Los jugadores ya pueden ver el rol y registrar resultados",
+      });
+      onPairingsChange?.(pairings.map(pairing => ({ ...pairing, published: true })));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo publicar el rol",
+        description: describePairingError(error, "Inténtalo de nuevo."),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Reemplaza los partidos editados; la novedad calculada al generar ya no aplica a las
+  // nuevas parejas y el equilibrio se recalcula con los puntos actuales
+  const applySavedDraft = (matches: Match[]) => {
+    const pairRating = (pair: Match["pair1"]) => getPlayerRanking(pair.player1.id) + getPlayerRanking(pair.player2.id);
+    onPairingsChange?.(pairings.map(pairing => {
+      const saved = matches.find(match => match.id === pairing.id);
+      if (!saved || pairing.published !== false) return pairing;
+      const { novelty: _, ...rest } = pairing;
+      return {
+        ...rest,
+        courtId: saved.courtId,
+        courtName: saved.courtName,
+        pair1: saved.pair1,
+        pair2: saved.pair2,
+        balance: courtBalance(pairRating(saved.pair1), pairRating(saved.pair2)),
+      };
+    }));
+  };
+  
+  const fairness = sessionFairness(pairings);
+  
   // Obtener los rankings de los jugadores
   const { data: rankings = [] } = useQuery<PlayerRanking[]>({
     queryKey: ["/api/rankings"],
@@ -165,8 +245,60 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
           </div>
         )}
         
+        {/* Pestañas de rondas */}
+        {rounds.length > 1 && (
+          <div className="flex flex-wrap gap-1 mb-4">
+            {rounds.map(round => (
+              <Button
+                key={round}
+                variant={selectedRound === round ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setSelectedRound(round);
+                  setSelectedPairingIndex(0);
+                }}
+              >
+                Ronda {round}
+              </Button>
+            ))}
+          </div>
+        )}
+        
+        {/* Borrador: solo lo ven los administradores hasta publicarlo */}
+        {hasDrafts && isAdmin && gameId !== undefined && (
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4 p-3 rounded-lg border border-amber-200 bg-amber-50">
+            <p className="text-sm text-amber-900 flex items-center gap-1">
+              <EyeOff className="h-4 w-4" />
+              Borrador: los jugadores aún no ven este rol
+            </p>
+            <div className="flex gap-2">
+              {!showResults && roundIsDraft && !isEditing && (
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Editar
+                </Button>
+              )}
+              <Button size="sm" onClick={() => publishMutation.mutate()} disabled={publishMutation.isPending || isEditing}>
+                <Send className="h-4 w-4 mr-1" />
+                Publicar
+              </Button>
+            </div>
+          </div>
+        )}
+        
+        {/* Editor del borrador */}
+        {!showResults && isEditing && gameId !== undefined && (
+          <DraftEditor
+            gameId={gameId}
+            pairings={draftPairings}
+            getPoints={getPlayerRanking}
+            onSaved={applySavedDraft}
+            onCancel={() => setIsEditing(false)}
+          />
+        )}
+        
         {/* Vista de rol de juegos */}
-        {!showResults && (
+        {!showResults && !isEditing && (
           <div ref={resultsRef} className="space-y-4 bg-white p-4 rounded-lg">
             {pairings.length === 0 ? (
               <div className="flex items-center justify-center p-8 text-gray-500">
@@ -175,13 +307,20 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
             ) : (
               <>
                 <div className="text-center mb-4">
-                  <h3 className="text-xl font-bold text-primary-700">Rol de Juegos</h3>
+                  <h3 className="text-xl font-bold text-primary-700">
+                    Rol de Juegos{rounds.length > 1 ? ` - Ronda ${selectedRound}` : ""}
+                  </h3>
                   <p className="text-sm text-gray-500">
                     {pairings[0].gameDate ? new Date(pairings[0].gameDate).toLocaleDateString() : new Date().toLocaleDateString()}
                   </p>
+                  {fairness !== null && (
+                    <p className="text-sm font-medium text-gray-700 mt-1">
+                      Equidad de la sesión: {fairness}/100
+                    </p>
+                  )}
                 </div>
                 
-                {pairings.map((pairing) => (
+                {roundPairings.map((pairing) => (
                   <div key={pairing.courtId} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                     <h3 className="font-medium text-gray-900 mb-2 bg-primary-100 p-2 rounded text-center">
                       {pairing.courtName}
@@ -234,8 +373,31 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
                         </ul>
                       </div>
                     </div>
+                    {pairing.balance && (
+                      <p className={`mt-2 text-xs text-center ${isEvenCourt(pairing.balance) ? "text-gray-600" : "text-amber-700"}`}>
+                        Probabilidad de ganar: Pareja 1 {formatProbability(pairing.balance.pair1WinProbability)}
+                        {" · "}Pareja 2 {formatProbability(pairing.balance.pair2WinProbability)}
+                        {" "}(diferencia de {pairing.balance.ratingDiff} pts)
+                      </p>
+                    )}
+                    {pairing.novelty && (
+                      <p className={`mt-2 text-xs text-center ${
+                        pairing.novelty.partnerRepeats + pairing.novelty.opponentRepeats > 0 ? "text-amber-700" : "text-gray-500"
+                      }`}>
+                        {pairing.novelty.explanation}
+                      </p>
+                    )}
                   </div>
                 ))}
+                
+                {roundBench.length > 0 && (
+                  <div className="bg-amber-50 rounded-lg p-4 border border-amber-200 text-center">
+                    <h3 className="font-medium text-amber-800 mb-1">Descansan</h3>
+                    <p className="text-sm text-amber-900">
+                      {roundBench.map(player => player.alias || player.name).join(", ")}
+                    </p>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -249,7 +411,7 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
                 <div className="mb-4">
                   <h3 className="text-md font-medium mb-3">Seleccionar cancha para registrar resultado</h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                    {pairings.map((pairing, index) => (
+                    {roundPairings.map((pairing, index) => (
                       <Button
                         key={index}
                         variant={selectedPairingIndex === index ? "default" : "outline"}
@@ -269,12 +431,20 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
                 
                 <div className="my-4 border-t border-gray-200"></div>
                 
-                {/* Formulario de registro de resultados */}
+                {/* Formulario de registro de resultados; los borradores aún no admiten resultados */}
+                {roundPairings[selectedPairingIndex]?.published === false ? (
+                  <div className="flex items-center justify-center p-8 text-gray-500">
+                    Publica el rol para registrar resultados de este partido
+                  </div>
+                ) : (
                 <MatchResultForm
-                  pairing={pairings[selectedPairingIndex]}
+                  pairing={roundPairings[selectedPairingIndex]}
                   onSuccess={() => {
-                    // Invalidar los rankings para que se actualicen
+                    // Invalidar los rankings y la clasificación de la sesión para que se actualicen
                     queryClient.invalidateQueries({ queryKey: ["/api/rankings"] });
+                    if (gameId !== undefined) {
+                      queryClient.invalidateQueries({ queryKey: [`/api/games/${gameId}/standings`] });
+                    }
                     // Mostrar mensaje de éxito
                     toast({
                       title: "Resultado guardado",
@@ -282,7 +452,12 @@ export default function ResultDisplay({ pairings }: ResultDisplayProps) {
                       duration: 3000,
                     });
                   }}
+                  isLatestRound={selectedRound === rounds[rounds.length - 1]}
+                  onRoundGenerated={onRoundGenerated}
                 />
+                )}
+                
+                {gameId !== undefined && <SessionStandings gameId={gameId} />}
               </>
             ) : (
               <div className="flex items-center justify-center p-8 text-gray-500">
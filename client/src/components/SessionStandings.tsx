@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { SessionStanding } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
+
+interface SessionStandingsProps {
+  gameId: number;
+}
+
+// Clasificación de la sesión: suma los resultados de todas las rondas del juego
+export default function SessionStandings({ gameId }: SessionStandingsProps) {
+  const { data: standings = [], isLoading } = useQuery({
+    queryKey: [`/api/games/${gameId}/standings`],
+    queryFn: getQueryFn<SessionStanding[]>({ on401: "throw" }),
+  });
+
+  const hasResults = standings.some(standing => standing.roundsPlayed > 0);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-md font-medium mb-3">Clasificación de la sesión</h3>
+      {isLoading ? (
+        <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+      ) : !hasResults ? (
+        <p className="text-sm text-gray-500">
+          La clasificación aparecerá cuando se registren resultados
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Jugador</TableHead>
+                <TableHead className="text-center">Rondas</TableHead>
+                <TableHead className="text-center">Sets G-P</TableHead>
+                <TableHead className="text-center">Games a favor</TableHead>
+                <TableHead className="text-center">Diferencia</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map((standing, index) => (
+                <TableRow key={standing.playerId}>
+                  <TableCell className="font-medium">{index + 1}</TableCell>
+                  <TableCell className="font-medium">{standing.playerAlias || standing.playerName}</TableCell>
+                  <TableCell className="text-center">{standing.roundsPlayed}</TableCell>
+                  <TableCell className="text-center">{standing.setsWon}-{standing.setsLost}</TableCell>
+                  <TableCell className="text-center font-bold">{standing.gamesFor}</TableCell>
+                  <TableCell className="text-center">{standing.gamesFor - standing.gamesAgainst}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Check, Clock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Game, WaitListOffer } from "@shared/schema";
+
+interface SpotOffersProps {
+  games: Game[];
+}
+
+// Lugares que se liberaron para el jugador de la sesión; los acepta o rechaza antes de que venzan
+export default function SpotOffers({ games }: SpotOffersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: offers = [] } = useQuery<WaitListOffer[]>({
+    queryKey: ["/api/offers/mine"],
+    refetchInterval: 60 * 1000, // Las ofertas vencen aunque nadie haga nada
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ offerId, accept }: { offerId: number; accept: boolean }) => {
+      await apiRequest(`/api/offers/${offerId}/${accept ? "accept" : "decline"}`, {
+        method: "POST",
+      });
+      return accept;
+    },
+    onSuccess: (accept) => {
+      toast(accept
+        ? { title: "¡Estás dentro!", description: "Ya formas parte del roster del juego" }
+        : { title: "Lugar rechazado", description: "Se le ofrecerá al siguiente de la lista de espera" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo responder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/signups/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+    },
+  });
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {offers.map(offer => {
+        const game = games.find(g => g.id === offer.gameId);
+        return (
+          <Card key={offer.id} className="border-amber-300 bg-amber-50">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-amber-900">
+                  Se liberó un lugar
+                  {game && ` en el juego del ${format(new Date(`${game.gameDate}T00:00:00`), "EEEE d 'de' MMMM", { locale: es })}`}
+                </p>
+                <p className="text-sm text-amber-800 flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  Responde antes de las {format(new Date(offer.expiresAt), "HH:mm", { locale: es })} o pasará al siguiente
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => respondMutation.mutate({ offerId: offer.id, accept: false })}
+                  disabled={respondMutation.isPending}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Rechazar
+                </Button>
+                <Button
+                  onClick={() => respondMutation.mutate({ offerId: offer.id, accept: true })}
+                  disabled={respondMutation.isPending}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Aceptar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
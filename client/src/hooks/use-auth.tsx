@@ -1,54 +1,55 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { useEffect, createContext, useContext, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { UserRole } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
 
 // Tipo para el usuario autenticado
 export interface AuthUser {
   id: number;
   name: string;
   alias?: string | null;
+  phone?: string | null;
   role: string;
-  selected?: boolean;
+  preferredSide?: string | null;
+  dominantHand?: string | null;
 }
 
 // Contexto de autenticación
 type AuthContextType = {
   user: AuthUser | null;
+  isLoading: boolean;
   login: (user: AuthUser) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
   isAuthenticated: () => boolean;
   hasRole: (role: string | string[]) => boolean;
 };
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+const AUTH_ME_KEY = ["/api/auth/me"];
+
 // Proveedor de autenticación
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<AuthUser | null>(null);
+  // El usuario se obtiene de la sesión del servidor; 401 significa sin sesión
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: AUTH_ME_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
-  // Cargar usuario desde localStorage al iniciar
+  // Limpiar el usuario que versiones anteriores guardaban en localStorage
   useEffect(() => {
-    const storedUser = localStorage.getItem("currentUser");
-    if (storedUser) {
-      try {
-        const parsedUser = JSON.parse(storedUser);
-        setUser(parsedUser);
-      } catch (error) {
-        console.error("Error al cargar usuario desde localStorage:", error);
-        localStorage.removeItem("currentUser");
-      }
-    }
+    localStorage.removeItem("currentUser");
   }, []);
 
-  // Iniciar sesión
+  // Iniciar sesión: el servidor ya creó la sesión, solo actualizamos la caché
   const login = (userData: AuthUser) => {
-    setUser(userData);
-    localStorage.setItem("currentUser", JSON.stringify(userData));
+    queryClient.setQueryData(AUTH_ME_KEY, userData);
   };
 
   // Cerrar sesión
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("currentUser");
+  const logout = async () => {
+    await apiRequest("/api/auth/logout", { method: "POST" });
+    queryClient.setQueryData(AUTH_ME_KEY, null);
   };
 
   // Verificar si hay un usuario autenticado
@@ -74,6 +75,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const value = {
     user,
+    isLoading,
     login,
     logout,
     isAuthenticated,
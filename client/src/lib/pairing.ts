@@ -1,35 +1,24 @@
-import type { Player } from "@shared/schema";
+import type { CourtBalance } from "@shared/schema";
 
 /**
- * Shuffles an array using the Fisher-Yates algorithm
- */
-export function shuffleArray<T>(array: T[]): T[] {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-}
-
-/**
- * Validates if pairings can be generated with the given number of players and courts
+ * Validates if pairings can be generated with the given number of players and courts.
+ * Players that don't fill a court sit out the round, so any count from 4 is valid.
  */
 export function validatePairings(playerCount: number, courtCount: number): {
   isValid: boolean;
   message: string;
 } {
-  if (playerCount < courtCount * 4) {
+  if (courtCount === 0) {
     return {
       isValid: false,
-      message: `Necesitas ${courtCount * 4} jugadores para ${courtCount} canchas. Actualmente tienes ${playerCount}.`,
+      message: "Agrega al menos una cancha para generar el rol de juegos.",
     };
   }
   
-  if (playerCount % 4 !== 0) {
+  if (playerCount < 4) {
     return {
       isValid: false,
-      message: "El número de jugadores debe ser divisible por 4 para formar parejas en todas las canchas.",
+      message: `Necesitas al menos 4 jugadores para una cancha. Actualmente tienes ${playerCount}.`,
     };
   }
   
@@ -38,3 +27,34 @@ export function validatePairings(playerCount: number, courtCount: number): {
     message: "",
   };
 }
+
+/**
+ * Builds a readable message from a pairing request error. apiRequest throws
+ * "<status>: <body>"; when the body is JSON, use the server message and list the
+ * constraints that could not be met, if any.
+ */
+export function describePairingError(error: Error, fallback: string): string {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    const message: string = body.message ?? fallback;
+    const violations: string[] = body.violations ?? [];
+    return violations.length > 0 ? `${message}: ${violations.join("; ")}` : message;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Rounds a win probability (0 to 1) to a whole percentage for display.
+ */
+export function formatProbability(probability: number): string {
+  return `${Math.round(probability * 100)}%`;
+}
+
+/**
+ * Whether a court is close enough to call it even: neither pair is expected to win
+ * more than 60% of the time.
+ */
+export function isEvenCourt(balance: CourtBalance): boolean {
+  return Math.max(balance.pair1WinProbability, balance.pair2WinProbability) <= 0.6;
+}
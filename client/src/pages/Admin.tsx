@@ -6,13 +6,16 @@ import { useAuth } from "@/hooks/use-auth";
 import { Game, UserRole } from "@shared/schema";
 import AdminUserManager from "@/components/AdminUserManager";
 import AdminGameManager from "@/components/AdminGameManager";
+import AdminGameSeries from "@/components/AdminGameSeries";
 import AdminGamePlayers from "@/components/AdminGamePlayers";
+import GenerationLog from "@/components/GenerationLog";
+import ChangePasswordForm from "@/components/ChangePasswordForm";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 
 export default function Admin() {
-  const { user } = useAuth();
+  const { user, isLoading: isLoadingUser } = useAuth();
   const [selectedGameId, setSelectedGameId] = useState<number | null>(null);
   
   // Cargar juegos para el selector
@@ -23,6 +26,15 @@ export default function Admin() {
   // Verificar si el usuario actual es admin
   const isAdmin = user && (user.role === UserRole.ADMIN || user.role === UserRole.SUPERADMIN);
   
+  // Esperar a que se cargue la sesión antes de negar el acceso
+  if (isLoadingUser) {
+    return (
+      <div className="container mx-auto py-8 text-center text-muted-foreground">
+        Cargando sesión...
+      </div>
+    );
+  }
+  
   if (!isAdmin) {
     return (
       <div className="container mx-auto py-8">
@@ -50,16 +62,22 @@ export default function Admin() {
       </Card>
       
       <Tabs defaultValue="games" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="games">Fechas de Juego</TabsTrigger>
+          <TabsTrigger value="series">Series</TabsTrigger>
           <TabsTrigger value="players">Gestionar Jugadores</TabsTrigger>
           <TabsTrigger value="users">Usuarios</TabsTrigger>
+          <TabsTrigger value="account">Mi cuenta</TabsTrigger>
         </TabsList>
         
         <TabsContent value="games" className="pt-6">
           <AdminGameManager />
         </TabsContent>
         
+        <TabsContent value="series" className="pt-6">
+          <AdminGameSeries />
+        </TabsContent>
+        
         <TabsContent value="players" className="pt-6">
           <Card className="w-full mb-6">
             <CardHeader>
@@ -92,7 +110,10 @@ export default function Admin() {
           </Card>
           
           {selectedGameId ? (
-            <AdminGamePlayers gameId={selectedGameId} />
+            <>
+              <AdminGamePlayers gameId={selectedGameId} />
+              <GenerationLog gameId={selectedGameId} />
+            </>
           ) : (
             <Card className="w-full">
               <CardContent className="text-center py-12">
@@ -107,6 +128,10 @@ export default function Admin() {
         <TabsContent value="users" className="pt-6">
           <AdminUserManager />
         </TabsContent>
+        
+        <TabsContent value="account" className="pt-6">
+          <ChangePasswordForm />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -4,14 +4,21 @@ import Footer from "@/components/Footer";
 import PlayerInput from "@/components/PlayerInput";
 import CourtManager from "@/components/CourtManager";
 import ResultDisplay from "@/components/ResultDisplay";
+import PairingConstraints from "@/components/PairingConstraints";
+import ProfileForm from "@/components/ProfileForm";
 import PlayerRankings from "@/components/PlayerRankings";
+import GameSelector from "@/components/GameSelector";
+import SpotOffers from "@/components/SpotOffers";
+import GameSignups from "@/components/GameSignups";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { describePairingError, validatePairings } from "@/lib/pairing";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dice5, Trophy, Users } from "lucide-react";
-import type { Player, Court, Pairings, CourtPairing } from "@shared/schema";
+import { CalendarCheck, Dice5, Trophy, UserCircle, Users } from "lucide-react";
+import { GameStatus, type Player, type Court, type BenchPlayer, type CourtPairing, type Game, type GeneratedPairings, type GeneratePairingsRequest, type RosterChange } from "@shared/schema";
 
 // Extender el tipo Court para incluir el estado de selección
 interface CourtWithSelection extends Court {
@@ -20,8 +27,11 @@ interface CourtWithSelection extends Court {
 
 export default function Home() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [pairings, setPairings] = useState<CourtPairing[]>([]);
+  const [bench, setBench] = useState<BenchPlayer[]>([]);
   const [courtsWithSelection, setCourtsWithSelection] = useState<CourtWithSelection[]>([]);
+  const [gameId, setGameId] = useState<number | undefined>(undefined);
 
   // Fetch players
   const {
@@ -32,6 +42,27 @@ export default function Home() {
     queryKey: ["/api/players"],
   });
 
+  // Juegos programados; la selección de jugadores es el roster de uno de ellos
+  const { data: games = [] } = useQuery<Game[]>({
+    queryKey: ["/api/games"],
+  });
+  
+  // Por defecto, el próximo juego sin terminar ni cancelar (o el más reciente si no hay próximos)
+  useEffect(() => {
+    if (gameId !== undefined && games.some(game => game.id === gameId)) return;
+    const today = new Date().toISOString().split('T')[0];
+    const byDate = [...games].sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+    const nextGame = byDate.find(game => game.status !== GameStatus.COMPLETED && game.status !== GameStatus.CANCELLED && game.gameDate >= today) ?? byDate[byDate.length - 1];
+    setGameId(nextGame?.id);
+  }, [games, gameId]);
+  
+  const selectedGame = games.find(game => game.id === gameId);
+  const rosterPlayerIds = selectedGame?.playerIds ?? [];
+  // Juegan los confirmados del roster; si el juego no tiene roster, todos los jugadores
+  const playingPlayers = rosterPlayerIds.length > 0
+    ? players.filter(player => rosterPlayerIds.includes(player.id))
+    : players;
+
   // Fetch courts
   const {
     data: courts = [],
@@ -99,16 +130,27 @@ export default function Home() {
     },
   });
   
-  // Toggle player selection mutation
+  // Seleccionar o quitar a un jugador del roster del juego seleccionado
   const togglePlayerSelectionMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await apiRequest(`/api/players/${id}/toggle-selection`, {
+      const response = await apiRequest(`/api/games/${gameId}/roster/${id}/toggle`, {
         method: "POST"
       });
-      return await response.json() as Player;
+      return (await response.json()) as RosterChange;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/players"] });
+    onSuccess: ({ waitListed, offered }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+      if (waitListed) {
+        toast({
+          title: "Juego completo",
+          description: "El jugador quedó en la lista de espera",
+        });
+      } else if (offered) {
+        toast({
+          title: "Lugar liberado",
+          description: `Se le ofreció el lugar a ${offered.alias || offered.name}, el siguiente de la lista de espera`,
+        });
+      }
     },
     onError: (error) => {
       toast({
@@ -198,28 +240,30 @@ export default function Home() {
 
   // Generate pairings mutation
   const generatePairingsMutation = useMutation({
-    mutationFn: async (data: { gameDate?: string; sets?: number; selectedCourtIds?: number[] }) => {
+    mutationFn: async (data: GeneratePairingsRequest) => {
       try {
         const response = await apiRequest("/api/pairings/generate", {
           method: "POST",
           body: JSON.stringify(data)
         });
         
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.message || "Error al generar el rol de juegos");
-        }
-        
-        return (await response.json()) as Pairings;
+        return (await response.json()) as GeneratedPairings;
       } catch (error: any) {
-        throw new Error(error.message || "Error al generar el rol de juegos");
+        // Incluye el detalle de las restricciones que no se pudieron cumplir
+        throw new Error(describePairingError(error, "Error al generar el rol de juegos"));
       }
     },
     onSuccess: (data) => {
-      setPairings(data);
+      setPairings(data.pairings);
+      setBench(data.bench);
+      // La generación pudo crear el juego de la fecha
+      queryClient.invalidateQueries({ queryKey: ["/api/games"] });
+      setGameId(data.pairings[0]?.gameId ?? gameId);
       toast({
-        title: "¡Rol de juegos generado!",
-        description: "Las parejas han sido asignadas aleatoriamente a las canchas",
+        title: "¡Borrador del rol generado!",
+        description: data.bench.length > 0
+          ? `Las parejas han sido asignadas a las canchas; ${data.bench.length} jugador(es) descansan esta ronda. Revísalo y publícalo para que lo vean los jugadores. Semilla: ${data.seed}`
+          : `Las parejas han sido asignadas a las canchas. Revísalo y publícalo para que lo vean los jugadores. Semilla: ${data.seed}`,
       });
     },
     onError: (error: any) => {
@@ -234,6 +278,7 @@ export default function Home() {
   // Handle app reset
   const handleReset = () => {
     setPairings([]);
+    setBench([]);
   };
 
   // Toggle court selection
@@ -245,41 +290,18 @@ export default function Home() {
     );
   };
   
-  // Get number of selected courts
-  const getSelectedCourtsCount = () => {
-    return courtsWithSelection.filter(court => court.selected).length;
-  };
-  
-  // Check if pairings can be generated - based on selected courts
-  const canGeneratePairings = () => {
-    const selectedCourtsCount = getSelectedCourtsCount();
-    if (selectedCourtsCount === 0) {
-      return players.length >= courts.length * 4 && players.length % 4 === 0;
-    }
-    return players.length >= selectedCourtsCount * 4 && players.length % 4 === 0;
-  };
-
-  // Generate validation message - based on selected courts
-  const getValidationMessage = () => {
-    const selectedCourtsCount = getSelectedCourtsCount();
-    const totalCourtsToUse = selectedCourtsCount > 0 ? selectedCourtsCount : courts.length;
-    
-    if (players.length < totalCourtsToUse * 4) {
-      return `Necesitas ${totalCourtsToUse * 4} jugadores para ${totalCourtsToUse} canchas. Actualmente tienes ${players.length}.`;
-    }
-    if (players.length % 4 !== 0) {
-      return `El número de jugadores debe ser divisible por 4 para formar parejas en todas las canchas.`;
-    }
-    return "";
-  };
+  // Check if pairings can be generated - players who don't fill a court sit out
+  const pairingValidation = validatePairings(playingPlayers.length, courts.length);
 
   return (
     <div className="min-h-screen flex flex-col">
       <Header onReset={handleReset} />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex-grow">
+        {user && <SpotOffers games={games} />}
+        
         <Tabs defaultValue="players" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-8">
+          <TabsList className={`grid w-full ${user ? "grid-cols-5" : "grid-cols-3"} mb-8`}>
             <TabsTrigger value="players" className="flex items-center gap-2">
               <Users className="h-4 w-4" />
               <span>Jugadores</span>
@@ -292,44 +314,85 @@ export default function Home() {
               <Trophy className="h-4 w-4" />
               <span>Clasificación</span>
             </TabsTrigger>
+            {user && (
+              <TabsTrigger value="signups" className="flex items-center gap-2">
+                <CalendarCheck className="h-4 w-4" />
+                <span>Mis juegos</span>
+              </TabsTrigger>
+            )}
+            {user && (
+              <TabsTrigger value="profile" className="flex items-center gap-2">
+                <UserCircle className="h-4 w-4" />
+                <span>Perfil</span>
+              </TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="players" className="space-y-6">
+            <GameSelector games={games} gameId={gameId} onChange={setGameId} />
+            
             <PlayerInput
               players={players}
+              selectedPlayerIds={rosterPlayerIds}
               isLoading={isLoadingPlayers}
               onAddPlayer={(name, playerData) => 
                 addPlayerMutation.mutate({ name, playerData })
               }
               onRemovePlayer={(id) => removePlayerMutation.mutate(id)}
-              onTogglePlayerSelection={(id) => togglePlayerSelectionMutation.mutate(id)}
+              onTogglePlayerSelection={gameId !== undefined ? (id) => togglePlayerSelectionMutation.mutate(id) : undefined}
             />
           </TabsContent>
           
           <TabsContent value="game" className="space-y-6">
             <CourtManager
               courts={courts}
-              players={players}
+              players={playingPlayers}
+              game={selectedGame}
               pairings={pairings}
+              bench={bench}
               isLoading={isLoadingCourts}
               isGenerating={generatePairingsMutation.isPending}
               onAddCourt={() => addCourtMutation.mutate()}
               onRemoveCourt={(id) => removeCourtMutation.mutate(id)}
               onToggleCourtSelection={toggleCourtSelection}
               courtsWithSelection={courtsWithSelection}
-              onGeneratePairings={(gameDate, sets, selectedCourtIds) => 
-                generatePairingsMutation.mutate({ gameDate, sets, selectedCourtIds })
-              }
-              canGeneratePairings={canGeneratePairings()}
-              validationMessage={getValidationMessage()}
+              onGeneratePairings={(request) => generatePairingsMutation.mutate(request)}
+              canGeneratePairings={pairingValidation.isValid}
+              validationMessage={pairingValidation.message}
             />
 
-            <ResultDisplay pairings={pairings} />
+            <PairingConstraints
+              players={players}
+              courts={courts}
+              gameId={pairings[0]?.gameId ?? gameId}
+            />
+
+            <ResultDisplay
+              pairings={pairings}
+              bench={bench}
+              onPairingsChange={setPairings}
+              onRoundGenerated={(next) => {
+                setPairings(prev => [...prev, ...next.pairings]);
+                setBench(prev => [...prev, ...next.bench]);
+              }}
+            />
           </TabsContent>
           
           <TabsContent value="rankings" className="space-y-6">
             <PlayerRankings />
           </TabsContent>
+          
+          {user && (
+            <TabsContent value="signups">
+              <GameSignups />
+            </TabsContent>
+          )}
+          
+          {user && (
+            <TabsContent value="profile" className="flex justify-center">
+              <ProfileForm />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
       
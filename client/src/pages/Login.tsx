@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LoginForm from "@/components/LoginForm";
+import PhoneLoginForm from "@/components/PhoneLoginForm";
+import ResetPasswordForm from "@/components/ResetPasswordForm";
+
+export default function Login() {
+  const [, navigate] = useLocation();
+  const [showReset, setShowReset] = useState(false);
+
+  // Tras iniciar sesión, volver a la página principal
+  const handleSuccess = () => navigate("/");
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 px-4">
+      <Tabs defaultValue="phone" className="w-full max-w-md">
+        <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsTrigger value="phone">Teléfono</TabsTrigger>
+          <TabsTrigger value="admin">Administrador</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="phone">
+          <PhoneLoginForm onSuccess={handleSuccess} />
+        </TabsContent>
+
+        <TabsContent value="admin">
+          {showReset ? (
+            <ResetPasswordForm onSuccess={() => setShowReset(false)} />
+          ) : (
+            <LoginForm onSuccess={handleSuccess} />
+          )}
+          <Button
+            variant="link"
+            className="w-full mt-2"
+            onClick={() => setShowReset(!showReset)}
+          >
+            {showReset ? "Volver a iniciar sesión" : "Tengo un token de restablecimiento"}
+          </Button>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+CREATE TABLE IF NOT EXISTS "courts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "games" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_date" text NOT NULL,
+	"date" text,
+	"court_ids" integer[] DEFAULT '{}'::integer[] NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"max_players" integer,
+	"player_ids" integer[] DEFAULT '{}'::integer[] NOT NULL,
+	"sets_per_match" integer DEFAULT 3 NOT NULL,
+	"description" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "match_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pairing_id" integer NOT NULL,
+	"game_date" text NOT NULL,
+	"set_number" integer NOT NULL,
+	"pair1_score" integer NOT NULL,
+	"pair2_score" integer NOT NULL,
+	"winner" text NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"pair1" jsonb NOT NULL,
+	"pair2" jsonb NOT NULL,
+	"court_id" integer NOT NULL,
+	"court_name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "player_rankings" (
+	"player_id" integer PRIMARY KEY NOT NULL,
+	"player_name" text NOT NULL,
+	"player_alias" text,
+	"games_played" integer DEFAULT 0 NOT NULL,
+	"games_won" integer DEFAULT 0 NOT NULL,
+	"sets_played" integer DEFAULT 0 NOT NULL,
+	"sets_won" integer DEFAULT 0 NOT NULL,
+	"points" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"alias" text,
+	"phone" text,
+	"affiliation_number" text,
+	"selected" boolean DEFAULT false,
+	"role" text DEFAULT 'player' NOT NULL,
+	"password" text,
+	"invited_by" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "wait_list_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "wait_list_entries_game_id_player_id_unique" UNIQUE("game_id","player_id")
+);
+--> statement-breakpoint
+ALTER TABLE "player_rankings" ADD CONSTRAINT "player_rankings_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_entries" ADD CONSTRAINT "wait_list_entries_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_entries" ADD CONSTRAINT "wait_list_entries_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Juegos creados antes de que existieran "date" y "max_players": copiar la fecha y derivar la capacidad (4 por cancha)
+UPDATE "games" SET "date" = "game_date" WHERE "date" IS NULL;
+--> statement-breakpoint
+UPDATE "games" SET "max_players" = COALESCE(array_length("court_ids", 1), 0) * 4 WHERE "max_players" IS NULL;
+--> statement-breakpoint
+-- Jugadores creados con db:push antes de que "selected" tuviera valor por defecto
+UPDATE "players" SET "selected" = false WHERE "selected" IS NULL;
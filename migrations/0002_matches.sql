@@ -0,0 +1,34 @@
+CREATE TABLE "matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"game_date" text NOT NULL,
+	"court_id" integer NOT NULL,
+	"court_name" text NOT NULL,
+	"pair1" jsonb NOT NULL,
+	"pair2" jsonb NOT NULL,
+	"sets" integer DEFAULT 3 NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "matches" ADD CONSTRAINT "matches_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Los resultados anteriores usaban el courtId como pairingId: crear un juego por fecha
+-- y un partido por (fecha, cancha) para que todos apunten a un partido real
+INSERT INTO "games" ("game_date", "date", "status", "max_players")
+SELECT DISTINCT "mr"."game_date", "mr"."game_date", 'completed', 0
+FROM "match_results" "mr"
+WHERE NOT EXISTS (SELECT 1 FROM "games" "g" WHERE "g"."game_date" = "mr"."game_date");--> statement-breakpoint
+INSERT INTO "matches" ("game_id", "game_date", "court_id", "court_name", "pair1", "pair2", "sets", "status")
+SELECT
+	(SELECT "g"."id" FROM "games" "g" WHERE "g"."game_date" = "legacy"."game_date" ORDER BY "g"."id" LIMIT 1),
+	"legacy"."game_date", "legacy"."court_id", "legacy"."court_name", "legacy"."pair1", "legacy"."pair2",
+	(SELECT MAX("r"."set_number") FROM "match_results" "r" WHERE "r"."game_date" = "legacy"."game_date" AND "r"."court_id" = "legacy"."court_id"),
+	'completed'
+FROM (
+	SELECT DISTINCT ON ("game_date", "court_id") "game_date", "court_id", "court_name", "pair1", "pair2"
+	FROM "match_results"
+	ORDER BY "game_date", "court_id", "id"
+) "legacy";--> statement-breakpoint
+UPDATE "match_results" "mr" SET "pairing_id" = "m"."id"
+FROM "matches" "m"
+WHERE "m"."game_date" = "mr"."game_date" AND "m"."court_id" = "mr"."court_id";--> statement-breakpoint
+ALTER TABLE "match_results" ADD CONSTRAINT "match_results_pairing_id_matches_id_fk" FOREIGN KEY ("pairing_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "players" ADD COLUMN "category" text;
\ No newline at end of file
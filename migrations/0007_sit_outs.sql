@@ -0,0 +1,10 @@
+CREATE TABLE "sit_outs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sit_outs_game_id_player_id_unique" UNIQUE("game_id","player_id")
+);
+--> statement-breakpoint
+ALTER TABLE "sit_outs" ADD CONSTRAINT "sit_outs_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sit_outs" ADD CONSTRAINT "sit_outs_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "sit_outs" DROP CONSTRAINT "sit_outs_game_id_player_id_unique";--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "round" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sit_outs" ADD COLUMN "round" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "sit_outs" ADD CONSTRAINT "sit_outs_game_id_player_id_round_unique" UNIQUE("game_id","player_id","round");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "games" ADD COLUMN "strategy" text;
\ No newline at end of file
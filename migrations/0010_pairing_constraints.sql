@@ -0,0 +1,14 @@
+CREATE TABLE "pairing_constraints" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer,
+	"kind" text NOT NULL,
+	"player_id" integer NOT NULL,
+	"other_player_id" integer,
+	"court_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pairing_constraints" ADD CONSTRAINT "pairing_constraints_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairing_constraints" ADD CONSTRAINT "pairing_constraints_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairing_constraints" ADD CONSTRAINT "pairing_constraints_other_player_id_players_id_fk" FOREIGN KEY ("other_player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairing_constraints" ADD CONSTRAINT "pairing_constraints_court_id_courts_id_fk" FOREIGN KEY ("court_id") REFERENCES "public"."courts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "players" ADD COLUMN "preferred_side" text;--> statement-breakpoint
+ALTER TABLE "players" ADD COLUMN "dominant_hand" text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "pairing_generations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"seed" text NOT NULL,
+	"strategy" text NOT NULL,
+	"input" jsonb NOT NULL,
+	"output" jsonb NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pairing_generations" ADD CONSTRAINT "pairing_generations_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairing_generations" ADD CONSTRAINT "pairing_generations_created_by_players_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."players"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
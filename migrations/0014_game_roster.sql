@@ -0,0 +1,25 @@
+CREATE TABLE "game_roster" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"status" text DEFAULT 'confirmed' NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "game_roster_game_id_player_id_unique" UNIQUE("game_id","player_id")
+);
+--> statement-breakpoint
+ALTER TABLE "game_roster" ADD CONSTRAINT "game_roster_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_roster" ADD CONSTRAINT "game_roster_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Pasar al roster los jugadores que ya estaban en "player_ids" de cada juego
+INSERT INTO "game_roster" ("game_id", "player_id")
+SELECT "games"."id", "players"."id"
+FROM "games" CROSS JOIN LATERAL unnest("games"."player_ids") AS "listed"("player_id")
+JOIN "players" ON "players"."id" = "listed"."player_id"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- La selección global se refería al siguiente juego: se copia a los juegos que aún no se juegan
+INSERT INTO "game_roster" ("game_id", "player_id")
+SELECT "games"."id", "players"."id"
+FROM "games" CROSS JOIN "players"
+WHERE "games"."status" = 'pending' AND "players"."selected" = true
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+ALTER TABLE "games" DROP COLUMN "player_ids";--> statement-breakpoint
+ALTER TABLE "players" DROP COLUMN "selected";
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "wait_list_promotions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"replaced_player_id" integer,
+	"promoted_by" integer,
+	"waiting_since" timestamp NOT NULL,
+	"promoted_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "wait_list_entries" ADD COLUMN "priority" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "wait_list_promotions" ADD CONSTRAINT "wait_list_promotions_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_promotions" ADD CONSTRAINT "wait_list_promotions_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_promotions" ADD CONSTRAINT "wait_list_promotions_replaced_player_id_players_id_fk" FOREIGN KEY ("replaced_player_id") REFERENCES "public"."players"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_promotions" ADD CONSTRAINT "wait_list_promotions_promoted_by_players_id_fk" FOREIGN KEY ("promoted_by") REFERENCES "public"."players"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Los invitados que ya esperaban pasan detrás de los socios
+UPDATE "wait_list_entries" SET "priority" = 0
+FROM "players"
+WHERE "players"."id" = "wait_list_entries"."player_id" AND "players"."invited_by" IS NOT NULL;
@@ -0,0 +1,15 @@
+CREATE TABLE "wait_list_offers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"replaced_player_id" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"offered_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "offer_window_minutes" integer;--> statement-breakpoint
+ALTER TABLE "wait_list_offers" ADD CONSTRAINT "wait_list_offers_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_offers" ADD CONSTRAINT "wait_list_offers_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wait_list_offers" ADD CONSTRAINT "wait_list_offers_replaced_player_id_players_id_fk" FOREIGN KEY ("replaced_player_id") REFERENCES "public"."players"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "games" ADD COLUMN "signup_opens_at" timestamp;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "signup_closes_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "game_series" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"start_date" text NOT NULL,
+	"weekdays" integer[] NOT NULL,
+	"frequency" text DEFAULT 'weekly' NOT NULL,
+	"end_date" text,
+	"occurrences" integer,
+	"court_ids" integer[] DEFAULT '{}'::integer[] NOT NULL,
+	"sets_per_match" integer DEFAULT 3 NOT NULL,
+	"max_players" integer,
+	"description" text,
+	"offer_window_minutes" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "series_id" integer;--> statement-breakpoint
+ALTER TABLE "games" ADD CONSTRAINT "games_series_id_game_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."game_series"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
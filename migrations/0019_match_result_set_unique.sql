@@ -0,0 +1,3 @@
+-- Sets repetidos: se conserva el último resultado registrado de cada uno
+DELETE FROM "match_results" a USING "match_results" b WHERE a."pairing_id" = b."pairing_id" AND a."set_number" = b."set_number" AND a."id" < b."id";--> statement-breakpoint
+ALTER TABLE "match_results" ADD CONSTRAINT "match_results_pairing_id_set_number_unique" UNIQUE("pairing_id","set_number");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "game_series" ADD COLUMN "excluded_dates" text[] DEFAULT '{}'::text[] NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "phone_code_limits" (
+	"phone" text PRIMARY KEY NOT NULL,
+	"last_issued_at" timestamp,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp
+);
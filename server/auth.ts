@@ -0,0 +1,72 @@
+import { randomBytes } from "crypto";
+import type { Express, Request } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type { Player } from "@shared/schema";
+import { log } from "./vite";
+
+declare module "express-session" {
+  interface SessionData {
+    playerId: number;
+  }
+}
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 días
+
+// Configura las sesiones del servidor: en Postgres si hay DATABASE_URL, en memoria si no
+export function setupSession(app: Express) {
+  const store = process.env.DATABASE_URL
+    ? new (connectPg(session))({
+        conString: process.env.DATABASE_URL,
+        tableName: "session", // La tabla la crean las migraciones
+      })
+    : new (createMemoryStore(session))({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (app.get("env") === "production") {
+      throw new Error("SESSION_SECRET es obligatoria en producción");
+    }
+    // En desarrollo las sesiones se invalidan en cada reinicio
+    secret = randomBytes(32).toString("hex");
+    log("SESSION_SECRET no definida; usando un secreto temporal");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+}
+
+// Inicia sesión para un jugador regenerando el ID de sesión (evita fijación de sesión)
+export function startSession(req: Request, playerId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.playerId = playerId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function endSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Datos del jugador que se pueden enviar al cliente (sin contraseña)
+export function toPublicPlayer(player: Player): Omit<Player, "password"> {
+  const { password: _, ...publicPlayer } = player;
+  return publicPlayer;
+}
@@ -0,0 +1,18 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { createDb } from "../db";
+
+// Aplica en orden las migraciones pendientes de la carpeta migrations/
+if (!process.env.DATABASE_URL) {
+  console.error("DATABASE_URL no está definida; no hay base de datos que migrar");
+  process.exit(1);
+}
+
+const migrationsFolder = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..", "migrations");
+
+(async () => {
+  await migrate(createDb(process.env.DATABASE_URL!), { migrationsFolder });
+  console.log("Migraciones aplicadas");
+  process.exit(0);
+})();
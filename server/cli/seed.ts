@@ -0,0 +1,29 @@
+import { storage } from "../storage";
+import { readSeedOptions, seedStorage } from "../seed";
+
+// Uso: npm run db:seed -- --admin-name=Admin --admin-password=secreto --courts=Lala,AR
+if (!process.env.DATABASE_URL) {
+  console.error("DATABASE_URL no está definida; no hay base de datos que sembrar");
+  process.exit(1);
+}
+
+(async () => {
+  const options = readSeedOptions(process.argv.slice(2), process.env);
+  const summary = await seedStorage(storage, options);
+
+  console.log(
+    summary.createdCourts.length > 0
+      ? `Canchas creadas: ${summary.createdCourts.join(", ")}`
+      : "No se crearon canchas nuevas"
+  );
+
+  if (summary.createdAdmin) {
+    console.log(`Superadmin creado: ${summary.createdAdmin}`);
+  } else if (!options.adminName || !options.adminPassword) {
+    console.log("Sin --admin-name/--admin-password (o SEED_ADMIN_NAME/SEED_ADMIN_PASSWORD) no se crea superadmin");
+  } else {
+    console.log("Ya existe un superadmin; no se creó otro");
+  }
+
+  process.exit(0);
+})();
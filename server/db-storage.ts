@@ -0,0 +1,724 @@
+import { and, asc, desc, eq, gt, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  courts,
+  gameRoster,
+  games,
+  gameSeries,
+  matches,
+  matchResults,
+  pairingConstraints,
+  pairingGenerations,
+  passwordResetTokens,
+  phoneVerificationCodes,
+  phoneCodeLimits,
+  playerRankings,
+  players,
+  sitOuts,
+  waitListEntries,
+  waitListPromotions,
+  waitListOffers,
+  OfferStatus,
+  defaultWaitListPriority,
+  roleSatisfies,
+  RosterStatus,
+  UserRole,
+  type Court,
+  type Game,
+  type GameRow,
+  type GameSeries,
+  type GameSeriesUpdate,
+  type InsertGameSeries,
+  type InsertCourt,
+  type InsertMatch,
+  type InsertPairingConstraint,
+  type InsertPairingGeneration,
+  type InsertPlayer,
+  type Match,
+  type MatchResult,
+  type MatchResultRow,
+  type PairingConstraint,
+  type PairingGeneration,
+  type PhoneVerificationCode,
+  type PhoneCodeLimit,
+  type Player,
+  type PlayerRanking,
+  type RosterEntry,
+  type RosterStatusType,
+  type WaitListPlayer,
+  type WaitListPromotion,
+  type WaitListOffer,
+  type InsertWaitListOffer,
+  type OfferStatusType
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { GameSitOut, IStorage, PromotionDetails } from "./storage";
+import { computeRankings } from "./rankings";
+import { isPasswordHash, matchesStoredPassword, toStoredPassword } from "./passwords";
+
+// Convierte una fila de la tabla games al tipo Game que usa la API, con los confirmados de su roster
+function toGame(row: GameRow, playerIds: number[]): Game {
+  return {
+    id: row.id,
+    gameDate: row.gameDate,
+    date: row.date ?? undefined,
+    courtIds: row.courtIds,
+    status: row.status,
+    maxPlayers: row.maxPlayers ?? undefined,
+    playerIds,
+    setsPerMatch: row.setsPerMatch,
+    description: row.description ?? undefined,
+    strategy: row.strategy ?? undefined,
+    offerWindowMinutes: row.offerWindowMinutes ?? undefined,
+    signupOpensAt: row.signupOpensAt ?? undefined,
+    signupClosesAt: row.signupClosesAt ?? undefined,
+    seriesId: row.seriesId ?? undefined,
+  };
+}
+
+function toWaitListPlayer(player: Player, entry: typeof waitListEntries.$inferSelect): WaitListPlayer {
+  return {
+    id: player.id,
+    name: player.name,
+    alias: player.alias,
+    phone: player.phone,
+    affiliationNumber: player.affiliationNumber,
+    role: player.role,
+    priority: entry.priority,
+    waitingSince: entry.createdAt,
+  };
+}
+
+function toMatchResult(row: MatchResultRow): MatchResult {
+  return { ...row };
+}
+
+// Solo las columnas persistibles de un Game (sin id, playerIds ni waitList)
+function toGameValues(game: Partial<Game>): Partial<typeof games.$inferInsert> {
+  const values: Partial<typeof games.$inferInsert> = {};
+  if (game.gameDate !== undefined) values.gameDate = game.gameDate;
+  if (game.date !== undefined) values.date = game.date;
+  if (game.courtIds !== undefined) values.courtIds = game.courtIds;
+  if (game.status !== undefined) values.status = game.status;
+  if (game.maxPlayers !== undefined) values.maxPlayers = game.maxPlayers;
+  if (game.setsPerMatch !== undefined) values.setsPerMatch = game.setsPerMatch;
+  if (game.description !== undefined) values.description = game.description;
+  if (game.strategy !== undefined) values.strategy = game.strategy;
+  if (game.offerWindowMinutes !== undefined) values.offerWindowMinutes = game.offerWindowMinutes;
+  if (game.signupOpensAt !== undefined) values.signupOpensAt = game.signupOpensAt;
+  if (game.signupClosesAt !== undefined) values.signupClosesAt = game.signupClosesAt;
+  if (game.seriesId !== undefined) values.seriesId = game.seriesId;
+  return values;
+}
+
+function toMatchResultValues(result: Partial<MatchResult>): Partial<typeof matchResults.$inferInsert> {
+  const { id: _, ...values } = result;
+  return values;
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Player operations
+  async getPlayers(): Promise<Player[]> {
+    return this.db.select().from(players).orderBy(asc(players.id));
+  }
+
+  async getPlayer(id: number): Promise<Player | undefined> {
+    const [player] = await this.db.select().from(players).where(eq(players.id, id));
+    return player;
+  }
+
+  async createPlayer(insertPlayer: InsertPlayer): Promise<Player> {
+    const [player] = await this.db.insert(players).values({
+      ...insertPlayer,
+      alias: insertPlayer.alias || null,
+      phone: insertPlayer.phone || null,
+      affiliationNumber: insertPlayer.affiliationNumber || null,
+      role: insertPlayer.role || UserRole.PLAYER,
+      password: insertPlayer.password ? await toStoredPassword(insertPlayer.password) : null,
+      invitedBy: insertPlayer.invitedBy || null,
+      category: insertPlayer.category || null,
+      preferredSide: insertPlayer.preferredSide || null,
+      dominantHand: insertPlayer.dominantHand || null
+    }).returning();
+    return player;
+  }
+
+  async updatePlayer(id: number, playerData: Partial<InsertPlayer>): Promise<Player | undefined> {
+    if (Object.keys(playerData).length === 0) return this.getPlayer(id);
+
+    const values = { ...playerData };
+    if (values.password) {
+      values.password = await toStoredPassword(values.password);
+    }
+
+    const [player] = await this.db.update(players)
+      .set(values)
+      .where(eq(players.id, id))
+      .returning();
+    return player;
+  }
+
+  async deletePlayer(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(players).where(eq(players.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Court operations
+  async getCourts(): Promise<Court[]> {
+    return this.db.select().from(courts).orderBy(asc(courts.id));
+  }
+
+  async getCourt(id: number): Promise<Court | undefined> {
+    const [court] = await this.db.select().from(courts).where(eq(courts.id, id));
+    return court;
+  }
+
+  async createCourt(insertCourt: InsertCourt): Promise<Court> {
+    const [court] = await this.db.insert(courts).values(insertCourt).returning();
+    return court;
+  }
+
+  async deleteCourt(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(courts).where(eq(courts.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Operaciones de partidos
+  async getMatches(gameId: number): Promise<Match[]> {
+    return this.db.select().from(matches)
+      .where(eq(matches.gameId, gameId))
+      .orderBy(asc(matches.round), asc(matches.id));
+  }
+
+  async getMatch(id: number): Promise<Match | undefined> {
+    const [match] = await this.db.select().from(matches).where(eq(matches.id, id));
+    return match;
+  }
+
+  async createMatch(match: InsertMatch): Promise<Match> {
+    const [row] = await this.db.insert(matches).values(match).returning();
+    return row;
+  }
+
+  async updateMatch(id: number, matchData: Partial<InsertMatch>): Promise<Match | undefined> {
+    if (Object.keys(matchData).length === 0) return this.getMatch(id);
+
+    const [row] = await this.db.update(matches)
+      .set(matchData)
+      .where(eq(matches.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteMatch(id: number): Promise<boolean> {
+    // Los resultados del partido se eliminan en cascada
+    const deleted = await this.db.delete(matches).where(eq(matches.id, id)).returning();
+    if (deleted.length === 0) return false;
+
+    await this.calculateRankings();
+    return true;
+  }
+
+  // Match results operations
+  async getMatchResults(gameDate?: string): Promise<MatchResult[]> {
+    const rows = gameDate
+      ? await this.db.select().from(matchResults)
+          .where(eq(matchResults.gameDate, gameDate))
+          .orderBy(asc(matchResults.id))
+      : await this.db.select().from(matchResults).orderBy(asc(matchResults.id));
+    return rows.map(toMatchResult);
+  }
+
+  async saveMatchResult(result: MatchResult): Promise<MatchResult> {
+    const { id: _, ...values } = result;
+    const [row] = await this.db.insert(matchResults).values(values).returning();
+
+    // Calcular rankings después de guardar el resultado
+    await this.calculateRankings();
+
+    return toMatchResult(row);
+  }
+
+  async updateMatchResult(id: number, result: Partial<MatchResult>): Promise<MatchResult | undefined> {
+    const values = toMatchResultValues(result);
+    if (Object.keys(values).length === 0) {
+      const [existing] = await this.db.select().from(matchResults).where(eq(matchResults.id, id));
+      return existing ? toMatchResult(existing) : undefined;
+    }
+
+    const [row] = await this.db.update(matchResults)
+      .set(values)
+      .where(eq(matchResults.id, id))
+      .returning();
+    if (!row) return undefined;
+
+    // Recalcular rankings después de actualizar el resultado
+    await this.calculateRankings();
+
+    return toMatchResult(row);
+  }
+
+  // Ranking operations
+  async getPlayerRankings(): Promise<PlayerRanking[]> {
+    return this.db.select().from(playerRankings).orderBy(desc(playerRankings.points));
+  }
+
+  async updatePlayerRanking(playerId: number, data: Partial<PlayerRanking>): Promise<PlayerRanking | undefined> {
+    const { playerId: _, ...values } = data;
+    if (Object.keys(values).length === 0) {
+      const [existing] = await this.db.select().from(playerRankings)
+        .where(eq(playerRankings.playerId, playerId));
+      return existing;
+    }
+
+    const [ranking] = await this.db.update(playerRankings)
+      .set(values)
+      .where(eq(playerRankings.playerId, playerId))
+      .returning();
+    return ranking;
+  }
+
+  async calculateRankings(): Promise<void> {
+    const allPlayers = await this.getPlayers();
+    const results = await this.getMatchResults();
+    const rankings = Array.from(computeRankings(allPlayers, results).values());
+
+    // Reemplazar la tabla completa en una transacción para no dejarla a medias
+    await this.db.transaction(async (tx) => {
+      await tx.delete(playerRankings);
+      if (rankings.length > 0) {
+        await tx.insert(playerRankings).values(rankings);
+      }
+    });
+  }
+
+  // Métodos de autenticación y autorización
+  async authenticatePlayer(name: string, password: string): Promise<Player | null> {
+    const player = await this.getPlayerByName(name);
+
+    if (!player || !(await this.verifyPassword(player.id, password))) {
+      return null;
+    }
+
+    return (await this.getPlayer(player.id)) ?? null;
+  }
+
+  async getPlayerByName(name: string): Promise<Player | undefined> {
+    const [player] = await this.db.select().from(players)
+      .where(eq(players.name, name))
+      .orderBy(asc(players.id))
+      .limit(1);
+    return player;
+  }
+
+  async getPlayerByPhone(phone: string): Promise<Player | undefined> {
+    const [player] = await this.db.select().from(players)
+      .where(eq(players.phone, phone))
+      .orderBy(asc(players.id))
+      .limit(1);
+    return player;
+  }
+
+  async hasPermission(playerId: number, requiredRole: string): Promise<boolean> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return false;
+
+    return roleSatisfies(player.role, requiredRole);
+  }
+
+  async verifyPassword(playerId: number, password: string): Promise<boolean> {
+    const player = await this.getPlayer(playerId);
+    if (!player?.password || !(await matchesStoredPassword(password, player.password))) {
+      return false;
+    }
+
+    // Contraseña heredada en texto plano: se reemplaza por su hash al validarla
+    if (!isPasswordHash(player.password)) {
+      await this.updatePlayer(playerId, { password });
+    }
+
+    return true;
+  }
+
+  async createPasswordResetToken(playerId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    // Un token nuevo invalida los anteriores del mismo jugador
+    await this.db.transaction(async (tx) => {
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.playerId, playerId));
+      await tx.insert(passwordResetTokens).values({ playerId, tokenHash, expiresAt });
+    });
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<number | null> {
+    // Marcar como usado en una sola sentencia evita que el token se canjee dos veces
+    const [token] = await this.db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token?.playerId ?? null;
+  }
+
+  // Códigos de verificación por SMS
+  async savePhoneCode(phone: string, codeHash: string, expiresAt: Date): Promise<PhoneVerificationCode> {
+    const values = { codeHash, expiresAt, attempts: 0, createdAt: new Date() };
+    const [code] = await this.db.insert(phoneVerificationCodes)
+      .values({ phone, ...values })
+      .onConflictDoUpdate({ target: phoneVerificationCodes.phone, set: values })
+      .returning();
+    return code;
+  }
+
+  async getPhoneCode(phone: string): Promise<PhoneVerificationCode | undefined> {
+    const [code] = await this.db.select().from(phoneVerificationCodes)
+      .where(eq(phoneVerificationCodes.phone, phone));
+    return code;
+  }
+
+  async recordPhoneCodeAttempt(phone: string): Promise<number> {
+    // Incremento atómico para que los intentos concurrentes también cuenten
+    const [code] = await this.db.update(phoneVerificationCodes)
+      .set({ attempts: sql`${phoneVerificationCodes.attempts} + 1` })
+      .where(eq(phoneVerificationCodes.phone, phone))
+      .returning();
+    return code?.attempts ?? 0;
+  }
+
+  async deletePhoneCode(phone: string): Promise<void> {
+    await this.db.delete(phoneVerificationCodes).where(eq(phoneVerificationCodes.phone, phone));
+  }
+
+  async getPhoneCodeLimit(phone: string): Promise<PhoneCodeLimit | undefined> {
+    const [limit] = await this.db.select().from(phoneCodeLimits).where(eq(phoneCodeLimits.phone, phone));
+    return limit;
+  }
+
+  async updatePhoneCodeLimit(phone: string, changes: Partial<Omit<PhoneCodeLimit, "phone">>): Promise<void> {
+    if (Object.keys(changes).length === 0) return;
+
+    await this.db.insert(phoneCodeLimits)
+      .values({ phone, ...changes })
+      .onConflictDoUpdate({ target: phoneCodeLimits.phone, set: changes });
+  }
+
+  async recordPhoneCodeFailure(phone: string): Promise<number> {
+    // Incremento atómico para que los intentos concurrentes también cuenten
+    const [limit] = await this.db.insert(phoneCodeLimits)
+      .values({ phone, failedAttempts: 1 })
+      .onConflictDoUpdate({
+        target: phoneCodeLimits.phone,
+        set: { failedAttempts: sql`${phoneCodeLimits.failedAttempts} + 1` },
+      })
+      .returning();
+    return limit.failedAttempts;
+  }
+
+  // Implementación de operaciones de juegos
+  async getGames(): Promise<Game[]> {
+    const rows = await this.db.select().from(games).orderBy(asc(games.id));
+    const confirmed = await this.confirmedPlayerIds(rows.map(row => row.id));
+    return rows.map(row => toGame(row, confirmed.get(row.id) ?? []));
+  }
+
+  async getGame(id: number): Promise<Game | undefined> {
+    const [row] = await this.db.select().from(games).where(eq(games.id, id));
+    if (!row) return undefined;
+    const confirmed = await this.confirmedPlayerIds([row.id]);
+    return toGame(row, confirmed.get(row.id) ?? []);
+  }
+
+  async createGame(game: Omit<Game, 'id' | 'playerIds'>): Promise<Game> {
+    const [row] = await this.db.insert(games).values({
+      ...toGameValues(game),
+      gameDate: game.gameDate,
+    }).returning();
+    return toGame(row, []);
+  }
+
+  async updateGame(id: number, gameData: Partial<Game>): Promise<Game | undefined> {
+    const values = toGameValues(gameData);
+    if (Object.keys(values).length === 0) return this.getGame(id);
+
+    const [row] = await this.db.update(games)
+      .set(values)
+      .where(eq(games.id, id))
+      .returning();
+    return row ? this.getGame(row.id) : undefined;
+  }
+
+  // Series de juegos recurrentes
+  async getAllGameSeries(): Promise<GameSeries[]> {
+    return this.db.select().from(gameSeries).orderBy(asc(gameSeries.id));
+  }
+
+  async getGameSeries(id: number): Promise<GameSeries | undefined> {
+    const [series] = await this.db.select().from(gameSeries).where(eq(gameSeries.id, id));
+    return series;
+  }
+
+  async createGameSeries(series: InsertGameSeries): Promise<GameSeries> {
+    const [row] = await this.db.insert(gameSeries).values(series).returning();
+    return row;
+  }
+
+  async updateGameSeries(id: number, update: GameSeriesUpdate): Promise<GameSeries | undefined> {
+    if (Object.keys(update).length === 0) return this.getGameSeries(id);
+
+    const [row] = await this.db.update(gameSeries)
+      .set(update)
+      .where(eq(gameSeries.id, id))
+      .returning();
+    return row;
+  }
+
+  async excludeGameSeriesDate(id: number, gameDate: string): Promise<void> {
+    const series = await this.getGameSeries(id);
+    if (!series || series.excludedDates.includes(gameDate)) return;
+
+    await this.db.update(gameSeries)
+      .set({ excludedDates: [...series.excludedDates, gameDate] })
+      .where(eq(gameSeries.id, id));
+  }
+
+  async deleteGameSeries(id: number): Promise<boolean> {
+    // Los juegos de la serie quedan sin serie (on delete set null)
+    const deleted = await this.db.delete(gameSeries).where(eq(gameSeries.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Confirmados del roster de cada juego, en orden de llegada (key = gameId)
+  private async confirmedPlayerIds(gameIds: number[]): Promise<Map<number, number[]>> {
+    const confirmed = new Map<number, number[]>();
+    if (gameIds.length === 0) return confirmed;
+
+    const rows = await this.db.select({ gameId: gameRoster.gameId, playerId: gameRoster.playerId })
+      .from(gameRoster)
+      .where(and(inArray(gameRoster.gameId, gameIds), eq(gameRoster.status, RosterStatus.CONFIRMED)))
+      .orderBy(asc(gameRoster.joinedAt), asc(gameRoster.id));
+    for (const { gameId, playerId } of rows) {
+      confirmed.set(gameId, [...(confirmed.get(gameId) ?? []), playerId]);
+    }
+    return confirmed;
+  }
+
+  async deleteGame(id: number): Promise<boolean> {
+    // El roster, la lista de espera, los partidos y sus resultados se eliminan en cascada
+    const deleted = await this.db.delete(games).where(eq(games.id, id)).returning();
+    if (deleted.length === 0) return false;
+
+    await this.calculateRankings();
+    return true;
+  }
+
+  // Implementación de operaciones del roster
+  async getRoster(gameId: number): Promise<RosterEntry[]> {
+    return this.db.select().from(gameRoster)
+      .where(eq(gameRoster.gameId, gameId))
+      .orderBy(asc(gameRoster.joinedAt), asc(gameRoster.id));
+  }
+
+  async setRosterStatus(gameId: number, playerId: number, status: RosterStatusType): Promise<RosterEntry> {
+    // Quien vuelve a confirmarse pasa al final del orden de llegada
+    const joinedAt = status === RosterStatus.CONFIRMED
+      ? sql`CASE WHEN ${gameRoster.status} = ${RosterStatus.CONFIRMED} THEN ${gameRoster.joinedAt} ELSE now() END`
+      : sql`${gameRoster.joinedAt}`;
+    const [entry] = await this.db.insert(gameRoster)
+      .values({ gameId, playerId, status })
+      .onConflictDoUpdate({ target: [gameRoster.gameId, gameRoster.playerId], set: { status, joinedAt } })
+      .returning();
+    return entry;
+  }
+
+  // Implementación de operaciones de lista de espera
+  async getWaitList(gameId: number): Promise<WaitListPlayer[]> {
+    const rows = await this.db.select({ player: players, entry: waitListEntries })
+      .from(waitListEntries)
+      .innerJoin(players, eq(waitListEntries.playerId, players.id))
+      .where(eq(waitListEntries.gameId, gameId))
+      .orderBy(desc(waitListEntries.priority), asc(waitListEntries.createdAt), asc(waitListEntries.id));
+
+    return rows.map(({ player, entry }) => toWaitListPlayer(player, entry));
+  }
+
+  async addToWaitList(gameId: number, playerId: number, priority?: number): Promise<WaitListPlayer | null> {
+    const game = await this.getGame(gameId);
+    if (!game) return null;
+
+    const player = await this.getPlayer(playerId);
+    if (!player) return null;
+
+    // Si el jugador ya está en la lista de espera no se inserta nada
+    const [entry] = await this.db.insert(waitListEntries)
+      .values({ gameId, playerId, priority: priority ?? defaultWaitListPriority(player) })
+      .onConflictDoNothing()
+      .returning();
+    if (!entry) return null;
+
+    return toWaitListPlayer(player, entry);
+  }
+
+  async setWaitListPriority(gameId: number, playerId: number, priority: number): Promise<WaitListPlayer | null> {
+    const [entry] = await this.db.update(waitListEntries)
+      .set({ priority })
+      .where(and(eq(waitListEntries.gameId, gameId), eq(waitListEntries.playerId, playerId)))
+      .returning();
+    if (!entry) return null;
+
+    const player = await this.getPlayer(playerId);
+    return player ? toWaitListPlayer(player, entry) : null;
+  }
+
+  async removeFromWaitList(gameId: number, playerId: number): Promise<boolean> {
+    const deleted = await this.db.delete(waitListEntries)
+      .where(and(eq(waitListEntries.gameId, gameId), eq(waitListEntries.playerId, playerId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async moveFromWaitListToGame(gameId: number, playerId: number, details: PromotionDetails = {}): Promise<WaitListPromotion | null> {
+    return this.db.transaction(async (tx) => {
+      // Quitar de la lista de espera; si no estaba, no hay nada que promover
+      const [entry] = await tx.delete(waitListEntries)
+        .where(and(eq(waitListEntries.gameId, gameId), eq(waitListEntries.playerId, playerId)))
+        .returning();
+      if (!entry) return null;
+
+      // Confirmar al jugador en el roster del juego; re-confirmar reinicia su hora de llegada
+      const joinedAt = new Date();
+      await tx.insert(gameRoster)
+        .values({ gameId, playerId, status: RosterStatus.CONFIRMED, joinedAt })
+        .onConflictDoUpdate({ target: [gameRoster.gameId, gameRoster.playerId], set: { status: RosterStatus.CONFIRMED, joinedAt } });
+
+      const [promotion] = await tx.insert(waitListPromotions)
+        .values({
+          gameId,
+          playerId,
+          replacedPlayerId: details.replacedPlayerId ?? null,
+          promotedBy: details.promotedBy ?? null,
+          waitingSince: entry.createdAt,
+          promotedAt: joinedAt,
+        })
+        .returning();
+      return promotion;
+    });
+  }
+
+  async getWaitListPromotions(gameId: number): Promise<WaitListPromotion[]> {
+    return this.db.select()
+      .from(waitListPromotions)
+      .where(eq(waitListPromotions.gameId, gameId))
+      .orderBy(asc(waitListPromotions.promotedAt), asc(waitListPromotions.id));
+  }
+
+  // Implementación de operaciones de ofertas
+  async createWaitListOffer(offer: Pick<InsertWaitListOffer, 'gameId' | 'playerId' | 'replacedPlayerId' | 'expiresAt'>): Promise<WaitListOffer> {
+    const [created] = await this.db.insert(waitListOffers).values(offer).returning();
+    return created;
+  }
+
+  async getWaitListOffer(id: number): Promise<WaitListOffer | undefined> {
+    const [offer] = await this.db.select().from(waitListOffers).where(eq(waitListOffers.id, id));
+    return offer;
+  }
+
+  async getWaitListOffers(gameId: number): Promise<WaitListOffer[]> {
+    return this.db.select()
+      .from(waitListOffers)
+      .where(eq(waitListOffers.gameId, gameId))
+      .orderBy(asc(waitListOffers.offeredAt), asc(waitListOffers.id));
+  }
+
+  async getPendingOffersForPlayer(playerId: number): Promise<WaitListOffer[]> {
+    return this.db.select()
+      .from(waitListOffers)
+      .where(and(eq(waitListOffers.playerId, playerId), eq(waitListOffers.status, OfferStatus.PENDING)))
+      .orderBy(asc(waitListOffers.expiresAt));
+  }
+
+  async getExpiredOffers(now: Date): Promise<WaitListOffer[]> {
+    return this.db.select()
+      .from(waitListOffers)
+      .where(and(eq(waitListOffers.status, OfferStatus.PENDING), lte(waitListOffers.expiresAt, now)))
+      .orderBy(asc(waitListOffers.expiresAt), asc(waitListOffers.id));
+  }
+
+  async resolveWaitListOffer(id: number, status: OfferStatusType): Promise<WaitListOffer | undefined> {
+    // La condición sobre el estado evita que una respuesta y el vencimiento resuelvan la misma oferta
+    const [resolved] = await this.db.update(waitListOffers)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(waitListOffers.id, id), eq(waitListOffers.status, OfferStatus.PENDING)))
+      .returning();
+    return resolved;
+  }
+
+  // Implementación de operaciones de descansos
+  async getSitOutCounts(gameIds: number[]): Promise<Map<number, number>> {
+    if (gameIds.length === 0) return new Map();
+
+    const rows = await this.db.select({ playerId: sitOuts.playerId, count: sql<number>`count(*)::int` })
+      .from(sitOuts)
+      .where(inArray(sitOuts.gameId, gameIds))
+      .groupBy(sitOuts.playerId);
+    return new Map(rows.map(row => [row.playerId, row.count]));
+  }
+
+  async getGameSitOuts(gameId: number): Promise<GameSitOut[]> {
+    return this.db.select({ playerId: sitOuts.playerId, round: sitOuts.round })
+      .from(sitOuts)
+      .where(eq(sitOuts.gameId, gameId))
+      .orderBy(asc(sitOuts.round), asc(sitOuts.id));
+  }
+
+  async setGameSitOuts(gameId: number, gameSitOuts: GameSitOut[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(sitOuts).where(eq(sitOuts.gameId, gameId));
+      if (gameSitOuts.length > 0) {
+        await tx.insert(sitOuts).values(gameSitOuts.map(({ playerId, round }) => ({ gameId, playerId, round })));
+      }
+    });
+  }
+
+  // Implementación de operaciones de restricciones
+  async getPairingConstraints(gameId?: number): Promise<PairingConstraint[]> {
+    const scope = gameId === undefined
+      ? isNull(pairingConstraints.gameId)
+      : or(isNull(pairingConstraints.gameId), eq(pairingConstraints.gameId, gameId));
+    return this.db.select().from(pairingConstraints).where(scope).orderBy(asc(pairingConstraints.id));
+  }
+
+  async createPairingConstraint(constraint: InsertPairingConstraint): Promise<PairingConstraint> {
+    const [row] = await this.db.insert(pairingConstraints).values({
+      gameId: constraint.gameId ?? null,
+      kind: constraint.kind,
+      playerId: constraint.playerId,
+      otherPlayerId: constraint.otherPlayerId ?? null,
+      courtId: constraint.courtId ?? null,
+    }).returning();
+    return row;
+  }
+
+  async deletePairingConstraint(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(pairingConstraints).where(eq(pairingConstraints.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Implementación de operaciones del registro de generaciones
+  async getPairingGenerations(gameId: number): Promise<PairingGeneration[]> {
+    return this.db.select().from(pairingGenerations)
+      .where(eq(pairingGenerations.gameId, gameId))
+      .orderBy(desc(pairingGenerations.id));
+  }
+
+  async getPairingGeneration(id: number): Promise<PairingGeneration | undefined> {
+    const [row] = await this.db.select().from(pairingGenerations).where(eq(pairingGenerations.id, id));
+    return row;
+  }
+
+  async createPairingGeneration(generation: InsertPairingGeneration): Promise<PairingGeneration> {
+    const [row] = await this.db.insert(pairingGenerations).values(generation).returning();
+    return row;
+  }
+}
@@ -0,0 +1,73 @@
+import type { Court, DraftEdit, InsertMatch, Match, Pair } from "@shared/schema";
+
+// Cambios a guardar por partido, o el motivo por el que la edición no es válida
+export type DraftEditPlan =
+  | { updates: Map<number, Pick<InsertMatch, "courtId" | "courtName" | "pair1" | "pair2">> }
+  | { error: string };
+
+/**
+ * Valida la edición manual de un borrador. Solo se permite reacomodar a los jugadores
+ * que ya estaban en los partidos editados (moverlos entre parejas o canchas, o
+ * intercambiar parejas) dentro de la misma ronda; sin agregar ni quitar a nadie.
+ * Los datos de cada jugador se copian del borrador, no de la solicitud.
+ */
+export function planDraftEdit(gameMatches: Match[], edit: DraftEdit, courts: Court[]): DraftEditPlan {
+  const byId = new Map(gameMatches.map(match => [match.id, match]));
+  const editedIds = new Set<number>();
+
+  for (const { id } of edit.matches) {
+    const match = byId.get(id);
+    if (!match) return { error: `El partido #${id} no pertenece a este juego` };
+    if (match.published) return { error: `El partido #${id} ya se publicó y no se puede editar` };
+    if (editedIds.has(id)) return { error: `El partido #${id} aparece más de una vez` };
+    editedIds.add(id);
+  }
+
+  const updates = new Map<number, Pick<InsertMatch, "courtId" | "courtName" | "pair1" | "pair2">>();
+  const rounds = new Set(edit.matches.map(({ id }) => byId.get(id)!.round));
+
+  for (const round of Array.from(rounds)) {
+    const edited = edit.matches.filter(({ id }) => byId.get(id)!.round === round);
+
+    // Los jugadores de la ronda deben ser los mismos, solo reacomodados
+    const players = new Map<number, Pair["player1"]>();
+    for (const { id } of edited) {
+      const { pair1, pair2 } = byId.get(id)!;
+      for (const player of [pair1.player1, pair1.player2, pair2.player1, pair2.player2]) {
+        players.set(player.id, player);
+      }
+    }
+
+    const placed = edited.flatMap(({ pair1, pair2 }) => [pair1.player1Id, pair1.player2Id, pair2.player1Id, pair2.player2Id]);
+    if (new Set(placed).size !== placed.length) {
+      return { error: `En la ronda ${round} hay un jugador en más de un lugar` };
+    }
+    const unknown = placed.find(playerId => !players.has(playerId));
+    if (unknown !== undefined || placed.length !== players.size) {
+      return { error: `En la ronda ${round} solo se pueden reacomodar los jugadores que ya estaban en el rol` };
+    }
+
+    // Una cancha por partido en la ronda, contando los partidos que no se editan
+    const untouchedCourts = gameMatches
+      .filter(match => match.round === round && !editedIds.has(match.id))
+      .map(match => match.courtId);
+    const roundCourts = [...untouchedCourts, ...edited.map(({ courtId }) => courtId)];
+    if (new Set(roundCourts).size !== roundCourts.length) {
+      return { error: `En la ronda ${round} hay dos partidos en la misma cancha` };
+    }
+
+    for (const { id, courtId, pair1, pair2 } of edited) {
+      const court = courts.find(c => c.id === courtId);
+      if (!court) return { error: `La cancha #${courtId} no existe` };
+
+      updates.set(id, {
+        courtId,
+        courtName: court.name,
+        pair1: { player1: players.get(pair1.player1Id)!, player2: players.get(pair1.player2Id)! },
+        pair2: { player1: players.get(pair2.player1Id)!, player2: players.get(pair2.player2Id)! },
+      });
+    }
+  }
+
+  return { updates };
+}
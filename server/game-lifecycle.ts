@@ -0,0 +1,101 @@
+import {
+  GameTransitions,
+  MatchStatus,
+  OfferStatus,
+  canTransition,
+  type Game,
+  type GameTransitionType
+} from "@shared/schema";
+import { storage } from "./storage";
+import { smsSender } from "./sms";
+import { offerOpenSpots } from "./wait-list";
+
+// El juego con su nuevo estado, o el motivo por el que la transición no procede
+export type GameTransitionResult =
+  | { game: Game }
+  | { error: string };
+
+const TransitionLabels: Record<GameTransitionType, string> = {
+  "open-signups": "abrir las inscripciones de",
+  "lock-roster": "cerrar el roster de",
+  start: "empezar",
+  complete: "terminar",
+  cancel: "cancelar",
+};
+
+const StatusLabels: Record<Game["status"], string> = {
+  scheduled: "programado",
+  pending: "con inscripciones abiertas",
+  locked: "con el roster cerrado",
+  in_progress: "que ya empezó",
+  completed: "terminado",
+  cancelled: "cancelado",
+};
+
+// Solo se termina un juego con partidos y con el resultado de todos ellos
+async function completionError(gameId: number): Promise<string | null> {
+  const gameMatches = await storage.getMatches(gameId);
+  if (gameMatches.length === 0) return "El juego no tiene partidos";
+  if (gameMatches.some(match => !match.published)) {
+    return "El juego tiene un rol en borrador; publícalo o descártalo antes de terminarlo";
+  }
+
+  const missing = gameMatches.filter(match => match.status !== MatchStatus.COMPLETED).length;
+  return missing > 0 ? `Faltan los resultados de ${missing} partido(s)` : null;
+}
+
+// Los lugares ofrecidos ya no se pueden tomar; nadie más recibe una oferta
+async function closeOffers(gameId: number): Promise<void> {
+  for (const offer of await storage.getWaitListOffers(gameId)) {
+    if (offer.status === OfferStatus.PENDING) {
+      await storage.resolveWaitListOffer(offer.id, OfferStatus.EXPIRED);
+    }
+  }
+}
+
+// Avisa por SMS a los confirmados que tienen teléfono
+async function notifyCancellation(game: Game, reason?: string): Promise<void> {
+  const message = `El juego del ${game.gameDate} se canceló.` + (reason ? ` Motivo: ${reason}` : "");
+  for (const playerId of game.playerIds) {
+    const player = await storage.getPlayer(playerId);
+    if (player?.phone) {
+      await smsSender.send(player.phone, message);
+    }
+  }
+}
+
+/**
+ * Lleva un juego al siguiente estado de su ciclo de vida si la transición se permite
+ * desde el estado actual. Abrir las inscripciones ofrece los lugares libres a la lista
+ * de espera; cerrar el roster, empezar o cancelar dejan sin efecto los lugares
+ * ofrecidos; terminar exige todos los resultados y recalcula los rankings; cancelar
+ * avisa al roster.
+ */
+export async function transitionGame(game: Game, transition: GameTransitionType, reason?: string): Promise<GameTransitionResult> {
+  if (!canTransition(game.status, transition)) {
+    return { error: `No se puede ${TransitionLabels[transition]} un juego ${StatusLabels[game.status]}` };
+  }
+
+  const gameId = game.id!;
+  if (transition === "complete") {
+    const error = await completionError(gameId);
+    if (error) return { error };
+  }
+
+  const updated = await storage.updateGame(gameId, { status: GameTransitions[transition].to });
+  if (!updated) return { error: "Juego no encontrado" };
+
+  if (transition === "open-signups") {
+    await offerOpenSpots(gameId, null);
+  }
+  if (transition === "lock-roster" || transition === "start" || transition === "cancel") {
+    await closeOffers(gameId);
+  }
+  if (transition === "complete") {
+    await storage.calculateRankings();
+  }
+  if (transition === "cancel") {
+    await notifyCancellation(updated, reason);
+  }
+  return { game: updated };
+}
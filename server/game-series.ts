@@ -0,0 +1,139 @@
+import {
+  GameStatus,
+  isCapacityEditable,
+  localDate,
+  seriesDates,
+  type Game,
+  type GameSeries,
+  type GameSeriesDetails,
+  type GameSeriesUpdate
+} from "@shared/schema";
+import { storage } from "./storage";
+import { transitionGame } from "./game-lifecycle";
+import { offerOpenSpots } from "./wait-list";
+
+// Campos de un juego que salen de los valores predeterminados de su serie
+type OccurrenceDefaults = Pick<Game, "courtIds" | "setsPerMatch" | "description" | "offerWindowMinutes"> & { maxPlayers: number };
+
+const today = () => localDate();
+
+function occurrenceDefaults(series: GameSeries): OccurrenceDefaults {
+  return {
+    courtIds: series.courtIds,
+    setsPerMatch: series.setsPerMatch,
+    maxPlayers: series.maxPlayers ?? series.courtIds.length * 4, // 4 por cancha, como un juego suelto
+    description: series.description ?? "",
+    offerWindowMinutes: series.offerWindowMinutes ?? undefined,
+  };
+}
+
+// Juegos de la serie, por fecha
+export async function seriesGames(seriesId: number): Promise<Game[]> {
+  return (await storage.getGames())
+    .filter(game => game.seriesId === seriesId)
+    .sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+}
+
+export async function withGames(series: GameSeries): Promise<GameSeriesDetails> {
+  return { ...series, games: await seriesGames(series.id) };
+}
+
+/**
+ * Crea un juego por cada fecha de la serie desde fromDate que todavía no lo tenga; las
+ * fechas anteriores y las eliminadas a mano no se crean. Devuelve los juegos creados.
+ */
+export async function materializeSeries(series: GameSeries, fromDate: string = today()): Promise<Game[]> {
+  const existing = new Set((await seriesGames(series.id)).map(game => game.gameDate));
+  const created: Game[] = [];
+
+  for (const gameDate of seriesDates(series)) {
+    if (gameDate < fromDate || existing.has(gameDate) || series.excludedDates.includes(gameDate)) continue;
+    created.push(await storage.createGame({
+      ...occurrenceDefaults(series),
+      gameDate,
+      date: gameDate,
+      status: GameStatus.PENDING,
+      seriesId: series.id,
+    }));
+  }
+  return created;
+}
+
+// Fechas que la serie todavía puede cambiar: desde hoy y con el roster sin cerrar
+const isUpcoming = (game: Game) => game.gameDate >= today() && isCapacityEditable(game);
+
+// Una fecha que sale de la serie se elimina si nadie se anotó; si no, se cancela y se avisa al roster
+async function dropOccurrence(game: Game): Promise<void> {
+  const waitList = await storage.getWaitList(game.id!);
+  if (game.playerIds.length === 0 && waitList.length === 0) {
+    await storage.deleteGame(game.id!);
+  } else {
+    await transitionGame(game, "cancel", "La fecha ya no forma parte de la serie");
+  }
+}
+
+// Elimina un juego; si salió de una serie, la serie no vuelve a crear su fecha
+export async function deleteGame(id: number): Promise<boolean> {
+  const game = await storage.getGame(id);
+  if (!game) return false;
+
+  if (game.seriesId != null) {
+    await storage.excludeGameSeriesDate(game.seriesId, game.gameDate);
+  }
+  return storage.deleteGame(id);
+}
+
+// Motivo por el que la nueva capacidad no cabe en una fecha próxima, o null: los confirmados conservan su lugar
+export async function seriesCapacityError(series: GameSeries, update: GameSeriesUpdate): Promise<string | null> {
+  if (update.courtIds === undefined && update.maxPlayers === undefined) return null;
+
+  const { maxPlayers } = occurrenceDefaults({ ...series, ...update });
+  const crowded = (await seriesGames(series.id)).filter(isUpcoming).find(game => game.playerIds.length > maxPlayers);
+  return crowded
+    ? `El juego del ${crowded.gameDate} ya tiene ${crowded.playerIds.length} jugadores confirmados; la capacidad no puede ser menor`
+    : null;
+}
+
+/**
+ * Aplica los cambios de una serie de hoy en adelante. Las fechas próximas que ya no
+ * caen en la serie se quitan; las que siguen reciben solo los valores predeterminados
+ * que cambiaron, así que lo editado a mano en cada juego se conserva; y se crean las
+ * fechas nuevas. Los juegos pasados o con el roster ya cerrado no se tocan.
+ */
+export async function updateSeriesGoingForward(id: number, update: GameSeriesUpdate): Promise<GameSeriesDetails | undefined> {
+  const series = await storage.updateGameSeries(id, update);
+  if (!series) return undefined;
+
+  const defaults = occurrenceDefaults(series);
+  const changes: Partial<Game> = {};
+  if (update.courtIds !== undefined) changes.courtIds = defaults.courtIds;
+  if (update.courtIds !== undefined || update.maxPlayers !== undefined) changes.maxPlayers = defaults.maxPlayers;
+  if (update.setsPerMatch !== undefined) changes.setsPerMatch = defaults.setsPerMatch;
+  if (update.description !== undefined) changes.description = defaults.description;
+  if (update.offerWindowMinutes !== undefined) changes.offerWindowMinutes = defaults.offerWindowMinutes;
+
+  const dates = new Set(seriesDates(series));
+  for (const game of (await seriesGames(id)).filter(isUpcoming)) {
+    if (!dates.has(game.gameDate)) {
+      await dropOccurrence(game);
+    } else if (Object.keys(changes).length > 0) {
+      await storage.updateGame(game.id!, changes);
+      // Más capacidad deja lugares libres para la lista de espera
+      await offerOpenSpots(game.id!, null);
+    }
+  }
+
+  await materializeSeries(series);
+  return withGames(series);
+}
+
+// Termina una serie: quita sus fechas próximas y conserva los juegos ya jugados, sin serie
+export async function deleteSeries(id: number): Promise<boolean> {
+  const series = await storage.getGameSeries(id);
+  if (!series) return false;
+
+  for (const game of (await seriesGames(id)).filter(isUpcoming)) {
+    await dropOccurrence(game);
+  }
+  return storage.deleteGameSeries(id);
+}
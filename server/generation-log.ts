@@ -0,0 +1,45 @@
+import { randomBytes } from "crypto";
+import type { GenerationInput, GenerationOutput } from "@shared/schema";
+import { generatePairings, seededRandom } from "./pairing";
+
+// Semilla nueva cuando quien genera no indica una
+export function createSeed(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * Ejecuta el motor con las entradas de un registro y su semilla. Las entradas son
+ * una copia completa (jugadores, ranking, historial, descansos y restricciones), así
+ * que el resultado no depende del estado actual del almacenamiento.
+ */
+export function runGeneration(input: GenerationInput, seed: string): GenerationOutput {
+  return generatePairings(input.players, input.courts, input.rankings, {
+    gameDate: input.gameDate,
+    sets: input.sets,
+    strategy: input.strategy,
+    rounds: input.rounds,
+    firstRound: input.firstRound,
+    history: input.history,
+    sitOutCounts: new Map(input.sitOutCounts),
+    constraints: input.constraints,
+    random: seededRandom(seed),
+  });
+}
+
+// Lo que define un rol, una línea por partido o jugador; sirve para comparar resultados
+export function summarizeOutput(output: GenerationOutput): string[] {
+  return [
+    ...output.pairings.map(({ round, courtId, pair1, pair2 }) =>
+      `R${round ?? 1} cancha ${courtId}: ${pair1.player1.id}+${pair1.player2.id} vs ${pair2.player1.id}+${pair2.player2.id}`
+    ),
+    ...output.bench.map(player => `R${player.round} descansa ${player.id}`),
+    ...output.overflow.map(player => `espera ${player.id}`),
+  ];
+}
+
+// La base de datos no conserva el orden de las claves JSON: se comparan los resúmenes
+export function sameOutput(a: GenerationOutput, b: GenerationOutput): boolean {
+  const summaryA = summarizeOutput(a);
+  const summaryB = summarizeOutput(b);
+  return summaryA.length === summaryB.length && summaryA.every((line, i) => line === summaryB[i]);
+}
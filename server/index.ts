@@ -1,10 +1,22 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { readSeedOptions, seedStorage } from "./seed";
+import { setupSession } from "./auth";
+import { startOfferExpirySweep } from "./wait-list";
+
+// Campos que nunca deben llegar a los logs aunque aparezcan en una respuesta
+const SECRET_LOG_KEYS = new Set(["password", "token", "currentPassword", "newPassword"]);
+
+function redactSecrets(key: string, value: unknown) {
+  return SECRET_LOG_KEYS.has(key) ? "[redacted]" : value;
+}
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+setupSession(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -22,7 +34,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
 
       if (logLine.length > 80) {
@@ -37,7 +49,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Sin base de datos los datos viven en memoria: sembrar canchas y superadmin en cada arranque
+  if (!process.env.DATABASE_URL) {
+    const summary = await seedStorage(storage, readSeedOptions([], process.env));
+    if (!summary.createdAdmin) {
+      log("sin SEED_ADMIN_NAME/SEED_ADMIN_PASSWORD no se creó superadmin en memoria");
+    }
+  }
+
   const server = await registerRoutes(app);
+  startOfferExpirySweep();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
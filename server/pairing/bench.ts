@@ -0,0 +1,69 @@
+import type { BenchPlayer } from "@shared/schema";
+import { shuffle } from "./random";
+import type { PairingPlayer } from "./types";
+
+// Agrupa a los jugadores cuyo número debe quedar parejo tras elegir la banca (p. ej. por categoría)
+export type BenchGroupFn = (player: PairingPlayer) => string | null | undefined;
+
+export interface BenchSelection {
+  playing: PairingPlayer[];
+  bench: Omit<BenchPlayer, "round">[]; // La ronda la asigna quien genera el rol
+}
+
+/**
+ * Elige a los `size` jugadores que descansan esta ronda: primero los que menos veces
+ * han descansado; los empates se deciden al azar para que la rotación no dependa del
+ * orden de llegada. Con `groupOf`, la banca se reparte para que los grupos queden del
+ * mismo tamaño (si no es posible, se elige sin grupos y la estrategia lo reporta).
+ * Los jugadores de `protectedIds` nunca descansan; si no alcanzan los demás, la banca
+ * queda incompleta y quien llama lo reporta.
+ */
+export function selectBench(
+  players: PairingPlayer[],
+  size: number,
+  sitOutCounts: Map<number, number>,
+  random: () => number,
+  groupOf?: BenchGroupFn,
+  protectedIds: Set<number> = new Set()
+): BenchSelection {
+  if (size === 0) return { playing: players, bench: [] };
+
+  const timesSatOut = (player: PairingPlayer) => sitOutCounts.get(player.id) ?? 0;
+  const fairestFirst = (candidates: PairingPlayer[]) =>
+    shuffle(candidates, random).sort((a, b) => timesSatOut(a) - timesSatOut(b));
+
+  const chosen = groupedBench(players, size, groupOf)
+    .flatMap(([group, count]) =>
+      fairestFirst(group.filter(player => !protectedIds.has(player.id))).slice(0, count)
+    );
+  const chosenIds = new Set(chosen.map(player => player.id));
+
+  return {
+    // Los que juegan conservan su orden original
+    playing: players.filter(player => !chosenIds.has(player.id)),
+    bench: chosen.map(player => ({ ...player, sitOuts: timesSatOut(player) + 1 })),
+  };
+}
+
+// Cuántos jugadores de cada grupo deben descansar; un solo grupo si no hay reparto posible
+function groupedBench(
+  players: PairingPlayer[],
+  size: number,
+  groupOf?: BenchGroupFn
+): [PairingPlayer[], number][] {
+  if (!groupOf || players.some(player => !groupOf(player))) return [[players, size]];
+
+  const groups = new Map<string, PairingPlayer[]>();
+  for (const player of players) {
+    const key = groupOf(player)!;
+    groups.set(key, [...(groups.get(key) ?? []), player]);
+  }
+
+  const perGroup = (players.length - size) / groups.size;
+  const members = Array.from(groups.values());
+  if (!Number.isInteger(perGroup) || members.some(group => group.length < perGroup)) {
+    return [[players, size]];
+  }
+
+  return members.map(group => [group, group.length - perGroup]);
+}
@@ -0,0 +1,185 @@
+import { ConstraintKind, type Court, type PairingConstraint } from "@shared/schema";
+import type { Matchup } from "./strategies";
+import type { PairingPlayer } from "./types";
+
+// Lo que el motor necesita de una restricción guardada
+export type ConstraintInput = Pick<PairingConstraint, "kind" | "playerId" | "otherPlayerId" | "courtId">;
+
+// Restricciones de una ronda, indexadas por jugador para evaluarlas rápido
+export interface RoundConstraints {
+  partnerOf: Map<number, number>;
+  neverWith: Map<number, Set<number>>;
+  courtIndexOf: Map<number, number>; // Posición de la cancha entre las canchas de la ronda
+  protectedIds: Set<number>; // Jugadores que no pueden ir a la banca sin romper una restricción
+  active: ConstraintInput[];
+}
+
+const displayName = (player?: PairingPlayer) => (player ? player.alias || player.name : "un jugador ausente");
+
+// Texto de una restricción para los reportes, p. ej. "Ana y Luis deben jugar juntos"
+export function describeConstraint(
+  constraint: ConstraintInput,
+  players: Map<number, PairingPlayer>,
+  courts: Court[]
+): string {
+  const player = displayName(players.get(constraint.playerId));
+  const other = displayName(players.get(constraint.otherPlayerId ?? -1));
+
+  switch (constraint.kind) {
+    case ConstraintKind.FIXED_PARTNERS:
+      return `${player} y ${other} deben jugar juntos`;
+    case ConstraintKind.NEVER_PARTNERS:
+      return `${player} y ${other} no pueden ser pareja`;
+    case ConstraintKind.REQUIRED_COURT: {
+      const court = courts.find(c => c.id === constraint.courtId);
+      return `${player} debe jugar en ${court ? court.name : `la cancha #${constraint.courtId}`}`;
+    }
+  }
+}
+
+function addNever(neverWith: Map<number, Set<number>>, a: number, b: number) {
+  const others = neverWith.get(a) ?? new Set<number>();
+  others.add(b);
+  neverWith.set(a, others);
+}
+
+/**
+ * Prepara las restricciones de una ronda. Las que mencionan a jugadores que no están
+ * en la ronda no aplican; las que se contradicen entre sí o piden una cancha que no
+ * se usa se devuelven en `problems`, porque ningún emparejamiento podría cumplirlas.
+ */
+export function prepareConstraints(
+  constraints: ConstraintInput[],
+  players: PairingPlayer[],
+  courts: Court[]
+): { rules: RoundConstraints; problems: string[] } {
+  const byId = new Map(players.map(player => [player.id, player]));
+  const rules: RoundConstraints = {
+    partnerOf: new Map(),
+    neverWith: new Map(),
+    courtIndexOf: new Map(),
+    protectedIds: new Set(),
+    active: [],
+  };
+  const problems: string[] = [];
+  const describe = (constraint: ConstraintInput) => describeConstraint(constraint, byId, courts);
+
+  const applies = (constraint: ConstraintInput) =>
+    byId.has(constraint.playerId) &&
+    (constraint.kind === ConstraintKind.REQUIRED_COURT || byId.has(constraint.otherPlayerId ?? -1));
+
+  for (const constraint of constraints.filter(applies)) {
+    const { playerId } = constraint;
+    const otherId = constraint.otherPlayerId!;
+
+    if (constraint.kind === ConstraintKind.FIXED_PARTNERS) {
+      const current = [rules.partnerOf.get(playerId), rules.partnerOf.get(otherId)];
+      if (current.some(partner => partner !== undefined && partner !== playerId && partner !== otherId)) {
+        problems.push(`${describe(constraint)}, pero uno de los dos ya tiene otra pareja fija`);
+        continue;
+      }
+      rules.partnerOf.set(playerId, otherId);
+      rules.partnerOf.set(otherId, playerId);
+      rules.protectedIds.add(playerId);
+      rules.protectedIds.add(otherId);
+    } else if (constraint.kind === ConstraintKind.NEVER_PARTNERS) {
+      addNever(rules.neverWith, playerId, otherId);
+      addNever(rules.neverWith, otherId, playerId);
+    } else {
+      const courtIndex = courts.findIndex(court => court.id === constraint.courtId);
+      if (courtIndex === -1) {
+        problems.push(`${describe(constraint)}, pero esa cancha no se usa en este rol`);
+        continue;
+      }
+      if (rules.courtIndexOf.has(playerId) && rules.courtIndexOf.get(playerId) !== courtIndex) {
+        problems.push(`${describe(constraint)}, pero ya tiene otra cancha obligatoria`);
+        continue;
+      }
+      rules.courtIndexOf.set(playerId, courtIndex);
+      rules.protectedIds.add(playerId);
+    }
+
+    rules.active.push(constraint);
+  }
+
+  // Contradicciones entre restricciones de distinto tipo
+  for (const [playerId, partnerId] of Array.from(rules.partnerOf)) {
+    if (playerId > partnerId) continue;
+    const pair = { kind: ConstraintKind.FIXED_PARTNERS, playerId, otherPlayerId: partnerId, courtId: null };
+
+    if (rules.neverWith.get(playerId)?.has(partnerId)) {
+      problems.push(`${describe(pair)}, pero también tienen prohibido ser pareja`);
+    }
+
+    const courtA = rules.courtIndexOf.get(playerId);
+    const courtB = rules.courtIndexOf.get(partnerId);
+    if (courtA !== undefined && courtB !== undefined && courtA !== courtB) {
+      problems.push(`${describe(pair)}, pero tienen canchas obligatorias distintas`);
+    }
+  }
+
+  courts.forEach((court, index) => {
+    const required = Array.from(rules.courtIndexOf.values()).filter(courtIndex => courtIndex === index).length;
+    if (required > 4) {
+      problems.push(`${required} jugadores deben jugar en ${court.name}, pero en una cancha solo caben 4`);
+    }
+  });
+
+  return { rules, problems };
+}
+
+// Restricciones que rompe un partido; `slots` son sus 4 jugadores (pareja 1, pareja 2)
+export function matchupViolations(
+  rules: RoundConstraints,
+  slots: PairingPlayer[],
+  matchupIndex: number
+): number {
+  let violations = 0;
+
+  slots.forEach((player, i) => {
+    const partner = slots[i % 2 === 0 ? i + 1 : i - 1];
+
+    const fixedPartner = rules.partnerOf.get(player.id);
+    if (fixedPartner !== undefined && fixedPartner !== partner.id) violations++;
+    if (rules.neverWith.get(player.id)?.has(partner.id)) violations++;
+
+    const courtIndex = rules.courtIndexOf.get(player.id);
+    if (courtIndex !== undefined && courtIndex !== matchupIndex) violations++;
+  });
+
+  return violations;
+}
+
+// Describe las restricciones que siguen sin cumplirse en los enfrentamientos finales
+export function findViolations(
+  rules: RoundConstraints,
+  matchups: Matchup[],
+  players: PairingPlayer[],
+  courts: Court[]
+): string[] {
+  const byId = new Map(players.map(player => [player.id, player]));
+  const positions = new Map<number, { matchup: number; partner: number }>();
+  matchups.forEach(([pair1, pair2], matchup) => {
+    for (const pair of [pair1, pair2]) {
+      positions.set(pair.player1.id, { matchup, partner: pair.player2.id });
+      positions.set(pair.player2.id, { matchup, partner: pair.player1.id });
+    }
+  });
+
+  return rules.active
+    .filter(constraint => {
+      // Quien descansa no rompe una pareja prohibida; las demás restricciones lo protegen de la banca
+      const position = positions.get(constraint.playerId);
+      if (!position) return constraint.kind !== ConstraintKind.NEVER_PARTNERS;
+
+      switch (constraint.kind) {
+        case ConstraintKind.FIXED_PARTNERS:
+          return position.partner !== constraint.otherPlayerId;
+        case ConstraintKind.NEVER_PARTNERS:
+          return position.partner === constraint.otherPlayerId;
+        case ConstraintKind.REQUIRED_COURT:
+          return position.matchup !== rules.courtIndexOf.get(constraint.playerId);
+      }
+    })
+    .map(constraint => `No se pudo cumplir: ${describeConstraint(constraint, byId, courts)}`);
+}
@@ -0,0 +1,184 @@
+import { PairingStrategy, courtBalance, type BenchPlayer, type Court, type CourtPairing, type Pair, type PlayerRanking } from "@shared/schema";
+import { selectBench } from "./bench";
+import { findViolations, matchupViolations, prepareConstraints, type ConstraintInput } from "./constraints";
+import { buildPairingHistory, describeNovelty, type PastMatch } from "./history";
+import { reduceRepetition } from "./optimize";
+import { hasSidePreferences, orderBySide } from "./sides";
+import { pairingStrategies, type PairingStrategyDefinition, type StrategyContext } from "./strategies";
+import {
+  PairingConstraintError,
+  PairingError,
+  type PairingOptions,
+  type PairingPlayer,
+  type PairingResult
+} from "./types";
+
+/**
+ * Genera los partidos de una jornada a partir de los jugadores, las canchas y los
+ * rankings. Es una función pura: no consulta ni modifica el almacenamiento.
+ *
+ * Los jugadores que exceden la capacidad de las canchas (4 por cancha) se devuelven
+ * en `overflow`, en el mismo orden en que llegaron. Si los que caben no son múltiplo
+ * de 4, los sobrantes descansan (`bench`), rotando según `sitOutCounts`. Si se pasa
+ * `history`, cada emparejamiento incluye `novelty` con las parejas y rivales que se repiten.
+ *
+ * Con `rounds` > 1 se genera una sesión tipo Americano: las mismas canchas se reutilizan
+ * en cada ronda y las rondas anteriores cuentan como historial, para que parejas y
+ * rivales vayan rotando. La banca también rota de una ronda a otra. El Mexicano depende
+ * de los resultados de cada ronda, así que se genera de una en una (`firstRound`).
+ *
+ * Las `constraints` se cumplen en cada ronda aunque haya que romper el formato de la
+ * estrategia; si alguna es imposible se lanza PairingConstraintError con el detalle.
+ * Dentro de lo que permite la estrategia, cada pareja junta a un drive con un revés
+ * (player1 juega de drive y player2 de revés cuando se conoce su lado).
+ *
+ * Cada emparejamiento incluye `balance`: el rating de cada pareja (la suma de sus
+ * puntos), la diferencia entre ambos y la probabilidad de victoria de cada una.
+ */
+export function generatePairings(
+  players: PairingPlayer[],
+  courts: Court[],
+  rankings: Pick<PlayerRanking, "playerId" | "points">[], // Solo importan los puntos
+  options: PairingOptions
+): PairingResult {
+  if (players.length < 4) {
+    throw new PairingError("Se necesitan al menos 4 jugadores para generar parejas");
+  }
+
+  if (courts.length === 0) {
+    throw new PairingError("No hay canchas disponibles para generar parejas");
+  }
+
+  const rounds = options.rounds ?? 1;
+  if (options.strategy === PairingStrategy.MEXICANO && rounds > 1) {
+    throw new PairingError("El formato Mexicano genera una ronda a la vez, a partir de los resultados de la anterior");
+  }
+
+  // Si hay más jugadores que la capacidad máxima, el resto va a la lista de espera
+  const maxPlayers = courts.length * 4;
+  const eligiblePlayers = players.slice(0, maxPlayers);
+  const overflow = players.slice(maxPlayers);
+
+  const points = new Map(rankings.map(ranking => [ranking.playerId, ranking.points]));
+  const strategy = pairingStrategies[options.strategy ?? PairingStrategy.BALANCED];
+  const context: StrategyContext = {
+    points: (playerId) => points.get(playerId) ?? 0,
+    random: options.random ?? Math.random,
+  };
+
+  const pastMatches = [...(options.history ?? [])];
+  const sitOutCounts = new Map(options.sitOutCounts ?? []);
+  const pairings: CourtPairing[] = [];
+  const bench: BenchPlayer[] = [];
+
+  const firstRound = options.firstRound ?? 1;
+  for (let round = firstRound; round < firstRound + rounds; round++) {
+    const result = generateRound(eligiblePlayers, courts, strategy, context, {
+      gameDate: options.gameDate,
+      sets: options.sets,
+      round,
+      history: pastMatches,
+      sitOutCounts,
+      withNovelty: options.history !== undefined,
+      constraints: options.constraints ?? [],
+    });
+
+    // Lo generado en esta ronda cuenta para las siguientes
+    pastMatches.push(...result.pairings);
+    for (const player of result.bench) {
+      sitOutCounts.set(player.id, player.sitOuts);
+    }
+
+    pairings.push(...result.pairings);
+    bench.push(...result.bench);
+  }
+
+  return { pairings, overflow, bench };
+}
+
+interface RoundOptions {
+  gameDate: string;
+  sets: number;
+  round: number;
+  history: PastMatch[]; // Juegos anteriores más las rondas ya generadas
+  sitOutCounts: Map<number, number>;
+  withNovelty: boolean;
+  constraints: ConstraintInput[];
+}
+
+// Una ronda: elige la banca y enfrenta al resto en las primeras canchas
+function generateRound(
+  eligiblePlayers: PairingPlayer[],
+  courts: Court[],
+  strategy: PairingStrategyDefinition,
+  context: StrategyContext,
+  options: RoundOptions
+): { pairings: CourtPairing[]; bench: BenchPlayer[] } {
+  // Limitamos las canchas a las necesarias
+  const selectedCourts = courts.slice(0, Math.floor(eligiblePlayers.length / 4));
+
+  const { rules, problems } = prepareConstraints(options.constraints, eligiblePlayers, selectedCourts);
+  if (problems.length > 0) {
+    throw new PairingConstraintError(problems);
+  }
+
+  // Los que no completan una cancha descansan esta ronda
+  const benchSize = eligiblePlayers.length % 4;
+  const { playing, bench } = selectBench(
+    eligiblePlayers,
+    benchSize,
+    options.sitOutCounts,
+    context.random,
+    strategy.benchGroup,
+    rules.protectedIds
+  );
+  if (bench.length < benchSize) {
+    throw new PairingConstraintError([
+      `Deben descansar ${benchSize} jugadores, pero solo ${bench.length} no tienen pareja fija ni cancha obligatoria`
+    ]);
+  }
+
+  let matchups = strategy.build(playing, context);
+
+  // Con historial, ajustar para no repetir parejas ni rivales de los juegos (y rondas) anteriores;
+  // con restricciones, además, cumplirlas, y con lados preferidos, complementarlos
+  const history = buildPairingHistory(options.history);
+  const hasConstraints = rules.active.length > 0;
+  const penalty = hasConstraints
+    ? (slots: PairingPlayer[], matchupIndex: number) => matchupViolations(rules, slots, matchupIndex)
+    : undefined;
+  if (options.history.length > 0 || hasConstraints || hasSidePreferences(playing)) {
+    matchups = reduceRepetition(matchups, history, context, strategy.repetition, penalty);
+  }
+
+  // Si el formato no deja cumplir las restricciones (p. ej. niveles por cancha), se relaja
+  if (hasConstraints && (strategy.repetition.scope === "same_matchup" || strategy.repetition.scope === "none") &&
+      findViolations(rules, matchups, playing, selectedCourts).length > 0) {
+    matchups = reduceRepetition(matchups, history, context, { ...strategy.repetition, scope: "any" }, penalty);
+  }
+
+  const violations = hasConstraints ? findViolations(rules, matchups, playing, selectedCourts) : [];
+  if (violations.length > 0) {
+    throw new PairingConstraintError(violations);
+  }
+
+  const pairRating = (pair: Pair) => context.points(pair.player1.id) + context.points(pair.player2.id);
+
+  // Los enfrentamientos se asignan a las canchas en el orden que los devuelve la estrategia
+  const pairings: CourtPairing[] = matchups.map(([pair1, pair2], i) => ({
+    courtId: selectedCourts[i].id,
+    courtName: selectedCourts[i].name,
+    pair1: orderBySide(pair1),
+    pair2: orderBySide(pair2),
+    sets: options.sets,
+    gameDate: options.gameDate,
+    round: options.round,
+    balance: courtBalance(pairRating(pair1), pairRating(pair2)),
+    ...(options.withNovelty ? { novelty: describeNovelty(history, pair1, pair2) } : {})
+  }));
+
+  return {
+    pairings,
+    bench: bench.map(player => ({ ...player, round: options.round })),
+  };
+}
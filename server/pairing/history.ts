@@ -0,0 +1,83 @@
+import type { Pair, PairingNovelty } from "@shared/schema";
+import type { PairingPlayer } from "./types";
+
+// Partido anterior: solo importan las parejas
+export interface PastMatch {
+  pair1: Pair;
+  pair2: Pair;
+}
+
+// Veces que cada par de jugadores fue pareja o rival en los partidos anteriores
+export interface PairingHistory {
+  partners: Map<string, number>;
+  opponents: Map<string, number>;
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+function increment(counts: Map<string, number>, a: number, b: number) {
+  const key = pairKey(a, b);
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+export function buildPairingHistory(matches: PastMatch[]): PairingHistory {
+  const history: PairingHistory = { partners: new Map(), opponents: new Map() };
+
+  for (const { pair1, pair2 } of matches) {
+    increment(history.partners, pair1.player1.id, pair1.player2.id);
+    increment(history.partners, pair2.player1.id, pair2.player2.id);
+    for (const a of [pair1.player1, pair1.player2]) {
+      for (const b of [pair2.player1, pair2.player2]) {
+        increment(history.opponents, a.id, b.id);
+      }
+    }
+  }
+
+  return history;
+}
+
+export function partnerCount(history: PairingHistory, a: number, b: number): number {
+  return history.partners.get(pairKey(a, b)) ?? 0;
+}
+
+export function opponentCount(history: PairingHistory, a: number, b: number): number {
+  return history.opponents.get(pairKey(a, b)) ?? 0;
+}
+
+const displayName = (player: PairingPlayer) => player.alias || player.name;
+const times = (count: number) => (count === 1 ? "1 vez" : `${count} veces`);
+
+// Resume cuántas repeticiones tiene un partido y las explica con nombres
+export function describeNovelty(history: PairingHistory, pair1: Pair, pair2: Pair): PairingNovelty {
+  const details: string[] = [];
+  let partnerRepeats = 0;
+  let opponentRepeats = 0;
+
+  for (const pair of [pair1, pair2]) {
+    const count = partnerCount(history, pair.player1.id, pair.player2.id);
+    if (count > 0) {
+      partnerRepeats += count;
+      details.push(`${displayName(pair.player1)} y ${displayName(pair.player2)} ya jugaron juntos ${times(count)}`);
+    }
+  }
+
+  for (const a of [pair1.player1, pair1.player2]) {
+    for (const b of [pair2.player1, pair2.player2]) {
+      const count = opponentCount(history, a.id, b.id);
+      if (count > 0) {
+        opponentRepeats += count;
+        details.push(`${displayName(a)} ya enfrentó a ${displayName(b)} ${times(count)}`);
+      }
+    }
+  }
+
+  return {
+    partnerRepeats,
+    opponentRepeats,
+    explanation: details.length > 0
+      ? details.join("; ")
+      : "Parejas y rivales nuevos respecto a los juegos anteriores",
+  };
+}
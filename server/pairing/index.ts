@@ -0,0 +1,5 @@
+// Motor de emparejamientos: lógica pura, independiente de Express y del almacenamiento
+export { generatePairings } from "./generate";
+export { PairingConstraintError, PairingError, toPairingPlayer, type PairingOptions, type PairingPlayer, type PairingResult } from "./types";
+export { type PastMatch } from "./history";
+export { seededRandom } from "./random";
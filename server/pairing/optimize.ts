@@ -0,0 +1,114 @@
+import { opponentCount, partnerCount, type PairingHistory } from "./history";
+import { sideClash } from "./sides";
+import type { Matchup, StrategyContext } from "./strategies";
+import type { PairingPlayer } from "./types";
+
+// Qué intercambios de jugadores conservan el formato de la estrategia
+export type SwapScope =
+  | "any" // Cualquier jugador con cualquier otro
+  | "same_matchup" // Solo dentro del mismo partido (p. ej. niveles por cancha)
+  | "same_category" // Solo entre jugadores de la misma categoría (parejas mixtas)
+  | "none"; // Ninguno: el formato fija parejas y rivales (Mexicano)
+
+export interface RepetitionSettings {
+  scope: SwapScope;
+  balance: boolean; // Penalizar partidos desequilibrados por ranking
+}
+
+// Pesos del costo: repetir pareja molesta más que repetir rival
+const PARTNER_REPEAT_COST = 2;
+const OPPONENT_REPEAT_COST = 1;
+const IMBALANCE_COST = 2; // Por cada "rango de puntos" de diferencia entre parejas
+const SIDE_CLASH_COST = 1; // Pareja de dos drives o dos reveses: se prefiere evitar, como repetir rival
+const CONSTRAINT_COST = 100; // Romper una restricción pesa más que cualquier repetición
+const MAX_ITERATIONS = 200;
+
+// Restricciones que rompe un partido (sus 4 jugadores y su posición, que es la de su cancha)
+export type MatchupPenalty = (slots: PairingPlayer[], matchupIndex: number) => number;
+
+/**
+ * Mejora los enfrentamientos de una estrategia intercambiando jugadores mientras
+ * baje el costo de repetir parejas y rivales de los juegos anteriores, el de juntar
+ * a dos jugadores del mismo lado y, si se pasa `penalty`, el de romper restricciones
+ * del organizador.
+ * Búsqueda local determinista: siempre aplica el mejor intercambio disponible.
+ */
+export function reduceRepetition(
+  matchups: Matchup[],
+  history: PairingHistory,
+  context: StrategyContext,
+  settings: RepetitionSettings,
+  penalty?: MatchupPenalty
+): Matchup[] {
+  // Posiciones: 4 por partido (0-1 pareja 1, 2-3 pareja 2)
+  const slots: PairingPlayer[] = matchups.flatMap(([pair1, pair2]) => [
+    pair1.player1, pair1.player2, pair2.player1, pair2.player2
+  ]);
+
+  const allPoints = slots.map(player => context.points(player.id));
+  const pointsRange = Math.max(1, Math.max(...allPoints) - Math.min(...allPoints));
+
+  const matchupCost = (m: number) => {
+    const [a, b, c, d] = slots.slice(m * 4, m * 4 + 4);
+    let cost = PARTNER_REPEAT_COST * (partnerCount(history, a.id, b.id) + partnerCount(history, c.id, d.id));
+    cost += SIDE_CLASH_COST * (sideClash(a, b) + sideClash(c, d));
+    for (const x of [a, b]) {
+      for (const y of [c, d]) {
+        cost += OPPONENT_REPEAT_COST * opponentCount(history, x.id, y.id);
+      }
+    }
+    if (settings.balance) {
+      const diff = context.points(a.id) + context.points(b.id) - context.points(c.id) - context.points(d.id);
+      cost += IMBALANCE_COST * Math.abs(diff) / pointsRange;
+    }
+    if (penalty) {
+      cost += CONSTRAINT_COST * penalty([a, b, c, d], m);
+    }
+    return cost;
+  };
+
+  const canSwap = (i: number, j: number) => {
+    const sameMatchup = Math.floor(i / 4) === Math.floor(j / 4);
+    // Dentro de la misma pareja el intercambio no cambia nada
+    if (sameMatchup && Math.floor(i / 2) === Math.floor(j / 2)) return false;
+    if (settings.scope === "none") return false;
+    if (settings.scope === "same_matchup") return sameMatchup;
+    if (settings.scope === "same_category") return slots[i].category === slots[j].category;
+    return true;
+  };
+
+  const swap = (i: number, j: number) => {
+    [slots[i], slots[j]] = [slots[j], slots[i]];
+  };
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let best: { i: number; j: number; gain: number } | null = null;
+
+    for (let i = 0; i < slots.length; i++) {
+      for (let j = i + 1; j < slots.length; j++) {
+        if (!canSwap(i, j)) continue;
+
+        const affected = Array.from(new Set([Math.floor(i / 4), Math.floor(j / 4)]));
+        const before = affected.reduce((sum, m) => sum + matchupCost(m), 0);
+        swap(i, j);
+        const after = affected.reduce((sum, m) => sum + matchupCost(m), 0);
+        swap(i, j);
+
+        const gain = before - after;
+        if (gain > 1e-9 && (!best || gain > best.gain)) {
+          best = { i, j, gain };
+        }
+      }
+    }
+
+    if (!best) break;
+    swap(best.i, best.j);
+  }
+
+  const improved: Matchup[] = [];
+  for (let m = 0; m < matchups.length; m++) {
+    const [a, b, c, d] = slots.slice(m * 4, m * 4 + 4);
+    improved.push([{ player1: a, player2: b }, { player1: c, player2: d }]);
+  }
+  return improved;
+}
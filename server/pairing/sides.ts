@@ -0,0 +1,35 @@
+import { DominantHand, PlayerSide, type Pair } from "@shared/schema";
+import type { PairingPlayer } from "./types";
+
+// Lado en que jugará alguien dentro de su pareja; null si le da igual
+type CourtSide = typeof PlayerSide.DRIVE | typeof PlayerSide.REVES | null;
+
+// El lado preferido manda; sin él, un zurdo se asume de revés y un diestro no tiene preferencia
+export function courtSide(player: PairingPlayer): CourtSide {
+  if (player.preferredSide === PlayerSide.DRIVE || player.preferredSide === PlayerSide.REVES) {
+    return player.preferredSide;
+  }
+  if (!player.preferredSide && player.dominantHand === DominantHand.LEFT) {
+    return PlayerSide.REVES;
+  }
+  return null;
+}
+
+// 1 si los dos quieren el mismo lado (dos drives o dos reveses), 0 si se complementan
+export function sideClash(a: PairingPlayer, b: PairingPlayer): number {
+  const sideA = courtSide(a);
+  return sideA !== null && sideA === courtSide(b) ? 1 : 0;
+}
+
+export function hasSidePreferences(players: PairingPlayer[]): boolean {
+  return players.some(player => courtSide(player) !== null);
+}
+
+// Deja en player1 a quien juega de drive y en player2 a quien juega de revés
+export function orderBySide(pair: Pair): Pair {
+  const { player1, player2 } = pair;
+  const swapped = courtSide(player1) === PlayerSide.REVES
+    ? courtSide(player2) !== PlayerSide.REVES
+    : courtSide(player2) === PlayerSide.DRIVE && courtSide(player1) === null;
+  return swapped ? { player1: player2, player2: player1 } : pair;
+}
@@ -0,0 +1,122 @@
+import { PairingStrategy, type Pair, type PairingStrategyType } from "@shared/schema";
+import type { BenchGroupFn } from "./bench";
+import type { RepetitionSettings } from "./optimize";
+import { shuffle } from "./random";
+import { PairingError, type PairingPlayer } from "./types";
+
+export interface StrategyContext {
+  points: (playerId: number) => number;
+  random: () => number;
+}
+
+// Dos parejas que se enfrentan en una cancha
+export type Matchup = [Pair, Pair];
+
+// Recibe un múltiplo de 4 jugadores y devuelve los enfrentamientos, del primero al último
+export type PairingStrategyFn = (players: PairingPlayer[], context: StrategyContext) => Matchup[];
+
+function byPointsDesc(context: StrategyContext) {
+  return (a: PairingPlayer, b: PairingPlayer) => context.points(b.id) - context.points(a.id);
+}
+
+// Ordena las parejas por puntuación combinada y enfrenta la primera con la última, la segunda con la penúltima...
+function matchBalancedPairs(pairs: Pair[], context: StrategyContext): Matchup[] {
+  const pairScore = (pair: Pair) => context.points(pair.player1.id) + context.points(pair.player2.id);
+  const sortedPairs = [...pairs].sort((a, b) => pairScore(b) - pairScore(a));
+
+  const matchups: Matchup[] = [];
+  for (let i = 0; i < sortedPairs.length / 2; i++) {
+    matchups.push([sortedPairs[i], sortedPairs[sortedPairs.length - 1 - i]]);
+  }
+  return matchups;
+}
+
+// Parejas y enfrentamientos al azar
+const random: PairingStrategyFn = (players, context) => {
+  const shuffled = shuffle(players, context.random);
+
+  const matchups: Matchup[] = [];
+  for (let i = 0; i < shuffled.length; i += 4) {
+    matchups.push([
+      { player1: shuffled[i], player2: shuffled[i + 1] },
+      { player1: shuffled[i + 2], player2: shuffled[i + 3] }
+    ]);
+  }
+  return matchups;
+};
+
+// Sistema de "serpiente": 1+8, 2+7, 3+6, 4+5...
+const balanced: PairingStrategyFn = (players, context) => {
+  const sortedPlayers = [...players].sort(byPointsDesc(context));
+
+  const pairs: Pair[] = [];
+  for (let i = 0; i < sortedPlayers.length / 2; i++) {
+    pairs.push({
+      player1: sortedPlayers[i],
+      player2: sortedPlayers[sortedPlayers.length - 1 - i]
+    });
+  }
+  return matchBalancedPairs(pairs, context);
+};
+
+// Niveles de 4 jugadores por ranking; la primera cancha es la de los más fuertes.
+// Dentro de cada nivel, 1+4 contra 2+3 para que el partido quede parejo
+const kingOfTheCourt: PairingStrategyFn = (players, context) => {
+  const sortedPlayers = [...players].sort(byPointsDesc(context));
+
+  const matchups: Matchup[] = [];
+  for (let i = 0; i < sortedPlayers.length; i += 4) {
+    const [first, second, third, fourth] = sortedPlayers.slice(i, i + 4);
+    matchups.push([
+      { player1: first, player2: fourth },
+      { player1: second, player2: third }
+    ]);
+  }
+  return matchups;
+};
+
+// Cada pareja tiene un jugador de cada categoría: el mejor de una con el peor de la otra
+const mixed: PairingStrategyFn = (players, context) => {
+  const uncategorized = players.filter(player => !player.category);
+  if (uncategorized.length > 0) {
+    throw new PairingError(
+      `Para parejas mixtas todos los jugadores necesitan categoría (faltan: ${uncategorized.map(p => p.name).join(", ")})`
+    );
+  }
+
+  const groups = new Map<string, PairingPlayer[]>();
+  for (const player of players) {
+    groups.set(player.category!, [...(groups.get(player.category!) ?? []), player]);
+  }
+
+  const [first = [], second = [], ...rest] = Array.from(groups.values());
+  if (rest.length > 0 || first.length !== second.length) {
+    throw new PairingError("Para parejas mixtas se necesita el mismo número de jugadores de dos categorías");
+  }
+
+  const strongest = [...first].sort(byPointsDesc(context));
+  const weakest = [...second].sort(byPointsDesc(context)).reverse();
+  const pairs: Pair[] = strongest.map((player, i) => ({ player1: player, player2: weakest[i] }));
+
+  return matchBalancedPairs(pairs, context);
+};
+
+export interface PairingStrategyDefinition {
+  build: PairingStrategyFn;
+  repetition: RepetitionSettings; // Ajustes permitidos para evitar repeticiones sin romper el formato
+  benchGroup?: BenchGroupFn; // Grupos que deben quedar parejos al elegir quién descansa
+}
+
+export const pairingStrategies: Record<PairingStrategyType, PairingStrategyDefinition> = {
+  [PairingStrategy.RANDOM]: { build: random, repetition: { scope: "any", balance: false } },
+  [PairingStrategy.BALANCED]: { build: balanced, repetition: { scope: "any", balance: true } },
+  [PairingStrategy.KING_OF_THE_COURT]: { build: kingOfTheCourt, repetition: { scope: "same_matchup", balance: true } },
+  // Mismo reparto por niveles; los puntos son los acumulados en la sesión (ver rounds/next).
+  // El 1+4 contra 2+3 se respeta aunque repita parejas de rondas anteriores
+  [PairingStrategy.MEXICANO]: { build: kingOfTheCourt, repetition: { scope: "none", balance: true } },
+  [PairingStrategy.MIXED]: {
+    build: mixed,
+    repetition: { scope: "same_category", balance: true },
+    benchGroup: (player) => player.category,
+  },
+};
@@ -0,0 +1,54 @@
+import type { BenchPlayer, CourtPairing, Pair, PairingStrategyType, Player } from "@shared/schema";
+import type { ConstraintInput } from "./constraints";
+import type { PastMatch } from "./history";
+
+// Jugador tal como se copia a una pareja (sin contraseña)
+export type PairingPlayer = Pair["player1"];
+
+export function toPairingPlayer(player: Player): PairingPlayer {
+  return {
+    id: player.id,
+    name: player.name,
+    alias: player.alias,
+    phone: player.phone,
+    affiliationNumber: player.affiliationNumber,
+    role: player.role,
+    category: player.category,
+    preferredSide: player.preferredSide,
+    dominantHand: player.dominantHand,
+  };
+}
+
+export interface PairingOptions {
+  gameDate: string;
+  sets: number;
+  strategy?: PairingStrategyType; // Por defecto, balanced
+  random?: () => number; // Fuente de azar; por defecto Math.random
+  history?: PastMatch[]; // Partidos de la ventana de juegos anteriores
+  sitOutCounts?: Map<number, number>; // Veces que cada jugador ha descansado antes
+  rounds?: number; // Rondas de la sesión; por defecto 1
+  firstRound?: number; // Número de la primera ronda generada (para continuar una sesión)
+  constraints?: ConstraintInput[]; // Parejas fijas, parejas prohibidas y canchas obligatorias
+}
+
+export interface PairingResult {
+  pairings: CourtPairing[]; // De todas las rondas, en orden (cada uno con su `round`)
+  overflow: PairingPlayer[]; // Jugadores que no caben en las canchas (van a lista de espera)
+  bench: BenchPlayer[]; // Jugadores que descansan porque su número no completa una cancha
+}
+
+// Error de validación de la entrada; el mensaje se muestra tal cual al usuario
+export class PairingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PairingError";
+  }
+}
+
+// Restricciones imposibles de cumplir; `violations` explica cada una al organizador
+export class PairingConstraintError extends PairingError {
+  constructor(public violations: string[]) {
+    super("No se pueden cumplir todas las restricciones de emparejamiento");
+    this.name = "PairingConstraintError";
+  }
+}
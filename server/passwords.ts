@@ -0,0 +1,51 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Formato almacenado: scrypt$<sal>$<hash>, ambos en hexadecimal
+const HASH_PREFIX = "scrypt$";
+const KEY_LENGTH = 64;
+
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith(HASH_PREFIX);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${HASH_PREFIX}${salt}$${derived.toString("hex")}`;
+}
+
+// Valor a persistir: nunca se guarda una contraseña en texto plano
+export async function toStoredPassword(password: string): Promise<string> {
+  return isPasswordHash(password) ? password : hashPassword(password);
+}
+
+/**
+ * Compara una contraseña con la almacenada. Acepta también contraseñas heredadas
+ * en texto plano para que el llamador pueda migrarlas a hash tras validarlas.
+ */
+export async function matchesStoredPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return derived.length === expected.length && timingSafeEqual(derived, expected);
+}
+
+// Tokens de un solo uso: al cliente se entrega el token y solo se guarda su SHA-256
+export function generateToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,79 @@
+import {
+  UserRole,
+  isMatchParticipant,
+  roleSatisfies,
+  type InsertPlayer,
+  type Match,
+  type Player,
+  type UserRoleType,
+  type WaitListOffer
+} from "@shared/schema";
+
+/**
+ * Matriz de permisos: rol mínimo requerido para cada acción mutante. Las rutas la
+ * aplican con roleMiddleware; las acciones abiertas a jugadores tienen además
+ * reglas por recurso (ver más abajo).
+ */
+export const Permissions = {
+  createPlayer: UserRole.ADMIN,
+  updatePlayer: UserRole.PLAYER, // Restringido por editablePlayerFields
+  deletePlayer: UserRole.ADMIN,
+  invitePlayer: UserRole.PLAYER,
+  selectPlayer: UserRole.ADMIN,
+  promotePlayer: UserRole.ADMIN,
+  resetPlayerPassword: UserRole.SUPERADMIN,
+  changeOwnPassword: UserRole.ADMIN,
+  createCourt: UserRole.ADMIN,
+  deleteCourt: UserRole.ADMIN,
+  enterMatchResult: UserRole.PLAYER, // Restringido por canEnterMatchResult
+  manageGames: UserRole.ADMIN,
+  manageMatches: UserRole.ADMIN,
+  generatePairings: UserRole.ADMIN,
+  manageConstraints: UserRole.ADMIN,
+  viewGenerationLog: UserRole.ADMIN, // Incluye repetir una generación para comprobarla
+  respondToOffer: UserRole.PLAYER, // Restringido por canRespondToOffer
+  signUpForGame: UserRole.PLAYER, // Solo a sí mismo y dentro de la ventana de inscripción
+  changeWaitList: UserRole.PLAYER, // Restringido por canChangeWaitList
+} as const satisfies Record<string, UserRoleType>;
+
+// Campos que un jugador puede cambiar de su propio perfil
+const SELF_EDITABLE_FIELDS: readonly (keyof InsertPlayer)[] = ["alias", "phone", "preferredSide", "dominantHand"];
+
+// Campos que un administrador puede cambiar de cualquier jugador; role y password
+// tienen sus propias rutas (promote, change-password, password-reset)
+const ADMIN_EDITABLE_FIELDS: readonly (keyof InsertPlayer)[] = [
+  "name",
+  "alias",
+  "phone",
+  "affiliationNumber",
+  "invitedBy",
+  "category",
+  "preferredSide",
+  "dominantHand",
+];
+
+export function editablePlayerFields(actor: Player, targetId: number): readonly (keyof InsertPlayer)[] {
+  if (roleSatisfies(actor.role, UserRole.ADMIN)) return ADMIN_EDITABLE_FIELDS;
+  return actor.id === targetId ? SELF_EDITABLE_FIELDS : [];
+}
+
+// Campos de la solicitud que el actor no puede modificar
+export function forbiddenPlayerFields(actor: Player, targetId: number, fields: string[]): string[] {
+  const allowed: readonly string[] = editablePlayerFields(actor, targetId);
+  return fields.filter(field => !allowed.includes(field));
+}
+
+// Los resultados solo los registran los jugadores del partido o un administrador
+export function canEnterMatchResult(actor: Player, match: Match): boolean {
+  return roleSatisfies(actor.role, UserRole.ADMIN) || isMatchParticipant(actor.id, match);
+}
+
+// A la lista de espera se anota o se baja el propio jugador, o un administrador por él
+export function canChangeWaitList(actor: Player, playerId: number): boolean {
+  return roleSatisfies(actor.role, UserRole.ADMIN) || actor.id === playerId;
+}
+
+// Un lugar ofrecido lo acepta o rechaza el propio jugador, o un administrador por él
+export function canRespondToOffer(actor: Player, offer: WaitListOffer): boolean {
+  return roleSatisfies(actor.role, UserRole.ADMIN) || actor.id === offer.playerId;
+}
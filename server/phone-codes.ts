@@ -0,0 +1,85 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { smsSender } from "./sms";
+import { hashToken } from "./passwords";
+
+export const PHONE_CODE_TTL_MINUTES = 10;
+export const PHONE_CODE_MAX_ATTEMPTS = 5;
+export const PHONE_CODE_RESEND_SECONDS = 60;
+export const PHONE_MAX_FAILED_ATTEMPTS = 10; // Entre todos los códigos del teléfono
+export const PHONE_LOCK_MINUTES = 60;
+
+export type PhoneCodeCheck = "valid" | "invalid" | "expired" | "too_many_attempts";
+
+const secondsUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Segundos que faltan para poder pedir otro código (0 si ya se puede). Se lleva por
+ * teléfono, no por código: descartar un código no quita la espera ni el bloqueo.
+ */
+export async function phoneCodeCooldown(phone: string): Promise<number> {
+  const limit = await storage.getPhoneCodeLimit(phone);
+  if (!limit) return 0;
+
+  const locked = limit.lockedUntil ? secondsUntil(limit.lockedUntil) : 0;
+  const resend = limit.lastIssuedAt
+    ? secondsUntil(new Date(limit.lastIssuedAt.getTime() + PHONE_CODE_RESEND_SECONDS * 1000))
+    : 0;
+  return Math.max(locked, resend);
+}
+
+// Genera un código de 6 dígitos, guarda su hash y lo envía por SMS
+export async function issuePhoneCode(phone: string): Promise<void> {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(Date.now() + PHONE_CODE_TTL_MINUTES * 60 * 1000);
+
+  await storage.savePhoneCode(phone, hashToken(code), expiresAt);
+  await storage.updatePhoneCodeLimit(phone, { lastIssuedAt: new Date() });
+  await smsSender.send(
+    phone,
+    `Tu código de acceso a SportMatchMaker es ${code}. Vence en ${PHONE_CODE_TTL_MINUTES} minutos.`
+  );
+}
+
+/**
+ * Verifica el código de un teléfono. Un código válido se consume; uno expirado o
+ * que agota los intentos se descarta y obliga a pedir uno nuevo. Los fallos también
+ * se acumulan por teléfono: al llegar a PHONE_MAX_FAILED_ATTEMPTS el teléfono queda
+ * bloqueado PHONE_LOCK_MINUTES, sin poder verificar ni pedir códigos.
+ */
+export async function checkPhoneCode(phone: string, code: string): Promise<PhoneCodeCheck> {
+  const limit = await storage.getPhoneCodeLimit(phone);
+  if (limit?.lockedUntil && limit.lockedUntil > new Date()) return "too_many_attempts";
+
+  const existing = await storage.getPhoneCode(phone);
+  if (!existing) return "expired";
+
+  if (existing.expiresAt <= new Date()) {
+    await storage.deletePhoneCode(phone);
+    return "expired";
+  }
+
+  if (existing.codeHash === hashToken(code)) {
+    await storage.deletePhoneCode(phone);
+    await storage.updatePhoneCodeLimit(phone, { failedAttempts: 0 });
+    return "valid";
+  }
+
+  const failures = await storage.recordPhoneCodeFailure(phone);
+  if (failures >= PHONE_MAX_FAILED_ATTEMPTS) {
+    await storage.updatePhoneCodeLimit(phone, {
+      failedAttempts: 0,
+      lockedUntil: new Date(Date.now() + PHONE_LOCK_MINUTES * 60 * 1000),
+    });
+    await storage.deletePhoneCode(phone);
+    return "too_many_attempts";
+  }
+
+  const attempts = await storage.recordPhoneCodeAttempt(phone);
+  if (attempts >= PHONE_CODE_MAX_ATTEMPTS) {
+    await storage.deletePhoneCode(phone);
+    return "too_many_attempts";
+  }
+
+  return "invalid";
+}
@@ -0,0 +1,98 @@
+import type { MatchResult, Player, PlayerRanking } from "@shared/schema";
+
+/**
+ * Calcula los rankings de todos los jugadores a partir de los resultados registrados.
+ * Es independiente del almacenamiento para que MemStorage y DbStorage puntúen igual.
+ */
+export function computeRankings(allPlayers: Player[], results: MatchResult[]): Map<number, PlayerRanking> {
+  const rankings = new Map<number, PlayerRanking>();
+
+  // Inicializar rankings para todos los jugadores
+  allPlayers.forEach(player => {
+    rankings.set(player.id, {
+      playerId: player.id,
+      playerName: player.name,
+      playerAlias: player.alias || null,
+      gamesPlayed: 0,
+      gamesWon: 0,
+      setsPlayed: 0,
+      setsWon: 0,
+      points: 0
+    });
+  });
+
+  // Resultados con marcadores 6-0, que otorgan o restan puntos adicionales
+  const specialScoreResults = results.filter(result =>
+    (result.pair1Score === 6 && result.pair2Score === 0) ||
+    (result.pair1Score === 0 && result.pair2Score === 6)
+  );
+
+  // Procesar todos los resultados
+  for (const result of results) {
+    if (!result.completed) continue;
+
+    const pair1Won = result.winner === 'pair1';
+    const pair1Ids = [result.pair1.player1.id, result.pair1.player2.id];
+    const pair2Ids = [result.pair2.player1.id, result.pair2.player2.id];
+
+    for (const playerId of pair1Ids) {
+      updatePlayerStats(rankings, specialScoreResults, playerId, pair1Won, result.setNumber);
+    }
+    for (const playerId of pair2Ids) {
+      updatePlayerStats(rankings, specialScoreResults, playerId, !pair1Won, result.setNumber);
+    }
+  }
+
+  return rankings;
+}
+
+// Método auxiliar para actualizar las estadísticas de un jugador tras un resultado
+function updatePlayerStats(
+  rankings: Map<number, PlayerRanking>,
+  specialScoreResults: MatchResult[],
+  playerId: number,
+  isWinner: boolean,
+  setCount: number
+): void {
+  const ranking = rankings.get(playerId);
+  if (!ranking) return;
+
+  ranking.gamesPlayed += 1;
+  ranking.setsPlayed += setCount;
+
+  // 1 punto por default por participación
+  ranking.points += 1;
+
+  const isInPair = (pair: MatchResult['pair1']) =>
+    pair.player1.id === playerId || pair.player2.id === playerId;
+
+  if (isWinner) {
+    ranking.gamesWon += 1;
+    ranking.setsWon += setCount;
+
+    // 1 punto adicional por cada set ganado
+    ranking.points += setCount;
+
+    // 3 puntos adicionales por sets 6-0 a favor
+    for (const result of specialScoreResults) {
+      if ((result.winner === 'pair1' && isInPair(result.pair1)) ||
+          (result.winner === 'pair2' && isInPair(result.pair2))) {
+        ranking.points += 3;
+      }
+    }
+  } else {
+    // Restar 1 punto por cada set perdido
+    ranking.points -= setCount;
+
+    // -3 puntos adicionales por sets 0-6 en contra
+    for (const result of specialScoreResults) {
+      if ((result.winner === 'pair2' && isInPair(result.pair1)) ||
+          (result.winner === 'pair1' && isInPair(result.pair2))) {
+        ranking.points -= 3;
+      }
+    }
+  }
+
+  // Asegurar que los puntos no sean negativos
+  ranking.points = Math.max(0, ranking.points);
+}
@@ -1,34 +1,103 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertCourtSchema, insertPlayerSchema, pairingsSchema, gameSchema, UserRole } from "@shared/schema";
+import { storage, type GameSitOut } from "./storage";
+import { endSession, startSession, toPublicPlayer } from "./auth";
+import { generateToken, hashToken } from "./passwords";
+import { PairingConstraintError, PairingError, toPairingPlayer, type PastMatch } from "./pairing";
+import { canChangeWaitList, canEnterMatchResult, canRespondToOffer, forbiddenPlayerFields, Permissions } from "./permissions";
+import { acceptOffer, declineOffer, expireOffers, joinRoster, leaveRoster, leaveWaitList, offerOpenSpots, openSpots, pendingOffer } from "./wait-list";
+import { checkPhoneCode, issuePhoneCode, phoneCodeCooldown, PHONE_CODE_TTL_MINUTES } from "./phone-codes";
+import { computeSessionStandings } from "./standings";
+import { planDraftEdit } from "./drafts";
+import { transitionGame } from "./game-lifecycle";
+import { deleteGame, deleteSeries, materializeSeries, seriesCapacityError, updateSeriesGoingForward, withGames } from "./game-series";
+import { createSeed, runGeneration, sameOutput, summarizeOutput } from "./generation-log";
+import { 
+  insertCourtSchema, 
+  insertPlayerSchema, 
+  insertMatchSchema,
+  insertMatchResultSchema,
+  matchResultUpdateSchema,
+  changePasswordSchema,
+  resetPasswordSchema,
+  phoneCodeRequestSchema,
+  phoneCodeVerifySchema,
+  pairingsSchema, 
+  generatePairingsSchema,
+  generationSeedSchema,
+  draftEditSchema,
+  insertPairingConstraintSchema,
+  gameSchema, 
+  waitListPriorityUpdateSchema,
+  signupWindowSchema,
+  signupWindow,
+  gameCancelSchema,
+  insertGameSeriesSchema,
+  gameSeriesUpdateSchema,
+  isRosterEditable,
+  isCapacityEditable,
+  isGameClosed,
+  winnerMatchesScore,
+  WINNER_MISMATCH_MESSAGE,
+  GameStatus,
+  GameTransitions,
+  SignupStatus,
+  SignupWindow,
+  MatchStatus,
+  PairingStrategy,
+  RosterStatus,
+  UserRole,
+  roleSatisfies,
+  sessionFairness,
+  type Court,
+  type CourtPairing,
+  type Game,
+  type GameTransitionType,
+  type GeneratedPairings,
+  type GenerationInput,
+  type Match,
+  type MatchStatusType,
+  type PairingConstraint,
+  type Player,
+  type PlayerSignup,
+  type RosterChange
+} from "@shared/schema";
 import { z } from "zod";
 
-// Middleware de autenticación
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hora
+
+// Plazo opcional para aceptar un lugar ofrecido; sin valor se usa el predeterminado
+const offerWindowSchema = gameSchema.shape.offerWindowMinutes;
+
+// Campos que un admin puede cambiar de un juego; el estado solo cambia con sus transiciones.
+// La ventana de inscripción acepta null para quedar sin límite
+const gameUpdateSchema = gameSchema.pick({
+  gameDate: true,
+  courtIds: true,
+  maxPlayers: true,
+  setsPerMatch: true,
+  description: true,
+  offerWindowMinutes: true,
+}).extend({
+  signupOpensAt: z.coerce.date().nullable(),
+  signupClosesAt: z.coerce.date().nullable(),
+}).partial().strict();
+
+// Middleware de autenticación: carga el jugador de la sesión del servidor
 const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
-  const { authorization } = req.headers;
+  const playerId = req.session.playerId;
   
-  if (!authorization) {
+  if (!playerId) {
     return res.status(401).json({ message: "Se requiere autenticación" });
   }
   
   try {
-    // Formato esperado: "Basic nombre:contraseña" (en codificación Base64)
-    const authParts = authorization.split(' ');
-    if (authParts.length !== 2 || authParts[0] !== 'Basic') {
-      return res.status(401).json({ message: "Formato de autenticación inválido" });
-    }
-    
-    const credentials = Buffer.from(authParts[1], 'base64').toString().split(':');
-    if (credentials.length !== 2) {
-      return res.status(401).json({ message: "Credenciales inválidas" });
-    }
-    
-    const [name, password] = credentials;
-    const player = await storage.authenticatePlayer(name, password);
+    const player = await storage.getPlayer(playerId);
     
     if (!player) {
-      return res.status(401).json({ message: "Credenciales inválidas" });
+      // El jugador ya no existe: invalidar la sesión
+      await endSession(req);
+      return res.status(401).json({ message: "Sesión inválida" });
     }
     
     // Agregar el usuario autenticado a la solicitud
@@ -58,6 +127,198 @@ const roleMiddleware = (requiredRole: string) => {
   };
 };
 
+// Juego al que pertenecen los emparejamientos: el indicado o el de la fecha, si ya existe
+async function findPairingGame(gameId: number | undefined, gameDate: string): Promise<Game | undefined> {
+  if (gameId !== undefined) {
+    return storage.getGame(gameId);
+  }
+  
+  const games = await storage.getGames();
+  return games.find(game => game.gameDate === gameDate);
+}
+
+// Una vez que el juego empieza, termina o se cancela, nadie entra ni sale de su roster
+const ROSTER_FROZEN_MESSAGE = "El juego ya empezó, terminó o se canceló; su roster no se puede cambiar";
+
+// Un juego terminado o cancelado ya no admite roles nuevos ni resultados
+const GAME_CLOSED_MESSAGE = "El juego ya terminó o se canceló";
+
+// Juego nuevo para los emparejamientos de una fecha que aún no tenía uno
+function createPairingGame(gameDate: string, courtIds: number[], sets: number): Promise<Game> {
+  return storage.createGame({
+    gameDate,
+    date: gameDate,
+    courtIds,
+    status: GameStatus.PENDING,
+    maxPlayers: courtIds.length * 4,
+    setsPerMatch: sets
+  });
+}
+
+// Jugadores confirmados en el roster del juego, en orden de llegada
+async function loadRosterPlayers(game: Game): Promise<Player[]> {
+  const players = await storage.getPlayers();
+  return game.playerIds
+    .map(playerId => players.find(player => player.id === playerId))
+    .filter((player): player is Player => player !== undefined);
+}
+
+// Guarda los emparejamientos como partidos del juego, reemplazando los que aún no tienen resultados
+async function persistPairings(gameId: number, pairings: CourtPairing[]): Promise<CourtPairing[]> {
+  const previousMatches = await storage.getMatches(gameId);
+  for (const match of previousMatches) {
+    if (match.status === MatchStatus.PENDING) {
+      await storage.deleteMatch(match.id);
+    }
+  }
+  
+  return appendPairings(gameId, pairings);
+}
+
+// Guarda los emparejamientos como partidos nuevos del juego, sin tocar los existentes
+async function appendPairings(gameId: number, pairings: CourtPairing[]): Promise<CourtPairing[]> {
+  const savedPairings: CourtPairing[] = [];
+  for (const pairing of pairings) {
+    const match = await storage.createMatch({
+      gameId,
+      gameDate: pairing.gameDate || new Date().toISOString().split('T')[0],
+      courtId: pairing.courtId,
+      courtName: pairing.courtName,
+      pair1: pairing.pair1,
+      pair2: pairing.pair2,
+      sets: pairing.sets,
+      status: MatchStatus.PENDING,
+      round: pairing.round ?? 1,
+      published: false, // Borrador hasta que un administrador lo publique
+    });
+    savedPairings.push({ ...pairing, id: match.id, gameId, published: false });
+  }
+  
+  return savedPairings;
+}
+
+// Partidos de los últimos `lookback` juegos anteriores a la fecha, para evitar repeticiones
+async function loadPairingHistory(gameDate: string, lookback: number): Promise<Match[]> {
+  if (lookback === 0) return [];
+  
+  const previousGames = (await storage.getGames())
+    .filter(game => game.id !== undefined && game.gameDate < gameDate)
+    .sort((a, b) => b.gameDate.localeCompare(a.gameDate))
+    .slice(0, lookback);
+  
+  const matches: Match[] = [];
+  for (const game of previousGames) {
+    matches.push(...await storage.getMatches(game.id!));
+  }
+  return matches;
+}
+
+// Veces que cada jugador ha descansado en los juegos anteriores a la fecha
+async function loadSitOutCounts(gameDate: string): Promise<Map<number, number>> {
+  const previousGameIds = (await storage.getGames())
+    .filter(game => game.id !== undefined && game.gameDate < gameDate)
+    .map(game => game.id!);
+  
+  return storage.getSitOutCounts(previousGameIds);
+}
+
+// Solo las parejas de los partidos anteriores: es lo que usa el motor y lo que se guarda en el registro
+function toPastMatches(matches: Match[]): PastMatch[] {
+  return matches.map(({ pair1, pair2 }) => ({ pair1, pair2 }));
+}
+
+function toConstraintInputs(constraints: PairingConstraint[]): GenerationInput["constraints"] {
+  return constraints.map(({ kind, playerId, otherPlayerId, courtId }) => ({ kind, playerId, otherPlayerId, courtId }));
+}
+
+// Respuesta de error de la generación; las restricciones incumplibles se detallan una por una
+function sendPairingError(res: Response, error: PairingError) {
+  if (error instanceof PairingConstraintError) {
+    res.status(400).json({ message: error.message, violations: error.violations });
+  } else {
+    res.status(400).json({ message: error.message });
+  }
+}
+
+// Jugadores y canchas de una sesión: los que jugaron o descansaron en alguna ronda,
+// con las canchas en el orden de la primera (la primera cancha es la de mayor nivel)
+async function loadSessionLineup(
+  matches: Match[],
+  sitOuts: GameSitOut[]
+): Promise<{ players: Player[]; courts: Court[] }> {
+  const playerIds = new Set(sitOuts.map(sitOut => sitOut.playerId));
+  for (const match of matches) {
+    for (const pair of [match.pair1, match.pair2]) {
+      playerIds.add(pair.player1.id);
+      playerIds.add(pair.player2.id);
+    }
+  }
+  
+  const firstRound = Math.min(...matches.map(match => match.round));
+  const courtIds = matches.filter(match => match.round === firstRound).map(match => match.courtId);
+  const allCourts = await storage.getCourts();
+  
+  return {
+    players: (await storage.getPlayers()).filter(player => playerIds.has(player.id)),
+    courts: courtIds
+      .map(courtId => allCourts.find(court => court.id === courtId))
+      .filter((court): court is Court => court !== undefined),
+  };
+}
+
+// Los borradores de un rol solo los ve quien puede editarlos; las rutas de lectura son públicas
+async function canSeeDrafts(req: Request): Promise<boolean> {
+  const playerId = req.session.playerId;
+  return playerId !== undefined && storage.hasPermission(playerId, Permissions.manageMatches);
+}
+
+// Actualiza el estado de un partido según los sets registrados
+async function syncMatchStatus(matchId: number): Promise<void> {
+  const match = await storage.getMatch(matchId);
+  if (!match) return;
+  
+  // Cada set cuenta una vez, aunque haya datos viejos repetidos o fuera del partido
+  const results = await storage.getMatchResults();
+  const setsPlayed = new Set(
+    results
+      .filter(result => result.pairingId === matchId && result.setNumber >= 1 && result.setNumber <= match.sets)
+      .map(result => result.setNumber)
+  ).size;
+  
+  let status: MatchStatusType = MatchStatus.PENDING;
+  if (setsPlayed >= match.sets) {
+    status = MatchStatus.COMPLETED;
+  } else if (setsPlayed > 0) {
+    status = MatchStatus.IN_PROGRESS;
+  }
+  
+  if (status !== match.status) {
+    await storage.updateMatch(matchId, { status });
+  }
+}
+
+// Motivo por el que un set no se puede registrar en el partido, o null; excludeId es el resultado que se corrige
+async function setNumberError(match: Match, setNumber: number, excludeId?: number): Promise<{ status: number; message: string } | null> {
+  if (setNumber > match.sets) {
+    return { status: 400, message: `El partido se juega a ${match.sets} set(s)` };
+  }
+  const taken = (await storage.getMatchResults()).some(result =>
+    result.pairingId === match.id && result.setNumber === setNumber && result.id !== excludeId
+  );
+  return taken ? { status: 409, message: `El set ${setNumber} de este partido ya tiene resultado` } : null;
+}
+
+// Datos editables de un partido
+const matchInputSchema = insertMatchSchema.pick({
+  courtId: true,
+  pair1: true,
+  pair2: true,
+  sets: true,
+  status: true,
+  round: true,
+  published: true,
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Rutas de autenticación
   
@@ -75,79 +336,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Credenciales inválidas" });
       }
       
+      await startSession(req, player.id);
+      
       // Enviar usuario autenticado (sin contraseña)
-      const { password: _, ...playerWithoutPassword } = player;
-      res.json(playerWithoutPassword);
+      res.json(toPublicPlayer(player));
     } catch (error) {
       res.status(500).json({ message: "Error en la autenticación" });
     }
   });
   
-  // Login por teléfono
-  app.post("/api/auth/login-phone", async (req, res) => {
+  // Usuario de la sesión actual
+  app.get("/api/auth/me", authMiddleware, (req, res) => {
+    res.json(toPublicPlayer((req as any).user));
+  });
+  
+  // Cerrar sesión
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await endSession(req);
+      res.clearCookie("connect.sid");
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al cerrar sesión" });
+    }
+  });
+  
+  // Cambio de contraseña del administrador autenticado
+  app.post("/api/auth/change-password", authMiddleware, roleMiddleware(Permissions.changeOwnPassword), async (req, res) => {
     try {
-      const { phone } = req.body;
-      if (!phone) {
-        return res.status(400).json({ message: "Se requiere número de teléfono" });
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = (req as any).user;
+      
+      if (!(await storage.verifyPassword(user.id, currentPassword))) {
+        return res.status(400).json({ message: "La contraseña actual es incorrecta" });
+      }
+      
+      await storage.updatePlayer(user.id, { password: newPassword });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al cambiar la contraseña" });
       }
+    }
+  });
+  
+  // Restablecer contraseña con un token de un solo uso
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
       
-      const player = await storage.authenticateByPhone(phone);
+      const playerId = await storage.consumePasswordResetToken(hashToken(token));
+      if (playerId === null) {
+        return res.status(400).json({ message: "El token es inválido o ha expirado" });
+      }
       
-      if (!player) {
-        return res.status(404).json({ 
-          message: "Número de teléfono no registrado",
-          notRegistered: true
+      await storage.updatePlayer(playerId, { password: newPassword });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al restablecer la contraseña" });
+      }
+    }
+  });
+  
+  // Acceso por teléfono, paso 1: enviar un código de verificación por SMS
+  app.post("/api/auth/phone/request-code", async (req, res) => {
+    try {
+      const { phone } = phoneCodeRequestSchema.parse(req.body);
+      
+      const retryAfter = await phoneCodeCooldown(phone);
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", retryAfter.toString());
+        return res.status(429).json({ 
+          message: `Espera ${retryAfter} segundos antes de pedir otro código`,
+          retryAfter
         });
       }
       
-      // Enviar usuario autenticado (sin contraseña)
-      const { password: _, ...playerWithoutPassword } = player;
-      res.json(playerWithoutPassword);
+      await issuePhoneCode(phone);
+      
+      // El cliente usa "registered" para pedir nombre y alias a los jugadores nuevos
+      const player = await storage.getPlayerByPhone(phone);
+      res.json({ registered: !!player, expiresInMinutes: PHONE_CODE_TTL_MINUTES });
     } catch (error) {
-      res.status(500).json({ message: "Error en la autenticación" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al enviar el código" });
+      }
     }
   });
   
-  // Registro rápido por teléfono
-  app.post("/api/auth/register-phone", async (req, res) => {
+  // Acceso por teléfono, paso 2: verificar el código e iniciar sesión (o registrarse)
+  app.post("/api/auth/phone/verify", async (req, res) => {
     try {
-      const { name, phone, alias } = req.body;
-      if (!name || !phone) {
-        return res.status(400).json({ message: "Se requiere nombre y número de teléfono" });
-      }
+      const { phone, code, name, alias } = phoneCodeVerifySchema.parse(req.body);
       
-      // Verificar si el teléfono ya está registrado
+      // Validar el registro antes de consumir el código
       const existingPlayer = await storage.getPlayerByPhone(phone);
-      if (existingPlayer) {
-        return res.status(400).json({ message: "Este número de teléfono ya está registrado" });
+      if (!existingPlayer && !name) {
+        return res.status(400).json({ 
+          message: "Se requiere nombre para registrar un número nuevo",
+          notRegistered: true
+        });
       }
       
-      // Crear nuevo jugador
-      const newPlayer = await storage.createPlayer({
-        name,
+      const check = await checkPhoneCode(phone, code);
+      if (check === "invalid") {
+        return res.status(401).json({ message: "Código incorrecto" });
+      }
+      if (check === "expired") {
+        return res.status(401).json({ message: "El código expiró; solicita uno nuevo" });
+      }
+      if (check === "too_many_attempts") {
+        return res.status(429).json({ message: "Demasiados intentos; solicita un código nuevo" });
+      }
+      
+      const player = existingPlayer ?? await storage.createPlayer({
+        name: name!,
         phone,
         alias: alias || null,
-        role: UserRole.PLAYER,
-        selected: false
+        role: UserRole.PLAYER
       });
       
-      // Enviar usuario recién registrado
-      const { password: _, ...playerWithoutPassword } = newPlayer;
-      res.status(201).json(playerWithoutPassword);
+      await startSession(req, player.id);
+      
+      // Enviar usuario autenticado (sin contraseña)
+      res.status(existingPlayer ? 200 : 201).json(toPublicPlayer(player));
     } catch (error) {
-      res.status(500).json({ message: "Error al registrar usuario" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error en la autenticación" });
+      }
     }
   });
   
   // Registrar invitado (solo para usuarios autenticados)
-  app.post("/api/players/invite", async (req, res) => {
+  app.post("/api/players/invite", authMiddleware, roleMiddleware(Permissions.invitePlayer), async (req, res) => {
     try {
-      const { name, invitedBy, alias } = req.body;
+      const user = (req as any).user;
+      const { name, alias } = req.body;
+      // Por defecto invita el usuario de la sesión; solo un admin puede invitar en nombre de otro
+      const invitedBy = req.body.invitedBy ?? user.id;
       
-      if (!name || !invitedBy) {
+      if (!name) {
         return res.status(400).json({ message: "Faltan datos requeridos" });
       }
       
+      if (parseInt(invitedBy) !== user.id && !roleSatisfies(user.role, UserRole.ADMIN)) {
+        return res.status(403).json({ message: "Solo puedes registrar invitados a tu nombre" });
+      }
+      
       // Verificar que el usuario que invita existe
       const inviter = await storage.getPlayer(parseInt(invitedBy));
       if (!inviter) {
@@ -161,11 +505,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name: displayName,
         alias: alias || null,
         role: UserRole.PLAYER,
-        selected: false,
         invitedBy: invitedBy.toString()
       });
       
-      res.status(201).json(newPlayer);
+      res.status(201).json(toPublicPlayer(newPlayer));
     } catch (error) {
       res.status(500).json({ message: "Error al registrar invitado" });
     }
@@ -174,24 +517,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Players API
   app.get("/api/players", async (req, res) => {
     const players = await storage.getPlayers();
-    res.json(players);
+    res.json(players.map(toPublicPlayer));
   });
   
-  // Get selected players (Colocada antes de la ruta con id param)
-  app.get("/api/players/selected", async (req, res) => {
-    try {
-      const selectedPlayers = await storage.getSelectedPlayers();
-      res.json(selectedPlayers);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to get selected players" });
-    }
-  });
-
-  app.post("/api/players", async (req, res) => {
+  app.post("/api/players", authMiddleware, roleMiddleware(Permissions.createPlayer), async (req, res) => {
     try {
       const validatedData = insertPlayerSchema.parse(req.body);
+      
+      // No se puede crear un usuario con un rol superior al propio
+      if (validatedData.role && !roleSatisfies((req as any).user.role, validatedData.role)) {
+        return res.status(403).json({ message: "No autorizado para asignar ese rol" });
+      }
       const player = await storage.createPlayer(validatedData);
-      res.status(201).json(player);
+      res.status(201).json(toPublicPlayer(player));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid player data", errors: error.errors });
@@ -201,12 +539,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/players/:id", async (req, res) => {
+  app.delete("/api/players/:id", authMiddleware, roleMiddleware(Permissions.deletePlayer), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid player ID" });
     }
     
+    // Un admin no puede eliminar a un superadmin
+    const target = await storage.getPlayer(id);
+    if (target && !roleSatisfies((req as any).user.role, target.role)) {
+      return res.status(403).json({ message: "No autorizado para esta acción" });
+    }
+    
     const deleted = await storage.deletePlayer(id);
     if (deleted) {
       res.status(204).send();
@@ -216,18 +560,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update a player
-  app.patch("/api/players/:id", async (req, res) => {
+  app.patch("/api/players/:id", authMiddleware, roleMiddleware(Permissions.updatePlayer), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid player ID" });
       }
+
+      // Un admin no puede editar a un superadmin (su teléfono le daría acceso a esa cuenta)
+      const target = await storage.getPlayer(id);
+      if (target && !roleSatisfies((req as any).user.role, target.role)) {
+        return res.status(403).json({ message: "No autorizado para esta acción" });
+      }
+
+      const playerData = insertPlayerSchema.partial().parse(req.body);
+      
+      // Reglas por campo: role y password nunca se cambian por esta ruta
+      const forbidden = forbiddenPlayerFields((req as any).user, id, Object.keys(playerData));
+      if (forbidden.length > 0) {
+        return res.status(403).json({ 
+          message: `No autorizado para modificar: ${forbidden.join(", ")}`
+        });
+      }
+      
+      // El teléfono identifica al jugador al iniciar sesión: no puede repetirse
+      if (playerData.phone) {
+        const phoneOwner = await storage.getPlayerByPhone(playerData.phone);
+        if (phoneOwner && phoneOwner.id !== id) {
+          return res.status(409).json({ message: "Este número de teléfono ya está registrado" });
+        }
+      }
       
-      const playerData = req.body;
       const updatedPlayer = await storage.updatePlayer(id, playerData);
       
       if (updatedPlayer) {
-        res.json(updatedPlayer);
+        res.json(toPublicPlayer(updatedPlayer));
       } else {
         res.status(404).json({ message: "Player not found" });
       }
@@ -241,7 +608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Promover a un jugador a rol de admin (requiere ser admin)
-  app.post("/api/players/:id/promote", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  app.post("/api/players/:id/promote", authMiddleware, roleMiddleware(Permissions.promotePlayer), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -254,6 +621,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Jugador no encontrado" });
       }
       
+      // Un admin no puede tocar el rol de un superadmin (promoverlo a admin lo degradaría)
+      if (!roleSatisfies((req as any).user.role, player.role)) {
+        return res.status(403).json({ message: "No autorizado para esta acción" });
+      }
+      
+      if (roleSatisfies(player.role, UserRole.ADMIN)) {
+        return res.status(409).json({ message: "El jugador ya es administrador" });
+      }
+      
       // Actualizar el rol del jugador a ADMIN
       const updatedPlayer = await storage.updatePlayer(id, { role: UserRole.ADMIN });
       
@@ -264,40 +640,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ 
         message: "Jugador promovido a administrador exitosamente",
-        player: updatedPlayer
+        player: toPublicPlayer(updatedPlayer)
       });
     } catch (error) {
       res.status(500).json({ message: "Error al promover jugador" });
     }
   });
   
-  // Toggle player selection
-  app.post("/api/players/:id/toggle-selection", async (req, res) => {
+  // Emitir un token de restablecimiento de contraseña para un administrador (solo superadmin)
+  app.post("/api/players/:id/password-reset", authMiddleware, roleMiddleware(Permissions.resetPlayerPassword), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid player ID" });
+        return res.status(400).json({ message: "ID de jugador inválido" });
       }
       
-      const updatedPlayer = await storage.togglePlayerSelection(id);
+      const player = await storage.getPlayer(id);
+      if (!player) {
+        return res.status(404).json({ message: "Jugador no encontrado" });
+      }
       
-      if (updatedPlayer) {
-        res.json(updatedPlayer);
-      } else {
-        res.status(404).json({ message: "Player not found" });
+      if (!roleSatisfies(player.role, UserRole.ADMIN)) {
+        return res.status(400).json({ message: "Solo los administradores tienen contraseña" });
       }
+      
+      // El token solo se muestra en esta respuesta; se guarda únicamente su hash
+      const token = generateToken();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+      await storage.createPasswordResetToken(id, hashToken(token), expiresAt);
+      
+      res.status(201).json({ token, expiresAt });
     } catch (error) {
-      res.status(500).json({ message: "Failed to toggle player selection" });
+      res.status(500).json({ message: "Error al generar el token de restablecimiento" });
     }
   });
-
+  
   // Courts API
   app.get("/api/courts", async (req, res) => {
     const courts = await storage.getCourts();
     res.json(courts);
   });
 
-  app.post("/api/courts", async (req, res) => {
+  app.post("/api/courts", authMiddleware, roleMiddleware(Permissions.createCourt), async (req, res) => {
     try {
       const validCourtNames = ["Lala", "AR", "Mochomos", "Combugas", "Casa del Vino", "Moric", "Central"];
       
@@ -321,7 +705,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/courts/:id", async (req, res) => {
+  app.delete("/api/courts/:id", authMiddleware, roleMiddleware(Permissions.deleteCourt), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid court ID" });
@@ -335,132 +719,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate pairings
-  app.post("/api/pairings/generate", async (req, res) => {
+  // Generar emparejamientos (solo admin); los jugadores que no caben pasan a la lista de espera
+  app.post("/api/pairings/generate", authMiddleware, roleMiddleware(Permissions.generatePairings), async (req, res) => {
     try {
       // Obtener parámetros de la solicitud
-      const { gameDate, sets = 1, selectedCourtIds = [] } = req.body;
+      const { gameId, gameDate, sets, selectedCourtIds, strategy, lookback, rounds, seed: requestedSeed } =
+        generatePairingsSchema.parse(req.body);
       
-      const allPlayers = await storage.getPlayers();
-      const selectedPlayers = await storage.getSelectedPlayers();
-      const players = selectedPlayers.length > 0 ? selectedPlayers : allPlayers;
+      // Con un juego indicado, se usan su fecha y su roster
+      const existingGame = await findPairingGame(gameId, gameDate || new Date().toISOString().split('T')[0]);
+      if (gameId !== undefined && !existingGame) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      if (existingGame && isGameClosed(existingGame)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
+      const date = existingGame?.gameDate ?? gameDate ?? new Date().toISOString().split('T')[0];
       
-      // Validación básica de jugadores
-      if (players.length < 4) {
-        return res.status(400).json({ 
-          message: "Se necesitan al menos 4 jugadores para generar parejas" 
-        });
+      // Juegan los confirmados del roster; si el juego no tiene roster, todos los jugadores
+      const rosterPlayers = existingGame ? await loadRosterPlayers(existingGame) : [];
+      // Los jugadores se copian a los partidos: nunca incluir contraseñas
+      const players = (rosterPlayers.length > 0 ? rosterPlayers : await storage.getPlayers()).map(toPairingPlayer);
+      
+      // Filtrar canchas según selección o usar todas disponibles
+      const allCourts = await storage.getCourts();
+      const courts = selectedCourtIds.length > 0
+        ? allCourts.filter(court => selectedCourtIds.includes(court.id))
+        : allCourts;
+      
+      // Asegurar que los rankings están actualizados antes de emparejar
+      await storage.calculateRankings();
+      const rankings = await storage.getPlayerRankings();
+      
+      // Las entradas se guardan tal cual en el registro para poder repetir la generación
+      const input: GenerationInput = {
+        players,
+        rankings: rankings.map(({ playerId, points }) => ({ playerId, points })),
+        courts: courts.map(({ id, name }) => ({ id, name })),
+        gameDate: date,
+        sets,
+        strategy,
+        rounds,
+        firstRound: 1,
+        history: toPastMatches(await loadPairingHistory(date, lookback)),
+        sitOutCounts: Array.from(await loadSitOutCounts(date)),
+        constraints: toConstraintInputs(await storage.getPairingConstraints(existingGame?.id)),
+      };
+      const seed = requestedSeed ?? createSeed();
+      const output = runGeneration(input, seed);
+      const { pairings, overflow, bench } = output;
+      
+      // Juego al que pertenecen los emparejamientos (las rondas reutilizan las mismas canchas)
+      const game = existingGame ?? await createPairingGame(
+        date,
+        Array.from(new Set(pairings.map(pairing => pairing.courtId))),
+        sets
+      );
+      if (game.id === undefined) {
+        return res.status(404).json({ message: "Juego no encontrado" });
       }
       
-      if (players.length % 4 !== 0) {
-        return res.status(400).json({ 
-          message: `Se necesita un múltiplo de 4 jugadores para emparejamientos equitativos (actualmente ${players.length})` 
-        });
+      // El formato queda en el juego; el Mexicano lo necesita para generar las rondas siguientes
+      if (game.strategy !== strategy) {
+        await storage.updateGame(game.id, { strategy });
       }
       
-      // Calculamos cuántas canchas necesitamos
-      const requiredCourts = Math.floor(players.length / 4);
+      // Añadir los jugadores restantes a la lista de espera
+      for (const player of overflow) {
+        await storage.addToWaitList(game.id, player.id);
+      }
       
-      // Obtener todas las canchas
-      const allCourts = await storage.getCourts();
+      // Registrar quién descansa para rotar la banca en los siguientes juegos
+      await storage.setGameSitOuts(game.id, bench.map(player => ({ playerId: player.id, round: player.round })));
       
-      // Filtrar canchas según selección o usar todas disponibles
-      let availableCourts = [];
-      if (selectedCourtIds && selectedCourtIds.length > 0) {
-        // Usar canchas seleccionadas
-        availableCourts = allCourts.filter(court => selectedCourtIds.includes(court.id));
+      const validatedPairings = pairingsSchema.parse(pairings);
+      const savedPairings = await persistPairings(game.id, validatedPairings);
+      const generation = await storage.createPairingGeneration({
+        gameId: game.id,
+        seed,
+        strategy,
+        input,
+        output,
+        createdBy: (req as any).user.id,
+      });
+      
+      const response: GeneratedPairings = { pairings: savedPairings, bench, seed, generationId: generation.id, fairness: sessionFairness(savedPairings) };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof PairingError) {
+        sendPairingError(res, error);
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Formato de datos inválido", errors: error.errors });
       } else {
-        // Usar todas las canchas disponibles
-        availableCourts = allCourts;
+        console.error("Error al generar emparejamientos:", error);
+        res.status(500).json({ message: "Error al generar emparejamientos" });
+      }
+    }
+  });
+
+  // Mexicano: cierra la última ronda y genera la siguiente con los puntos acumulados en la sesión
+  app.post("/api/games/:id/rounds/next", authMiddleware, roleMiddleware(Permissions.generatePairings), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
       }
       
-      // Verificar si tenemos suficientes canchas
-      if (availableCourts.length < requiredCourts) {
-        return res.status(400).json({ 
-          message: `No hay suficientes canchas (${availableCourts.length}) para los jugadores seleccionados (${players.length}). Se necesitan ${requiredCourts} canchas.` 
-        });
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
       }
       
-      // Limitamos las canchas a las necesarias
-      const selectedCourts = availableCourts.slice(0, requiredCourts);
+      if (isGameClosed(game)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
       
-      // Obtener los rankings de los jugadores para crear emparejamientos más equilibrados
-      await storage.calculateRankings(); // Asegurar que los rankings están actualizados
-      const rankings = await storage.getPlayerRankings();
+      if (game.strategy !== PairingStrategy.MEXICANO) {
+        return res.status(400).json({ message: "Solo las sesiones en formato Mexicano generan rondas a partir de los resultados" });
+      }
       
-      // Función para obtener el ranking de un jugador por su ID
-      const getPlayerRanking = (playerId: number) => {
-        const ranking = rankings.find(r => r.playerId === playerId);
-        return ranking ? ranking.points : 0; // Si no tiene ranking, devolvemos 0
-      };
+      const matches = await storage.getMatches(gameId);
+      if (matches.length === 0) {
+        return res.status(400).json({ message: "El juego aún no tiene una primera ronda" });
+      }
       
-      // Ordenar jugadores por ranking (de mayor a menor)
-      const sortedPlayers = [...players].sort((a, b) => {
-        const rankingA = getPlayerRanking(a.id);
-        const rankingB = getPlayerRanking(b.id);
-        return rankingB - rankingA; // Orden descendente
-      });
+      // La ronda se cierra solo cuando todos sus partidos tienen resultado
+      const currentRound = Math.max(...matches.map(match => match.round));
+      const unfinished = matches.filter(match => match.round === currentRound && match.status !== MatchStatus.COMPLETED);
+      if (unfinished.length > 0) {
+        return res.status(409).json({
+          message: `Faltan resultados en ${unfinished.map(match => match.courtName).join(", ")} para cerrar la ronda ${currentRound}`
+        });
+      }
       
-      // Crear pares más equilibrados usando el sistema de "serpiente"
-      // Los mejores jugadores se emparejan con los de menor ranking
-      const balancedPairs = [];
+      const sitOuts = await storage.getGameSitOuts(gameId);
+      const lineup = await loadSessionLineup(matches, sitOuts);
       
-      // Crear parejas alternando el ranking
-      // 1+8, 2+7, 3+6, 4+5, etc.
-      for (let i = 0; i < sortedPlayers.length / 2; i++) {
-        const topPlayer = sortedPlayers[i];
-        const bottomPlayer = sortedPlayers[sortedPlayers.length - 1 - i];
-        
-        balancedPairs.push({
-          player1: topPlayer,
-          player2: bottomPlayer
-        });
+      // Los empates en la sesión se deciden por el ranking general (el orden se conserva al ordenar)
+      await storage.calculateRankings();
+      const generalPoints = new Map((await storage.getPlayerRankings()).map(ranking => [ranking.playerId, ranking.points]));
+      const players = lineup.players
+        .sort((a, b) => (generalPoints.get(b.id) ?? 0) - (generalPoints.get(a.id) ?? 0))
+        .map(toPairingPlayer);
+      
+      const standings = computeSessionStandings(matches, await storage.getMatchResults());
+      const sitOutCounts = await loadSitOutCounts(game.gameDate);
+      for (const { playerId } of sitOuts) {
+        sitOutCounts.set(playerId, (sitOutCounts.get(playerId) ?? 0) + 1);
       }
       
-      // Ordenar las parejas por su puntuación combinada
-      const sortedPairs = balancedPairs.sort((a, b) => {
-        const scoreA = getPlayerRanking(a.player1.id) + getPlayerRanking(a.player2.id);
-        const scoreB = getPlayerRanking(b.player1.id) + getPlayerRanking(b.player2.id);
-        return scoreB - scoreA; // Orden descendente
+      const input: GenerationInput = {
+        players,
+        rankings: standings.map(standing => ({ playerId: standing.playerId, points: standing.gamesFor })),
+        courts: lineup.courts.map(({ id, name }) => ({ id, name })),
+        gameDate: game.gameDate,
+        sets: game.setsPerMatch,
+        strategy: PairingStrategy.MEXICANO,
+        rounds: 1,
+        firstRound: currentRound + 1,
+        history: toPastMatches(matches),
+        sitOutCounts: Array.from(sitOutCounts),
+        constraints: toConstraintInputs(await storage.getPairingConstraints(gameId)),
+      };
+      const { seed: requestedSeed } = z.object({ seed: generationSeedSchema.optional() }).parse(req.body ?? {});
+      const seed = requestedSeed ?? createSeed();
+      const output = runGeneration(input, seed);
+      const { pairings, bench } = output;
+      
+      await storage.setGameSitOuts(gameId, [
+        ...sitOuts,
+        ...bench.map(player => ({ playerId: player.id, round: player.round })),
+      ]);
+      
+      const savedPairings = await appendPairings(gameId, pairingsSchema.parse(pairings));
+      const generation = await storage.createPairingGeneration({
+        gameId,
+        seed,
+        strategy: PairingStrategy.MEXICANO,
+        input,
+        output,
+        createdBy: (req as any).user.id,
       });
       
-      // Agrupar parejas para cada cancha de forma equilibrada
-      // Parejas 0 y 3 en una cancha, 1 y 2 en otra, etc.
-      const pairings = [];
+      const response: GeneratedPairings = { pairings: savedPairings, bench, seed, generationId: generation.id, fairness: sessionFairness(savedPairings) };
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof PairingError) {
+        sendPairingError(res, error);
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Formato de datos inválido", errors: error.errors });
+      } else {
+        console.error("Error al generar la siguiente ronda:", error);
+        res.status(500).json({ message: "Error al generar la siguiente ronda" });
+      }
+    }
+  });
+
+  // Restricciones de emparejamiento: sin gameId se listan solo las globales
+  app.get("/api/pairing-constraints", async (req, res) => {
+    try {
+      const gameId = req.query.gameId !== undefined ? parseInt(String(req.query.gameId)) : undefined;
+      if (gameId !== undefined && isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const constraints = await storage.getPairingConstraints(gameId);
+      res.json(constraints);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las restricciones" });
+    }
+  });
+
+  app.post("/api/pairing-constraints", authMiddleware, roleMiddleware(Permissions.manageConstraints), async (req, res) => {
+    try {
+      const data = insertPairingConstraintSchema.parse(req.body);
       
-      for (let i = 0; i < selectedCourts.length && i * 2 < sortedPairs.length; i++) {
-        const pairIndex1 = i;
-        const pairIndex2 = sortedPairs.length - 1 - i;
-        
-        // Evitar duplicados si nos quedamos sin parejas suficientes
-        if (pairIndex1 >= pairIndex2) break;
-        
-        const courtPairing = {
-          courtId: selectedCourts[i].id,
-          courtName: selectedCourts[i].name,
-          pair1: sortedPairs[pairIndex1],
-          pair2: sortedPairs[pairIndex2],
-          sets: Number(sets) || 3, // Valor por defecto de 3 sets
-          gameDate: gameDate || new Date().toISOString().split('T')[0]
-        };
-        
-        pairings.push(courtPairing);
+      if (data.gameId != null && !(await storage.getGame(data.gameId))) {
+        return res.status(404).json({ message: "Juego no encontrado" });
       }
       
-      // Validar la respuesta con nuestro schema
-      const validatedPairings = pairingsSchema.parse(pairings);
-      res.json(validatedPairings);
+      for (const playerId of [data.playerId, data.otherPlayerId]) {
+        if (playerId != null && !(await storage.getPlayer(playerId))) {
+          return res.status(404).json({ message: `Jugador #${playerId} no encontrado` });
+        }
+      }
+      
+      if (data.courtId != null && !(await storage.getCourt(data.courtId))) {
+        return res.status(404).json({ message: "Cancha no encontrada" });
+      }
       
+      const constraint = await storage.createPairingConstraint(data);
+      res.status(201).json(constraint);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Formato de datos inválido", errors: error.errors });
+        res.status(400).json({ message: "Restricción inválida", errors: error.errors });
       } else {
-        console.error("Error al generar emparejamientos:", error);
-        res.status(500).json({ message: "Error al generar emparejamientos" });
+        res.status(500).json({ message: "Error al crear la restricción" });
       }
     }
   });
 
+  app.delete("/api/pairing-constraints/:id", authMiddleware, roleMiddleware(Permissions.manageConstraints), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "ID de restricción inválido" });
+    }
+    
+    const deleted = await storage.deletePairingConstraint(id);
+    if (deleted) {
+      res.status(204).send();
+    } else {
+      res.status(404).json({ message: "Restricción no encontrada" });
+    }
+  });
+
   // Rutas para resultados de partidos
   app.get("/api/match-results", async (req, res) => {
     try {
@@ -489,10 +1001,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/match-results", async (req, res) => {
+  app.post("/api/match-results", authMiddleware, roleMiddleware(Permissions.enterMatchResult), async (req, res) => {
     try {
-      const result = req.body;
-      const savedResult = await storage.saveMatchResult(result);
+      const result = insertMatchResultSchema.parse(req.body);
+      
+      // El resultado debe pertenecer a un partido persistido
+      const match = await storage.getMatch(result.pairingId);
+      if (!match) {
+        return res.status(400).json({ message: "El partido indicado no existe" });
+      }
+      
+      if (!match.published) {
+        return res.status(409).json({ message: "El rol de este partido aún no se publica" });
+      }
+      
+      if (!canEnterMatchResult((req as any).user, match)) {
+        return res.status(403).json({ message: "Solo los jugadores del partido o un administrador pueden registrar resultados" });
+      }
+      
+      const game = await storage.getGame(match.gameId);
+      if (game && isGameClosed(game)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
+      
+      const setError = await setNumberError(match, result.setNumber);
+      if (setError) {
+        return res.status(setError.status).json({ message: setError.message });
+      }
+      
+      // Las parejas, la cancha y la fecha se toman del partido
+      const savedResult = await storage.saveMatchResult({
+        ...result,
+        pairingId: match.id,
+        gameDate: match.gameDate,
+        courtId: match.courtId,
+        courtName: match.courtName,
+        pair1: match.pair1,
+        pair2: match.pair2,
+      });
+      await syncMatchStatus(match.id);
       
       // Recalcular rankings automáticamente después de guardar un resultado
       await storage.calculateRankings();
@@ -507,17 +1054,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.patch("/api/match-results/:id", async (req, res) => {
+  app.patch("/api/match-results/:id", authMiddleware, roleMiddleware(Permissions.enterMatchResult), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "ID de resultado inválido" });
       }
       
-      const result = req.body;
-      const updatedResult = await storage.updateMatchResult(id, result);
+      const previousResult = (await storage.getMatchResults()).find(r => r.id === id);
+      if (!previousResult) {
+        return res.status(404).json({ message: "Resultado no encontrado" });
+      }
+      
+      // Solo se corrigen los marcadores; el partido, sus parejas, la cancha y la fecha no cambian
+      const result = matchResultUpdateSchema.parse(req.body);
+      const match = await storage.getMatch(previousResult.pairingId);
+      if (!match) {
+        return res.status(400).json({ message: "El partido indicado no existe" });
+      }
+      
+      if (!canEnterMatchResult((req as any).user, match)) {
+        return res.status(403).json({ message: "Solo los jugadores del partido o un administrador pueden modificar resultados" });
+      }
+      
+      const game = await storage.getGame(match.gameId);
+      if (game && isGameClosed(game)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
+      
+      if (!winnerMatchesScore({ ...previousResult, ...result })) {
+        return res.status(400).json({ message: WINNER_MISMATCH_MESSAGE });
+      }
+      
+      if (result.setNumber !== undefined) {
+        const setError = await setNumberError(match, result.setNumber, id);
+        if (setError) {
+          return res.status(setError.status).json({ message: setError.message });
+        }
+      }
+      
+      const updatedResult = await storage.updateMatchResult(id, {
+        ...result,
+        pairingId: match.id,
+        gameDate: match.gameDate,
+        courtId: match.courtId,
+        courtName: match.courtName,
+        pair1: match.pair1,
+        pair2: match.pair2,
+      });
       
       if (updatedResult) {
+        await syncMatchStatus(match.id);
+        
         // Recalcular rankings después de actualizar un resultado
         await storage.calculateRankings();
         
@@ -577,7 +1165,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Crear juego (protegido, solo admin)
-  app.post("/api/games", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  app.post("/api/games", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
     try {
       const formData = req.body;
       
@@ -588,10 +1176,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         courtIds: formData.courtIds || [],
         setsPerMatch: formData.setsPerMatch || 3,
         description: formData.description || "",
-        status: "pending",
-        playerIds: []
+        offerWindowMinutes: offerWindowSchema.parse(formData.offerWindowMinutes),
+        // Sin abrir inscripciones, el juego queda programado hasta que un admin las abra
+        status: formData.openSignups === false ? GameStatus.SCHEDULED : GameStatus.PENDING
       };
       
+      const signup = signupWindowSchema.parse({
+        signupOpensAt: formData.signupOpensAt,
+        signupClosesAt: formData.signupClosesAt,
+      });
+      
       // Validar que las canchas existan
       const courts = await Promise.all(
         gameData.courtIds.map((id: number) => storage.getCourt(id))
@@ -607,7 +1201,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const maxPlayers = gameData.courtIds.length * 4;
       const gameWithCapacity = {
         ...gameData,
-        maxPlayers
+        maxPlayers,
+        signupOpensAt: signup.signupOpensAt ?? undefined,
+        signupClosesAt: signup.signupClosesAt ?? undefined,
       };
       
       const newGame = await storage.createGame(gameWithCapacity);
@@ -623,7 +1219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Actualizar juego (protegido, solo admin)
-  app.patch("/api/games/:id", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  app.patch("/api/games/:id", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -635,7 +1231,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Juego no encontrado" });
       }
       
-      const updateData = req.body;
+      if (req.body && "status" in req.body) {
+        return res.status(400).json({ message: "El estado del juego solo cambia con sus transiciones" });
+      }
+      const updateData = gameUpdateSchema.parse(req.body);
+      
+      // Canchas y capacidad definen el roster: no cambian una vez cerrado el roster
+      const changesCapacity = updateData.courtIds !== undefined || updateData.maxPlayers !== undefined;
+      if (changesCapacity && !isCapacityEditable(game)) {
+        return res.status(409).json({ message: "El roster del juego ya se cerró; sus canchas y capacidad no se pueden cambiar" });
+      }
+      
+      // La ventana de inscripción se valida completa; null la deja sin límite
+      if ("signupOpensAt" in updateData || "signupClosesAt" in updateData) {
+        const signup = signupWindowSchema.parse({
+          signupOpensAt: "signupOpensAt" in updateData ? updateData.signupOpensAt : game.signupOpensAt,
+          signupClosesAt: "signupClosesAt" in updateData ? updateData.signupClosesAt : game.signupClosesAt,
+        });
+        updateData.signupOpensAt = signup.signupOpensAt ?? null;
+        updateData.signupClosesAt = signup.signupClosesAt ?? null;
+      }
       
       // Si se actualizan las canchas, recalcular capacidad máxima
       if (updateData.courtIds) {
@@ -654,8 +1269,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.maxPlayers = updateData.courtIds.length * 4;
       }
       
-      const updatedGame = await storage.updateGame(id, updateData);
-      res.json(updatedGame);
+      // Los confirmados conservan su lugar: la capacidad no baja de ellos
+      if (updateData.maxPlayers !== undefined && updateData.maxPlayers < game.playerIds.length) {
+        return res.status(409).json({
+          message: `El juego ya tiene ${game.playerIds.length} jugadores confirmados; la capacidad no puede ser menor`
+        });
+      }
+      
+      // El almacenamiento guarda null en la ventana de inscripción para dejarla sin límite
+      await storage.updateGame(id, updateData as Partial<Game>);
+      
+      // Más canchas dejan lugares libres para la lista de espera
+      if (changesCapacity) {
+        await offerOpenSpots(id, null);
+      }
+      res.json(await storage.getGame(id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Datos de actualización inválidos", errors: error.errors });
@@ -666,14 +1294,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Eliminar juego (protegido, solo admin)
-  app.delete("/api/games/:id", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  app.delete("/api/games/:id", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "ID de juego inválido" });
       }
       
-      const deleted = await storage.deleteGame(id);
+      const deleted = await deleteGame(id);
       if (deleted) {
         res.status(204).send();
       } else {
@@ -684,6 +1312,526 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Transiciones del ciclo de vida de un juego (solo admin): open-signups, lock-roster, start, complete, cancel
+  for (const transition of Object.keys(GameTransitions) as GameTransitionType[]) {
+    app.post(`/api/games/:id/${transition}`, authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "ID de juego inválido" });
+        }
+        
+        const game = await storage.getGame(id);
+        if (!game) {
+          return res.status(404).json({ message: "Juego no encontrado" });
+        }
+        
+        const { reason } = transition === "cancel" ? gameCancelSchema.parse(req.body ?? {}) : { reason: undefined };
+        const result = await transitionGame(game, transition, reason);
+        if ("error" in result) {
+          return res.status(409).json({ message: result.error });
+        }
+        
+        res.json(result.game);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+        }
+        console.error("Error al cambiar el estado del juego:", error);
+        res.status(500).json({ message: "Error al cambiar el estado del juego" });
+      }
+    });
+  }
+  
+  // Series de juegos recurrentes (solo admin), cada una con los juegos que ya creó
+  app.get("/api/series", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const series = await storage.getAllGameSeries();
+      res.json(await Promise.all(series.map(withGames)));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las series" });
+    }
+  });
+  
+  // Crear una serie; sus fechas desde hoy se crean como juegos que se editan o cancelan por separado
+  app.post("/api/series", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const seriesData = insertGameSeriesSchema.parse(req.body);
+      
+      const courts = await Promise.all(seriesData.courtIds.map(id => storage.getCourt(id)));
+      if (courts.some(court => !court)) {
+        return res.status(400).json({ message: "Una o más canchas seleccionadas no existen" });
+      }
+      
+      const series = await storage.createGameSeries(seriesData);
+      await materializeSeries(series);
+      res.status(201).json(await withGames(series));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos de la serie inválidos", errors: error.errors });
+      } else {
+        console.error("Error al crear la serie:", error);
+        res.status(500).json({ message: "Error al crear la serie" });
+      }
+    }
+  });
+  
+  // Editar una serie de hoy en adelante; los juegos pasados o ya empezados no cambian
+  app.patch("/api/series/:id", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de serie inválido" });
+      }
+      
+      const series = await storage.getGameSeries(id);
+      if (!series) {
+        return res.status(404).json({ message: "Serie no encontrada" });
+      }
+      
+      // Se valida la serie completa tal como quedaría
+      const update = gameSeriesUpdateSchema.parse(req.body);
+      insertGameSeriesSchema.parse({ ...series, ...update });
+      
+      if (update.courtIds) {
+        const courts = await Promise.all(update.courtIds.map(courtId => storage.getCourt(courtId)));
+        if (courts.some(court => !court)) {
+          return res.status(400).json({ message: "Una o más canchas seleccionadas no existen" });
+        }
+      }
+      
+      const capacityError = await seriesCapacityError(series, update);
+      if (capacityError) {
+        return res.status(409).json({ message: capacityError });
+      }
+      
+      res.json(await updateSeriesGoingForward(id, update));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos de la serie inválidos", errors: error.errors });
+      } else {
+        console.error("Error al actualizar la serie:", error);
+        res.status(500).json({ message: "Error al actualizar la serie" });
+      }
+    }
+  });
+  
+  // Terminar una serie: sus fechas próximas se quitan y los juegos pasados se conservan
+  app.delete("/api/series/:id", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de serie inválido" });
+      }
+      
+      if (await deleteSeries(id)) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Serie no encontrada" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar la serie" });
+    }
+  });
+  
+  // Rutas para los partidos de un juego
+  app.get("/api/games/:id/matches", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      const matches = await storage.getMatches(gameId);
+      res.json(await canSeeDrafts(req) ? matches : matches.filter(match => match.published));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener partidos" });
+    }
+  });
+  
+  // Clasificación de la sesión con los resultados de todas sus rondas
+  app.get("/api/games/:id/standings", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      // Los borradores solo cuentan para quien puede verlos
+      const matches = await storage.getMatches(gameId);
+      const visible = await canSeeDrafts(req) ? matches : matches.filter(match => match.published);
+      const results = await storage.getMatchResults();
+      res.json(computeSessionStandings(visible, results));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener la clasificación de la sesión" });
+    }
+  });
+  
+  // Registro de generaciones del juego: entradas, semilla y resultado de cada una (solo admin)
+  app.get("/api/games/:id/generations", authMiddleware, roleMiddleware(Permissions.viewGenerationLog), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      res.json(await storage.getPairingGenerations(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el registro de generaciones" });
+    }
+  });
+  
+  // Repite una generación con sus entradas y semilla guardadas y la compara con el resultado original
+  app.post("/api/games/:id/generations/:generationId/replay", authMiddleware, roleMiddleware(Permissions.viewGenerationLog), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const generationId = parseInt(req.params.generationId);
+      if (isNaN(gameId) || isNaN(generationId)) {
+        return res.status(400).json({ message: "ID inválido" });
+      }
+      
+      const generation = await storage.getPairingGeneration(generationId);
+      if (!generation || generation.gameId !== gameId) {
+        return res.status(404).json({ message: "Generación no encontrada" });
+      }
+      
+      const replayed = runGeneration(generation.input, generation.seed);
+      res.json({
+        generationId,
+        seed: generation.seed,
+        identical: sameOutput(generation.output, replayed),
+        original: summarizeOutput(generation.output),
+        replayed: summarizeOutput(replayed),
+      });
+    } catch (error) {
+      if (error instanceof PairingError) {
+        sendPairingError(res, error);
+      } else {
+        console.error("Error al repetir la generación:", error);
+        res.status(500).json({ message: "Error al repetir la generación" });
+      }
+    }
+  });
+  
+  app.get("/api/games/:id/matches/:matchId", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const matchId = parseInt(req.params.matchId);
+      if (isNaN(gameId) || isNaN(matchId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const match = await storage.getMatch(matchId);
+      if (!match || match.gameId !== gameId || (!match.published && !(await canSeeDrafts(req)))) {
+        return res.status(404).json({ message: "Partido no encontrado" });
+      }
+      
+      res.json(match);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener partido" });
+    }
+  });
+  
+  // Crear partido manualmente (protegido, solo admin)
+  app.post("/api/games/:id/matches", authMiddleware, roleMiddleware(Permissions.manageMatches), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      // Un partido creado a mano se publica de inmediato, salvo que se pida como borrador
+      const matchData = matchInputSchema.parse({
+        sets: game.setsPerMatch,
+        published: true,
+        ...req.body,
+      });
+      
+      const court = await storage.getCourt(matchData.courtId);
+      if (!court) {
+        return res.status(400).json({ message: "La cancha seleccionada no existe" });
+      }
+      
+      const match = await storage.createMatch({
+        ...matchData,
+        gameId,
+        gameDate: game.gameDate,
+        courtName: court.name,
+      });
+      res.status(201).json(match);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos de partido inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear partido" });
+      }
+    }
+  });
+  
+  // Actualizar partido (protegido, solo admin)
+  app.patch("/api/games/:id/matches/:matchId", authMiddleware, roleMiddleware(Permissions.manageMatches), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const matchId = parseInt(req.params.matchId);
+      if (isNaN(gameId) || isNaN(matchId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const match = await storage.getMatch(matchId);
+      if (!match || match.gameId !== gameId) {
+        return res.status(404).json({ message: "Partido no encontrado" });
+      }
+      
+      const updateData = matchInputSchema.partial().parse(req.body);
+      
+      // Si cambia la cancha, actualizar también su nombre
+      let courtName = match.courtName;
+      if (updateData.courtId !== undefined && updateData.courtId !== match.courtId) {
+        const court = await storage.getCourt(updateData.courtId);
+        if (!court) {
+          return res.status(400).json({ message: "La cancha seleccionada no existe" });
+        }
+        courtName = court.name;
+      }
+      
+      const updatedMatch = await storage.updateMatch(matchId, { ...updateData, courtName });
+      res.json(updatedMatch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos de partido inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar partido" });
+      }
+    }
+  });
+  
+  // Eliminar partido y sus resultados (protegido, solo admin)
+  app.delete("/api/games/:id/matches/:matchId", authMiddleware, roleMiddleware(Permissions.manageMatches), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const matchId = parseInt(req.params.matchId);
+      if (isNaN(gameId) || isNaN(matchId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const match = await storage.getMatch(matchId);
+      if (!match || match.gameId !== gameId) {
+        return res.status(404).json({ message: "Partido no encontrado" });
+      }
+      
+      await storage.deleteMatch(matchId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar partido" });
+    }
+  });
+  
+  // Guarda la edición manual del borrador (jugadores movidos o parejas intercambiadas)
+  app.put("/api/games/:id/draft", authMiddleware, roleMiddleware(Permissions.manageMatches), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (isGameClosed(game)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
+      
+      const draftEdit = draftEditSchema.parse(req.body);
+      const plan = planDraftEdit(await storage.getMatches(gameId), draftEdit, await storage.getCourts());
+      if ("error" in plan) {
+        return res.status(400).json({ message: plan.error });
+      }
+      
+      for (const [matchId, update] of Array.from(plan.updates)) {
+        await storage.updateMatch(matchId, update);
+      }
+      
+      res.json(await storage.getMatches(gameId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Edición de borrador inválida", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al guardar el borrador" });
+      }
+    }
+  });
+  
+  // Publica el borrador: desde ahora los jugadores ven el rol y pueden registrar resultados
+  app.post("/api/games/:id/publish", authMiddleware, roleMiddleware(Permissions.manageMatches), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (isGameClosed(game)) {
+        return res.status(409).json({ message: GAME_CLOSED_MESSAGE });
+      }
+      
+      const drafts = (await storage.getMatches(gameId)).filter(match => !match.published);
+      if (drafts.length === 0) {
+        return res.status(400).json({ message: "El juego no tiene un borrador por publicar" });
+      }
+      
+      for (const match of drafts) {
+        await storage.updateMatch(match.id, { published: true });
+      }
+      
+      res.json(await storage.getMatches(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al publicar el rol" });
+    }
+  });
+  
+  // Roster de un juego: quién juega esa fecha, con su estado y orden de llegada
+  app.get("/api/games/:id/roster", async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      res.json(await storage.getRoster(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el roster" });
+    }
+  });
+  
+  // Seleccionar o quitar a un jugador del roster de un juego (solo admin)
+  app.post("/api/games/:id/roster/:playerId/toggle", authMiddleware, roleMiddleware(Permissions.selectPlayer), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const playerId = parseInt(req.params.playerId);
+      if (isNaN(gameId) || isNaN(playerId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
+      const player = await storage.getPlayer(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Jugador no encontrado" });
+      }
+      
+      res.json(game.playerIds.includes(playerId)
+        ? await leaveRoster(game, playerId)
+        : await joinRoster(game, playerId, (req as any).user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al actualizar el roster" });
+    }
+  });
+  
+  // Agregar un jugador al juego (solo admin); si ya no hay lugar, queda en la lista de espera
+  app.post("/api/games/:id/players/:playerId", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const playerId = parseInt(req.params.playerId);
+      if (isNaN(gameId) || isNaN(playerId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
+      const player = await storage.getPlayer(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Jugador no encontrado" });
+      }
+      
+      if (game.playerIds.includes(playerId)) {
+        return res.status(409).json({ message: "El jugador ya está en el juego" });
+      }
+      
+      const waitList = await storage.getWaitList(gameId);
+      if ((await openSpots(game)) <= 0 && waitList.some(waiting => waiting.id === playerId)) {
+        return res.status(409).json({ message: "El juego está lleno y el jugador ya está en la lista de espera" });
+      }
+      
+      const change = await joinRoster(game, playerId, (req as any).user.id);
+      res.status(change.waitListed ? 202 : 201).json(change);
+    } catch (error) {
+      res.status(500).json({ message: "Error al agregar jugador al juego" });
+    }
+  });
+  
+  // Quitar a un jugador del juego (solo admin); sube el primero de la lista de espera
+  app.delete("/api/games/:id/players/:playerId", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const playerId = parseInt(req.params.playerId);
+      if (isNaN(gameId) || isNaN(playerId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
+      if (!game.playerIds.includes(playerId)) {
+        return res.status(404).json({ message: "El jugador no está en el juego" });
+      }
+      
+      res.json(await leaveRoster(game, playerId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al quitar jugador del juego" });
+    }
+  });
+  
   // Rutas para la lista de espera
   app.get("/api/games/:id/waitlist", async (req, res) => {
     try {
@@ -697,6 +1845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Juego no encontrado" });
       }
       
+      await expireOffers();
       const waitList = await storage.getWaitList(gameId);
       res.json(waitList);
     } catch (error) {
@@ -705,7 +1854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Añadir jugador a la lista de espera
-  app.post("/api/games/:id/waitlist/:playerId", async (req, res) => {
+  app.post("/api/games/:id/waitlist/:playerId", authMiddleware, roleMiddleware(Permissions.changeWaitList), async (req, res) => {
     try {
       const gameId = parseInt(req.params.id);
       const playerId = parseInt(req.params.playerId);
@@ -714,11 +1863,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "IDs inválidos" });
       }
       
+      if (!canChangeWaitList((req as any).user, playerId)) {
+        return res.status(403).json({ message: "Solo puedes anotarte a ti mismo en la lista de espera" });
+      }
+      
       const game = await storage.getGame(gameId);
       if (!game) {
         return res.status(404).json({ message: "Juego no encontrado" });
       }
       
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
       const player = await storage.getPlayer(playerId);
       if (!player) {
         return res.status(404).json({ message: "Jugador no encontrado" });
@@ -736,7 +1893,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Eliminar jugador de la lista de espera
-  app.delete("/api/games/:id/waitlist/:playerId", async (req, res) => {
+  app.delete("/api/games/:id/waitlist/:playerId", authMiddleware, roleMiddleware(Permissions.changeWaitList), async (req, res) => {
     try {
       const gameId = parseInt(req.params.id);
       const playerId = parseInt(req.params.playerId);
@@ -745,7 +1902,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "IDs inválidos" });
       }
       
-      const removed = await storage.removeFromWaitList(gameId, playerId);
+      if (!canChangeWaitList((req as any).user, playerId)) {
+        return res.status(403).json({ message: "Solo puedes bajarte a ti mismo de la lista de espera" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
+      const removed = await leaveWaitList(gameId, playerId);
       if (removed) {
         res.status(204).send();
       } else {
@@ -757,7 +1927,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Mover jugador de la lista de espera al juego (solo admin)
-  app.post("/api/games/:id/waitlist/:playerId/move", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  app.post("/api/games/:id/waitlist/:playerId/move", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
     try {
       const gameId = parseInt(req.params.id);
       const playerId = parseInt(req.params.playerId);
@@ -766,164 +1936,251 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "IDs inválidos" });
       }
       
-      const moved = await storage.moveFromWaitListToGame(gameId, playerId);
-      if (moved) {
-        res.status(200).json({ message: "Jugador movido al juego exitosamente" });
-      } else {
-        res.status(404).json({ message: "Error al mover jugador de la lista de espera" });
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
       }
+      
+      if (!isRosterEditable(game)) {
+        return res.status(409).json({ message: ROSTER_FROZEN_MESSAGE });
+      }
+      
+      // Si tenía un lugar ofrecido, subirlo equivale a aceptar la oferta
+      const offer = await pendingOffer(gameId, playerId);
+      if (offer && (await acceptOffer(offer, (req as any).user.id)) === "accepted") {
+        const promotions = await storage.getWaitListPromotions(gameId);
+        return res.json(promotions.filter(promotion => promotion.playerId === playerId).pop());
+      }
+      
+      if ((await openSpots(game)) <= 0) {
+        return res.status(409).json({ message: "El juego está lleno; quita a un jugador para liberar un lugar" });
+      }
+      
+      const promotion = await storage.moveFromWaitListToGame(gameId, playerId, { promotedBy: (req as any).user.id });
+      if (!promotion) {
+        return res.status(404).json({ message: "Jugador no encontrado en la lista de espera" });
+      }
+      
+      res.json(promotion);
     } catch (error) {
       res.status(500).json({ message: "Error al mover jugador" });
     }
   });
   
-  // Actualizar la generación de parejas para requerir rol admin
-  app.post("/api/pairings/generate", authMiddleware, roleMiddleware(UserRole.ADMIN), async (req, res) => {
+  // Inscripciones del jugador de la sesión en los juegos que no han empezado
+  app.get("/api/signups/mine", authMiddleware, async (req, res) => {
     try {
-      // Obtener parámetros de la solicitud
-      const { gameDate, sets = 3, selectedCourtIds = [] } = req.body;
+      const playerId = (req as any).user.id;
+      await expireOffers();
+      
+      const offers = await storage.getPendingOffersForPlayer(playerId);
+      const upcoming = (await storage.getGames())
+        .filter(isRosterEditable)
+        .sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+      
+      const signups: PlayerSignup[] = [];
+      for (const game of upcoming) {
+        if (game.playerIds.includes(playerId)) {
+          signups.push({ game, status: SignupStatus.CONFIRMED, waitListPosition: null, offerId: null });
+          continue;
+        }
+        
+        const position = (await storage.getWaitList(game.id!)).findIndex(waiting => waiting.id === playerId);
+        if (position === -1) continue;
+        
+        const offer = offers.find(o => o.gameId === game.id);
+        signups.push({
+          game,
+          status: offer ? SignupStatus.OFFERED : SignupStatus.WAIT_LISTED,
+          waitListPosition: position + 1,
+          offerId: offer?.id ?? null,
+        });
+      }
       
-      // Resto del código de generación de parejas igual que antes...
-      const allPlayers = await storage.getPlayers();
-      const selectedPlayers = await storage.getSelectedPlayers();
-      const players = selectedPlayers.length > 0 ? selectedPlayers : allPlayers;
+      res.json(signups);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener tus inscripciones" });
+    }
+  });
+  
+  // Inscribirse a un juego; si está lleno, el jugador queda en la lista de espera
+  app.post("/api/games/:id/signup", authMiddleware, roleMiddleware(Permissions.signUpForGame), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
       
-      // Validación básica de jugadores
-      if (players.length < 4) {
-        return res.status(400).json({ 
-          message: "Se necesitan al menos 4 jugadores para generar parejas" 
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      const signupState = signupWindow(game);
+      if (signupState !== SignupWindow.OPEN) {
+        return res.status(409).json({
+          message: signupState === SignupWindow.NOT_OPEN
+            ? "Las inscripciones para este juego todavía no abren"
+            : "Las inscripciones para este juego ya cerraron"
         });
       }
       
-      // Obtener todas las canchas
-      const allCourts = await storage.getCourts();
+      const playerId = (req as any).user.id;
+      if (game.playerIds.includes(playerId)) {
+        return res.status(409).json({ message: "Ya estás inscrito en este juego" });
+      }
       
-      // Filtrar canchas según selección o usar todas disponibles
-      let availableCourts = [];
-      if (selectedCourtIds && selectedCourtIds.length > 0) {
-        // Usar canchas seleccionadas
-        availableCourts = allCourts.filter(court => selectedCourtIds.includes(court.id));
-      } else {
-        // Usar todas las canchas disponibles
-        availableCourts = allCourts;
+      const waitList = await storage.getWaitList(gameId);
+      if (waitList.some(waiting => waiting.id === playerId) && !(await pendingOffer(gameId, playerId))) {
+        return res.status(409).json({ message: "Ya estás en la lista de espera de este juego" });
       }
       
-      // Verificar si hay suficientes canchas para los jugadores seleccionados
-      // Cada cancha necesita exactamente 4 jugadores
-      const maxPlayers = availableCourts.length * 4;
+      const change = await joinRoster(game, playerId, playerId);
+      res.status(change.waitListed ? 202 : 201).json(change);
+    } catch (error) {
+      res.status(500).json({ message: "Error al inscribirse al juego" });
+    }
+  });
+  
+  // Salirse de un juego o de su lista de espera; el lugar libre se ofrece al siguiente
+  app.delete("/api/games/:id/signup", authMiddleware, roleMiddleware(Permissions.signUpForGame), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
       
-      // Si hay más jugadores que la capacidad máxima, solo tomamos el máximo posible
-      const eligiblePlayers = players.slice(0, maxPlayers);
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
       
-      // Verificar si quedaron jugadores fuera que deberían ir a la lista de espera
-      const waitListPlayers = players.slice(maxPlayers);
+      if (signupWindow(game) === SignupWindow.CLOSED) {
+        return res.status(409).json({ message: "Las inscripciones ya cerraron; pide a un administrador que te quite del juego" });
+      }
       
-      // Calculamos cuántas canchas realmente necesitamos (basado en jugadores elegibles)
-      const requiredCourts = Math.floor(eligiblePlayers.length / 4);
+      const playerId = (req as any).user.id;
+      if (game.playerIds.includes(playerId)) {
+        return res.json(await leaveRoster(game, playerId));
+      }
       
-      // Si no hay suficientes jugadores para al menos una cancha
-      if (requiredCourts === 0) {
-        return res.status(400).json({ 
-          message: "Se necesitan al menos 4 jugadores para generar parejas" 
-        });
+      if (await leaveWaitList(gameId, playerId)) {
+        return res.json({ game: (await storage.getGame(gameId))!, waitListed: false, offered: null });
       }
       
-      // Verificar que los jugadores sean múltiplo de 4
-      if (eligiblePlayers.length % 4 !== 0) {
-        return res.status(400).json({ 
-          message: `Se necesita un múltiplo de 4 jugadores para emparejamientos equitativos` 
-        });
+      res.status(404).json({ message: "No estás inscrito en este juego" });
+    } catch (error) {
+      res.status(500).json({ message: "Error al salir del juego" });
+    }
+  });
+  
+  // Ofertas de lugares libres de un juego, en todos sus estados (solo admin)
+  app.get("/api/games/:id/offers", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
       }
       
-      // Limitamos las canchas a las necesarias
-      const selectedCourts = availableCourts.slice(0, requiredCourts);
-      
-      // Resto del código de generación igual que antes...
-      // ... (el resto de la lógica de generación de pares)
-      
-      // Si hubiera jugadores en lista de espera, los manejaríamos aquí
-      if (waitListPlayers.length > 0) {
-        // Crear un juego para manejar esto
-        const gameData = {
-          gameDate: gameDate || new Date().toISOString().split('T')[0],
-          date: gameDate || new Date().toISOString().split('T')[0],
-          courtIds: selectedCourts.map(c => c.id),
-          status: "pending" as const,
-          maxPlayers: selectedCourts.length * 4,
-          playerIds: [],
-          setsPerMatch: Number(sets) || 3
-        };
-        
-        const game = await storage.createGame(gameData);
-        
-        // Añadir los jugadores restantes a la lista de espera
-        for (const player of waitListPlayers) {
-          if (player.id !== undefined) {
-            await storage.addToWaitList(game.id, player.id);
-          }
-        }
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
       }
       
-      // Obtener los rankings para emparejar de forma equilibrada
-      await storage.calculateRankings();
-      const rankings = await storage.getPlayerRankings();
+      await expireOffers();
+      res.json(await storage.getWaitListOffers(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las ofertas" });
+    }
+  });
+  
+  // Lugares que le ofrecieron al jugador de la sesión y esperan su respuesta
+  app.get("/api/offers/mine", authMiddleware, async (req, res) => {
+    try {
+      await expireOffers();
+      res.json(await storage.getPendingOffersForPlayer((req as any).user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las ofertas" });
+    }
+  });
+  
+  // Aceptar o rechazar un lugar ofrecido; una oferta vencida ya pasó al siguiente
+  app.post("/api/offers/:id/:response", authMiddleware, roleMiddleware(Permissions.respondToOffer), async (req, res) => {
+    try {
+      const offerId = parseInt(req.params.id);
+      const { response } = req.params;
+      if (isNaN(offerId) || (response !== "accept" && response !== "decline")) {
+        return res.status(404).json({ message: "Ruta no encontrada" });
+      }
       
-      // Función para obtener el ranking de un jugador
-      const getPlayerRanking = (playerId: number) => {
-        const ranking = rankings.find(r => r.playerId === playerId);
-        return ranking ? ranking.points : 0;
-      };
+      const offer = await storage.getWaitListOffer(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: "Oferta no encontrada" });
+      }
       
-      // Ordenar jugadores por ranking
-      const sortedPlayers = [...eligiblePlayers].sort((a, b) => {
-        const rankingA = getPlayerRanking(a.id);
-        const rankingB = getPlayerRanking(b.id);
-        return rankingB - rankingA;
-      });
+      const user = (req as any).user;
+      if (!canRespondToOffer(user, offer)) {
+        return res.status(403).json({ message: "Solo el jugador al que se le ofreció el lugar puede responder" });
+      }
       
-      // Crear pares equilibrados (mejor con peor)
-      const balancedPairs = [];
-      for (let i = 0; i < sortedPlayers.length / 2; i++) {
-        balancedPairs.push({
-          player1: sortedPlayers[i],
-          player2: sortedPlayers[sortedPlayers.length - 1 - i]
-        });
+      // Si un admin acepta por el jugador, la promoción queda a su nombre
+      const result = response === "accept"
+        ? await acceptOffer(offer, user.id === offer.playerId ? null : user.id)
+        : await declineOffer(offer);
+      if (result === "expired") {
+        return res.status(410).json({ message: "La oferta venció y el lugar pasó al siguiente de la lista de espera" });
+      }
+      if (result === "not_pending") {
+        return res.status(409).json({ message: "La oferta ya fue respondida" });
       }
       
-      // Ordenar parejas por puntuación combinada
-      const sortedPairs = balancedPairs.sort((a, b) => {
-        const scoreA = getPlayerRanking(a.player1.id) + getPlayerRanking(a.player2.id);
-        const scoreB = getPlayerRanking(b.player1.id) + getPlayerRanking(b.player2.id);
-        return scoreB - scoreA;
-      });
+      res.json(await storage.getWaitListOffer(offerId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al responder la oferta" });
+    }
+  });
+  
+  // Cambiar la prioridad de un jugador en la lista de espera (solo admin); conserva su hora de llegada
+  app.patch("/api/games/:id/waitlist/:playerId", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      const playerId = parseInt(req.params.playerId);
       
-      // Asignar parejas a canchas (0+3, 1+2, etc.)
-      const pairings = [];
-      for (let i = 0; i < selectedCourts.length && i * 2 < sortedPairs.length; i++) {
-        const pairIndex1 = i;
-        const pairIndex2 = sortedPairs.length - 1 - i;
-        
-        if (pairIndex1 >= pairIndex2) break;
-        
-        pairings.push({
-          courtId: selectedCourts[i].id,
-          courtName: selectedCourts[i].name,
-          pair1: sortedPairs[pairIndex1],
-          pair2: sortedPairs[pairIndex2],
-          sets: Number(sets) || 3,
-          gameDate: gameDate || new Date().toISOString().split('T')[0]
-        });
+      if (isNaN(gameId) || isNaN(playerId)) {
+        return res.status(400).json({ message: "IDs inválidos" });
       }
       
-      const validatedPairings = pairingsSchema.parse(pairings);
-      res.json(validatedPairings);
+      const { priority } = waitListPriorityUpdateSchema.parse(req.body);
+      const waitListPlayer = await storage.setWaitListPriority(gameId, playerId, priority);
+      if (!waitListPlayer) {
+        return res.status(404).json({ message: "Jugador no encontrado en la lista de espera" });
+      }
+      
+      res.json(waitListPlayer);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Formato de datos inválido", errors: error.errors });
-      } else {
-        console.error("Error al generar emparejamientos:", error);
-        res.status(500).json({ message: "Error al generar emparejamientos" });
+        return res.status(400).json({ message: "Datos inválidos", errors: error.errors });
       }
+      res.status(500).json({ message: "Error al cambiar la prioridad" });
+    }
+  });
+  
+  // Historial de promociones desde la lista de espera (solo admin)
+  app.get("/api/games/:id/promotions", authMiddleware, roleMiddleware(Permissions.manageGames), async (req, res) => {
+    try {
+      const gameId = parseInt(req.params.id);
+      if (isNaN(gameId)) {
+        return res.status(400).json({ message: "ID de juego inválido" });
+      }
+      
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Juego no encontrado" });
+      }
+      
+      res.json(await storage.getWaitListPromotions(gameId));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las promociones" });
     }
   });
   
@@ -0,0 +1,67 @@
+import { UserRole } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Canchas del club que se crean cuando no se indica otra lista
+export const DEFAULT_COURT_NAMES = ["Lala", "AR", "Mochomos", "Combugas", "Casa del Vino", "Moric", "Central"];
+
+export interface SeedOptions {
+  courtNames: string[];
+  adminName?: string;
+  adminPassword?: string;
+}
+
+export interface SeedSummary {
+  createdCourts: string[];
+  createdAdmin: string | null;
+}
+
+/**
+ * Lee las opciones de siembra de los argumentos (--courts, --admin-name, --admin-password)
+ * o, en su defecto, de SEED_COURTS, SEED_ADMIN_NAME y SEED_ADMIN_PASSWORD.
+ */
+export function readSeedOptions(argv: string[], env: NodeJS.ProcessEnv): SeedOptions {
+  const args = new Map<string, string>();
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)=(.*)$/);
+    if (match) args.set(match[1], match[2]);
+  }
+
+  const courts = args.get("courts") ?? env.SEED_COURTS;
+  const courtNames = courts
+    ? courts.split(",").map(name => name.trim()).filter(Boolean)
+    : DEFAULT_COURT_NAMES;
+
+  return {
+    courtNames,
+    adminName: args.get("admin-name") ?? env.SEED_ADMIN_NAME,
+    adminPassword: args.get("admin-password") ?? env.SEED_ADMIN_PASSWORD,
+  };
+}
+
+/**
+ * Crea las canchas que falten y un primer superadmin. Se puede ejecutar varias veces:
+ * no duplica canchas por nombre ni crea otro superadmin si ya existe uno.
+ */
+export async function seedStorage(target: IStorage, options: SeedOptions): Promise<SeedSummary> {
+  const summary: SeedSummary = { createdCourts: [], createdAdmin: null };
+
+  const existingNames = new Set((await target.getCourts()).map(court => court.name));
+  for (const name of options.courtNames) {
+    if (existingNames.has(name)) continue;
+    await target.createCourt({ name });
+    existingNames.add(name);
+    summary.createdCourts.push(name);
+  }
+
+  const hasSuperadmin = (await target.getPlayers()).some(player => player.role === UserRole.SUPERADMIN);
+  if (!hasSuperadmin && options.adminName && options.adminPassword) {
+    await target.createPlayer({
+      name: options.adminName,
+      role: UserRole.SUPERADMIN,
+      password: options.adminPassword
+    });
+    summary.createdAdmin = options.adminName;
+  }
+
+  return summary;
+}
@@ -0,0 +1,25 @@
+import { appendFile } from "fs/promises";
+import { log } from "./vite";
+
+// Envío de mensajes SMS; cualquier proveedor real debe implementar esta interfaz
+export interface SmsSender {
+  send(phone: string, message: string): Promise<void>;
+}
+
+/**
+ * Implementación por defecto: no envía nada, solo registra el mensaje en consola
+ * y, si se indica un archivo, lo agrega a él. Permite probar el flujo sin conexión.
+ */
+export class LogSmsSender implements SmsSender {
+  constructor(private filePath?: string) {}
+
+  async send(phone: string, message: string): Promise<void> {
+    log(`SMS para ${phone}: ${message}`, "sms");
+
+    if (this.filePath) {
+      await appendFile(this.filePath, `${new Date().toISOString()} ${phone} ${message}\n`);
+    }
+  }
+}
+
+export const smsSender: SmsSender = new LogSmsSender(process.env.SMS_LOG_FILE);
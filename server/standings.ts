@@ -0,0 +1,61 @@
+import type { Match, MatchResult, Pair, SessionStanding } from "@shared/schema";
+
+/**
+ * Calcula la clasificación de una sesión a partir de los sets registrados en los
+ * partidos de todas sus rondas. A diferencia del ranking general, solo cuenta este
+ * juego y ordena por games a favor, como se acostumbra en el Americano.
+ */
+export function computeSessionStandings(matches: Match[], results: MatchResult[]): SessionStanding[] {
+  const standings = new Map<number, SessionStanding>();
+
+  const standingFor = (player: Pair["player1"]) => {
+    let standing = standings.get(player.id);
+    if (!standing) {
+      standing = {
+        playerId: player.id,
+        playerName: player.name,
+        playerAlias: player.alias || null,
+        roundsPlayed: 0,
+        setsWon: 0,
+        setsLost: 0,
+        gamesFor: 0,
+        gamesAgainst: 0,
+      };
+      standings.set(player.id, standing);
+    }
+    return standing;
+  };
+
+  for (const match of matches) {
+    const sets = results.filter(result => result.pairingId === match.id && result.completed);
+    const sides = [
+      { pair: match.pair1, side: "pair1" as const },
+      { pair: match.pair2, side: "pair2" as const },
+    ];
+
+    for (const { pair, side } of sides) {
+      for (const player of [pair.player1, pair.player2]) {
+        const standing = standingFor(player);
+        if (sets.length > 0) standing.roundsPlayed += 1;
+
+        for (const set of sets) {
+          const own = side === "pair1" ? set.pair1Score : set.pair2Score;
+          const other = side === "pair1" ? set.pair2Score : set.pair1Score;
+          standing.gamesFor += own;
+          standing.gamesAgainst += other;
+          if (set.winner === side) {
+            standing.setsWon += 1;
+          } else {
+            standing.setsLost += 1;
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(standings.values()).sort((a, b) =>
+    b.gamesFor - a.gamesFor ||
+    (b.gamesFor - b.gamesAgainst) - (a.gamesFor - a.gamesAgainst) ||
+    b.setsWon - a.setsWon
+  );
+}
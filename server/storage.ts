@@ -1,6 +1,4 @@
 import { 
-  courts, 
-  players, 
   type Court, 
   type InsertCourt, 
   type InsertPlayer, 
@@ -8,9 +6,34 @@ import {
   type Player,
   type PlayerRanking,
   UserRole,
+  roleSatisfies,
   type Game,
-  type WaitListPlayer
+  type InsertMatch,
+  type PhoneVerificationCode,
+  type PhoneCodeLimit,
+  type InsertPairingConstraint,
+  type InsertPairingGeneration,
+  type PairingConstraint,
+  type PairingGeneration,
+  type Match,
+  type RosterEntry,
+  type RosterStatusType,
+  RosterStatus,
+  defaultWaitListPriority,
+  type WaitListPlayer,
+  type WaitListPromotion,
+  type WaitListOffer,
+  type InsertWaitListOffer,
+  type OfferStatusType,
+  OfferStatus,
+  type GameSeries,
+  type InsertGameSeries,
+  type GameSeriesUpdate
 } from "@shared/schema";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
+import { computeRankings } from "./rankings";
+import { isPasswordHash, matchesStoredPassword, toStoredPassword } from "./passwords";
 
 export interface IStorage {
   // Player operations
@@ -18,8 +41,6 @@ export interface IStorage {
   getPlayer(id: number): Promise<Player | undefined>;
   createPlayer(player: InsertPlayer): Promise<Player>;
   updatePlayer(id: number, playerData: Partial<InsertPlayer>): Promise<Player | undefined>;
-  togglePlayerSelection(id: number): Promise<Player | undefined>;
-  getSelectedPlayers(): Promise<Player[]>;
   deletePlayer(id: number): Promise<boolean>;
   
   // Court operations
@@ -28,6 +49,13 @@ export interface IStorage {
   createCourt(court: InsertCourt): Promise<Court>;
   deleteCourt(id: number): Promise<boolean>;
   
+  // Partidos (emparejamientos persistidos de un juego)
+  getMatches(gameId: number): Promise<Match[]>;
+  getMatch(id: number): Promise<Match | undefined>;
+  createMatch(match: InsertMatch): Promise<Match>;
+  updateMatch(id: number, matchData: Partial<InsertMatch>): Promise<Match | undefined>;
+  deleteMatch(id: number): Promise<boolean>; // Elimina también sus resultados
+  
   // Match results operations
   getMatchResults(gameDate?: string): Promise<MatchResult[]>;
   saveMatchResult(result: MatchResult): Promise<MatchResult>;
@@ -41,67 +69,157 @@ export interface IStorage {
   // Autenticación y autorización
   authenticatePlayer(name: string, password: string): Promise<Player | null>;
   getPlayerByName(name: string): Promise<Player | undefined>;
+  getPlayerByPhone(phone: string): Promise<Player | undefined>;
   hasPermission(playerId: number, requiredRole: string): Promise<boolean>;
+  verifyPassword(playerId: number, password: string): Promise<boolean>; // Migra a hash las contraseñas en texto plano
+  
+  // Tokens de restablecimiento de contraseña (se identifican por el hash del token)
+  createPasswordResetToken(playerId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string): Promise<number | null>; // Devuelve el playerId si el token es válido
+  
+  // Códigos de verificación por SMS (uno vigente por teléfono)
+  savePhoneCode(phone: string, codeHash: string, expiresAt: Date): Promise<PhoneVerificationCode>; // Reemplaza el anterior
+  getPhoneCode(phone: string): Promise<PhoneVerificationCode | undefined>;
+  recordPhoneCodeAttempt(phone: string): Promise<number>; // Devuelve los intentos acumulados
+  deletePhoneCode(phone: string): Promise<void>;
+  getPhoneCodeLimit(phone: string): Promise<PhoneCodeLimit | undefined>;
+  updatePhoneCodeLimit(phone: string, changes: Partial<Omit<PhoneCodeLimit, "phone">>): Promise<void>; // Lo crea si no existe
+  recordPhoneCodeFailure(phone: string): Promise<number>; // Devuelve los fallos acumulados del teléfono
   
   // Operaciones de juegos y lista de espera
+  // playerIds se deriva del roster: no se escribe con createGame ni updateGame
   getGames(): Promise<Game[]>;
   getGame(id: number): Promise<Game | undefined>;
-  createGame(game: Omit<Game, 'id'>): Promise<Game>;
+  createGame(game: Omit<Game, 'id' | 'playerIds'>): Promise<Game>;
   updateGame(id: number, gameData: Partial<Game>): Promise<Game | undefined>;
   deleteGame(id: number): Promise<boolean>;
   
-  // Lista de espera
+  // Series de juegos recurrentes
+  getAllGameSeries(): Promise<GameSeries[]>;
+  getGameSeries(id: number): Promise<GameSeries | undefined>;
+  createGameSeries(series: InsertGameSeries): Promise<GameSeries>;
+  updateGameSeries(id: number, update: GameSeriesUpdate): Promise<GameSeries | undefined>;
+  excludeGameSeriesDate(id: number, gameDate: string): Promise<void>; // La serie ya no crea esa fecha
+  deleteGameSeries(id: number): Promise<boolean>; // Los juegos que creó se conservan, sin serie
+  
+  // Roster de cada juego
+  getRoster(gameId: number): Promise<RosterEntry[]>; // Todos los estados, en orden de llegada
+  setRosterStatus(gameId: number, playerId: number, status: RosterStatusType): Promise<RosterEntry>; // Crea la entrada si no existe
+  
+  // Lista de espera, en el orden en que se promueve (prioridad y después llegada)
   getWaitList(gameId: number): Promise<WaitListPlayer[]>;
-  addToWaitList(gameId: number, playerId: number): Promise<WaitListPlayer | null>;
+  addToWaitList(gameId: number, playerId: number, priority?: number): Promise<WaitListPlayer | null>; // Sin prioridad, la de defaultWaitListPriority
+  setWaitListPriority(gameId: number, playerId: number, priority: number): Promise<WaitListPlayer | null>; // Conserva su hora de llegada
   removeFromWaitList(gameId: number, playerId: number): Promise<boolean>;
-  moveFromWaitListToGame(gameId: number, playerId: number): Promise<boolean>;
+  // Confirma al jugador en el roster y registra la promoción; null si no estaba en la lista de espera
+  moveFromWaitListToGame(gameId: number, playerId: number, details?: PromotionDetails): Promise<WaitListPromotion | null>;
+  getWaitListPromotions(gameId: number): Promise<WaitListPromotion[]>; // En orden cronológico
+  
+  // Ofertas de lugares libres a la lista de espera
+  createWaitListOffer(offer: Pick<InsertWaitListOffer, 'gameId' | 'playerId' | 'replacedPlayerId' | 'expiresAt'>): Promise<WaitListOffer>;
+  getWaitListOffer(id: number): Promise<WaitListOffer | undefined>;
+  getWaitListOffers(gameId: number): Promise<WaitListOffer[]>; // Todos los estados, en orden cronológico
+  getPendingOffersForPlayer(playerId: number): Promise<WaitListOffer[]>;
+  getExpiredOffers(now: Date): Promise<WaitListOffer[]>; // Pendientes con el plazo cumplido, de todos los juegos
+  resolveWaitListOffer(id: number, status: OfferStatusType): Promise<WaitListOffer | undefined>; // Solo si sigue pendiente
+  
+  // Descansos (jugadores que quedaron fuera de las canchas de un juego)
+  getSitOutCounts(gameIds: number[]): Promise<Map<number, number>>; // key = playerId
+  getGameSitOuts(gameId: number): Promise<GameSitOut[]>;
+  setGameSitOuts(gameId: number, sitOuts: GameSitOut[]): Promise<void>; // Reemplaza los anteriores
+  
+  // Restricciones de emparejamiento
+  getPairingConstraints(gameId?: number): Promise<PairingConstraint[]>; // Globales más las del juego
+  createPairingConstraint(constraint: InsertPairingConstraint): Promise<PairingConstraint>;
+  deletePairingConstraint(id: number): Promise<boolean>;
+  
+  // Registro de generaciones de emparejamientos
+  getPairingGenerations(gameId: number): Promise<PairingGeneration[]>; // De la más reciente a la más antigua
+  getPairingGeneration(id: number): Promise<PairingGeneration | undefined>;
+  createPairingGeneration(generation: InsertPairingGeneration): Promise<PairingGeneration>;
+}
+
+// Un descanso: el jugador quedó fuera de las canchas en esa ronda del juego
+export interface GameSitOut {
+  playerId: number;
+  round: number;
+}
+
+// Contexto de una promoción desde la lista de espera; sin promotedBy se considera automática
+export interface PromotionDetails {
+  replacedPlayerId?: number | null;
+  promotedBy?: number | null;
+}
+
+// Orden de promoción: prioridad más alta primero y, a igual prioridad, quien llegó antes
+export function compareWaitList(a: WaitListPlayer, b: WaitListPlayer): number {
+  return b.priority - a.priority || a.waitingSince.getTime() - b.waitingSince.getTime();
+}
+
+interface PasswordResetToken {
+  playerId: number;
+  expiresAt: Date;
 }
 
 export class MemStorage implements IStorage {
   private players: Map<number, Player>;
   private courts: Map<number, Court>;
+  private matches: Map<number, Match>;
   private matchResults: Map<number, MatchResult>;
   private playerRankings: Map<number, PlayerRanking>;
-  private games: Map<number, Game>;
+  private games: Map<number, Omit<Game, 'playerIds'>>;
+  private gameSeries: Map<number, GameSeries>;
+  private roster: Map<number, RosterEntry[]>; // key = gameId
   private waitLists: Map<number, WaitListPlayer[]>; // key = gameId
+  private promotions: Map<number, WaitListPromotion[]>; // key = gameId
+  private offers: Map<number, WaitListOffer>;
+  private sitOuts: Map<number, GameSitOut[]>; // key = gameId
+  private pairingConstraints: Map<number, PairingConstraint>;
+  private pairingGenerations: Map<number, PairingGeneration>;
+  private passwordResetTokens: Map<string, PasswordResetToken>; // key = tokenHash
+  private phoneCodes: Map<string, PhoneVerificationCode>; // key = phone
+  private phoneCodeLimits: Map<string, PhoneCodeLimit>; // key = phone
   private playerIdCounter: number;
   private courtIdCounter: number;
+  private matchIdCounter: number;
   private resultIdCounter: number;
   private gameIdCounter: number;
+  private seriesIdCounter: number;
+  private rosterIdCounter: number;
+  private promotionIdCounter: number;
+  private offerIdCounter: number;
+  private constraintIdCounter: number;
+  private generationIdCounter: number;
 
   constructor() {
     this.players = new Map();
     this.courts = new Map();
+    this.matches = new Map();
     this.matchResults = new Map();
     this.playerRankings = new Map();
     this.games = new Map();
+    this.gameSeries = new Map();
+    this.roster = new Map();
     this.waitLists = new Map();
+    this.promotions = new Map();
+    this.offers = new Map();
+    this.sitOuts = new Map();
+    this.pairingConstraints = new Map();
+    this.pairingGenerations = new Map();
+    this.passwordResetTokens = new Map();
+    this.phoneCodes = new Map();
+    this.phoneCodeLimits = new Map();
     this.playerIdCounter = 1;
     this.courtIdCounter = 1;
+    this.matchIdCounter = 1;
     this.resultIdCounter = 1;
     this.gameIdCounter = 1;
-    
-    // Initialize with predefined courts
-    const predefinedCourts = ["Lala", "AR", "Mochomos", "Combugas", "Casa del Vino", "Moric", "Central"];
-    predefinedCourts.forEach(name => {
-      this.createCourt({ name });
-    });
-    
-    // Crear usuario superadmin por defecto
-    this.createPlayer({
-      name: "Admin",
-      role: UserRole.SUPERADMIN,
-      password: "admin123", // En una implementación real, esto debería estar hasheado
-      selected: false
-    });
-    
-    // Crear usuario admin con número de teléfono específico
-    this.createPlayer({
-      name: "Administrador",
-      role: UserRole.ADMIN,
-      phone: "123456789", // Número para acceso de administrador
-      selected: false
-    });
+    this.seriesIdCounter = 1;
+    this.rosterIdCounter = 1;
+    this.promotionIdCounter = 1;
+    this.offerIdCounter = 1;
+    this.constraintIdCounter = 1;
+    this.generationIdCounter = 1;
   }
 
   // Player operations
@@ -121,10 +239,12 @@ export class MemStorage implements IStorage {
       alias: insertPlayer.alias || null,
       phone: insertPlayer.phone || null,
       affiliationNumber: insertPlayer.affiliationNumber || null,
-      selected: insertPlayer.selected || false,
       role: insertPlayer.role || UserRole.PLAYER,
-      password: insertPlayer.password || null,
-      invitedBy: insertPlayer.invitedBy || null
+      password: insertPlayer.password ? await toStoredPassword(insertPlayer.password) : null,
+      invitedBy: insertPlayer.invitedBy || null,
+      category: insertPlayer.category || null,
+      preferredSide: insertPlayer.preferredSide || null,
+      dominantHand: insertPlayer.dominantHand || null
     };
     this.players.set(id, player);
     return player;
@@ -139,29 +259,35 @@ export class MemStorage implements IStorage {
       ...playerData,
       id
     };
+    if (playerData.password) {
+      updatedPlayer.password = await toStoredPassword(playerData.password);
+    }
 
     this.players.set(id, updatedPlayer);
     return updatedPlayer;
   }
 
-  async togglePlayerSelection(id: number): Promise<Player | undefined> {
-    const player = this.players.get(id);
-    if (!player) return undefined;
-
-    const updatedPlayer: Player = {
-      ...player,
-      selected: player.selected === null ? true : !player.selected
-    };
-
-    this.players.set(id, updatedPlayer);
-    return updatedPlayer;
-  }
-
-  async getSelectedPlayers(): Promise<Player[]> {
-    return Array.from(this.players.values()).filter(player => player.selected);
-  }
-
   async deletePlayer(id: number): Promise<boolean> {
+    this.deleteConstraintsWhere(c => c.playerId === id || c.otherPlayerId === id);
+    for (const [gameId, entries] of Array.from(this.roster.entries())) {
+      this.roster.set(gameId, entries.filter(entry => entry.playerId !== id));
+    }
+    for (const [gameId, waitList] of Array.from(this.waitLists.entries())) {
+      this.waitLists.set(gameId, waitList.filter(player => player.id !== id));
+    }
+    this.deleteOffersWhere(offer => offer.playerId === id);
+    for (const offer of Array.from(this.offers.values())) {
+      if (offer.replacedPlayerId === id) offer.replacedPlayerId = null;
+    }
+    for (const [gameId, promotions] of Array.from(this.promotions.entries())) {
+      this.promotions.set(gameId, promotions
+        .filter(promotion => promotion.playerId !== id)
+        .map(promotion => ({
+          ...promotion,
+          replacedPlayerId: promotion.replacedPlayerId === id ? null : promotion.replacedPlayerId,
+          promotedBy: promotion.promotedBy === id ? null : promotion.promotedBy,
+        })));
+    }
     return this.players.delete(id);
   }
 
@@ -182,9 +308,50 @@ export class MemStorage implements IStorage {
   }
 
   async deleteCourt(id: number): Promise<boolean> {
+    this.deleteConstraintsWhere(c => c.courtId === id);
     return this.courts.delete(id);
   }
   
+  // Operaciones de partidos
+  async getMatches(gameId: number): Promise<Match[]> {
+    return Array.from(this.matches.values()).filter(match => match.gameId === gameId);
+  }
+  
+  async getMatch(id: number): Promise<Match | undefined> {
+    return this.matches.get(id);
+  }
+  
+  async createMatch(match: InsertMatch): Promise<Match> {
+    const id = this.matchIdCounter++;
+    const newMatch: Match = { ...match, id };
+    this.matches.set(id, newMatch);
+    return newMatch;
+  }
+  
+  async updateMatch(id: number, matchData: Partial<InsertMatch>): Promise<Match | undefined> {
+    const match = this.matches.get(id);
+    if (!match) return undefined;
+    
+    const updatedMatch = { ...match, ...matchData, id };
+    this.matches.set(id, updatedMatch);
+    return updatedMatch;
+  }
+  
+  async deleteMatch(id: number): Promise<boolean> {
+    if (!this.matches.delete(id)) return false;
+    
+    // Eliminar los resultados del partido y recalcular rankings
+    const resultIds = Array.from(this.matchResults.values())
+      .filter(result => result.pairingId === id)
+      .map(result => result.id!);
+    resultIds.forEach(resultId => this.matchResults.delete(resultId));
+    if (resultIds.length > 0) {
+      await this.calculateRankings();
+    }
+    
+    return true;
+  }
+  
   // Match results operations
   async getMatchResults(gameDate?: string): Promise<MatchResult[]> {
     const results = Array.from(this.matchResults.values());
@@ -238,22 +405,11 @@ export class MemStorage implements IStorage {
   async authenticatePlayer(name: string, password: string): Promise<Player | null> {
     const player = await this.getPlayerByName(name);
     
-    if (!player || player.password !== password) {
-      return null;
-    }
-    
-    return player;
-  }
-  
-  // Autenticación por número de teléfono
-  async authenticateByPhone(phone: string): Promise<Player | null> {
-    const player = await this.getPlayerByPhone(phone);
-    
-    if (!player) {
+    if (!player || !(await this.verifyPassword(player.id, password))) {
       return null;
     }
     
-    return player;
+    return (await this.getPlayer(player.id)) ?? null;
   }
   
   async getPlayerByName(name: string): Promise<Player | undefined> {
@@ -271,203 +427,228 @@ export class MemStorage implements IStorage {
     if (!player) return false;
     
     // Verificar jerarquía de roles
-    if (player.role === UserRole.SUPERADMIN) return true;
-    if (player.role === UserRole.ADMIN && requiredRole !== UserRole.SUPERADMIN) return true;
-    if (player.role === requiredRole) return true;
+    return roleSatisfies(player.role, requiredRole);
+  }
+  
+  async verifyPassword(playerId: number, password: string): Promise<boolean> {
+    const player = await this.getPlayer(playerId);
+    if (!player?.password || !(await matchesStoredPassword(password, player.password))) {
+      return false;
+    }
     
-    return false;
+    // Contraseña heredada en texto plano: se reemplaza por su hash al validarla
+    if (!isPasswordHash(player.password)) {
+      await this.updatePlayer(playerId, { password });
+    }
+    
+    return true;
   }
   
-  async calculateRankings(): Promise<void> {
-    // Reiniciar rankings
-    this.playerRankings.clear();
+  async createPasswordResetToken(playerId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    // Un token nuevo invalida los anteriores del mismo jugador
+    Array.from(this.passwordResetTokens.entries())
+      .filter(([, token]) => token.playerId === playerId)
+      .forEach(([hash]) => this.passwordResetTokens.delete(hash));
     
-    // Inicializar rankings para todos los jugadores
-    const allPlayers = await this.getPlayers();
-    allPlayers.forEach(player => {
-      this.playerRankings.set(player.id, {
-        playerId: player.id,
-        playerName: player.name,
-        playerAlias: player.alias || null,
-        gamesPlayed: 0,
-        gamesWon: 0,
-        setsPlayed: 0,
-        setsWon: 0,
-        points: 0
-      });
-    });
-    
-    // Procesar todos los resultados
-    const results = Array.from(this.matchResults.values());
+    this.passwordResetTokens.set(tokenHash, { playerId, expiresAt });
+  }
+  
+  async consumePasswordResetToken(tokenHash: string): Promise<number | null> {
+    const token = this.passwordResetTokens.get(tokenHash);
+    if (!token) return null;
     
-    for (const result of results) {
-      if (!result.completed) continue;
-      
-      const player1Id = result.pair1.player1.id;
-      const player2Id = result.pair1.player2.id;
-      const player3Id = result.pair2.player1.id;
-      const player4Id = result.pair2.player2.id;
-      
-      // Actualizar estadísticas para el par 1
-      if (result.winner === 'pair1') {
-        this.updatePairStats(player1Id, player2Id, true, result.setNumber);
-        this.updatePairStats(player3Id, player4Id, false, result.setNumber);
-      } else {
-        this.updatePairStats(player1Id, player2Id, false, result.setNumber);
-        this.updatePairStats(player3Id, player4Id, true, result.setNumber);
-      }
-    }
+    this.passwordResetTokens.delete(tokenHash);
+    return token.expiresAt > new Date() ? token.playerId : null;
+  }
+  
+  // Códigos de verificación por SMS
+  async savePhoneCode(phone: string, codeHash: string, expiresAt: Date): Promise<PhoneVerificationCode> {
+    const code: PhoneVerificationCode = { phone, codeHash, expiresAt, attempts: 0, createdAt: new Date() };
+    this.phoneCodes.set(phone, code);
+    return code;
   }
   
-  // Método auxiliar para actualizar estadísticas de un par de jugadores
-  private updatePairStats(player1Id: number, player2Id: number, isWinner: boolean, setCount: number): void {
-    const ranking1 = this.playerRankings.get(player1Id);
-    const ranking2 = this.playerRankings.get(player2Id);
+  async getPhoneCode(phone: string): Promise<PhoneVerificationCode | undefined> {
+    return this.phoneCodes.get(phone);
+  }
+  
+  async recordPhoneCodeAttempt(phone: string): Promise<number> {
+    const code = this.phoneCodes.get(phone);
+    if (!code) return 0;
     
-    // Obtener todos los resultados para verificar marcadores 6-0
+    code.attempts += 1;
+    return code.attempts;
+  }
+  
+  async deletePhoneCode(phone: string): Promise<void> {
+    this.phoneCodes.delete(phone);
+  }
+  
+  async getPhoneCodeLimit(phone: string): Promise<PhoneCodeLimit | undefined> {
+    return this.phoneCodeLimits.get(phone);
+  }
+  
+  async updatePhoneCodeLimit(phone: string, changes: Partial<Omit<PhoneCodeLimit, "phone">>): Promise<void> {
+    const limit = this.phoneCodeLimits.get(phone) ?? { phone, lastIssuedAt: null, failedAttempts: 0, lockedUntil: null };
+    this.phoneCodeLimits.set(phone, { ...limit, ...changes, phone });
+  }
+  
+  async recordPhoneCodeFailure(phone: string): Promise<number> {
+    const failedAttempts = (this.phoneCodeLimits.get(phone)?.failedAttempts ?? 0) + 1;
+    await this.updatePhoneCodeLimit(phone, { failedAttempts });
+    return failedAttempts;
+  }
+  
+  async calculateRankings(): Promise<void> {
+    // Reiniciar rankings a partir de todos los resultados
+    const allPlayers = await this.getPlayers();
     const results = Array.from(this.matchResults.values());
-    const specialScoreResults = results.filter(result => 
-      (result.pair1Score === 6 && result.pair2Score === 0) || 
-      (result.pair1Score === 0 && result.pair2Score === 6)
-    );
-    
-    if (ranking1) {
-      // Actualizar estadísticas del jugador 1
-      ranking1.gamesPlayed += 1;
-      ranking1.setsPlayed += setCount;
-      
-      // 1 punto por default por participación
-      ranking1.points += 1;
-      
-      if (isWinner) {
-        ranking1.gamesWon += 1;
-        ranking1.setsWon += setCount;
-        
-        // 1 punto adicional por cada set ganado
-        ranking1.points += setCount;
-        
-        // Verificar si hubo marcadores 6-0 a favor
-        for (const result of specialScoreResults) {
-          if ((result.winner === 'pair1' && 
-               (result.pair1.player1.id === player1Id || result.pair1.player2.id === player1Id)) || 
-              (result.winner === 'pair2' && 
-               (result.pair2.player1.id === player1Id || result.pair2.player2.id === player1Id))) {
-            // 3 puntos adicionales por sets 6-0
-            ranking1.points += 3;
-          }
-        }
-      } else {
-        // Restar 1 punto por cada set perdido
-        ranking1.points -= setCount;
-        
-        // Verificar si hubo marcadores 0-6 en contra
-        for (const result of specialScoreResults) {
-          if ((result.winner === 'pair2' && 
-               (result.pair1.player1.id === player1Id || result.pair1.player2.id === player1Id)) || 
-              (result.winner === 'pair1' && 
-               (result.pair2.player1.id === player1Id || result.pair2.player2.id === player1Id))) {
-            // -3 puntos adicionales por sets 0-6
-            ranking1.points -= 3;
-          }
-        }
-      }
-      
-      // Asegurar que los puntos no sean negativos
-      ranking1.points = Math.max(0, ranking1.points);
-      
-      this.playerRankings.set(player1Id, ranking1);
-    }
-    
-    if (ranking2) {
-      // Actualizar estadísticas del jugador 2
-      ranking2.gamesPlayed += 1;
-      ranking2.setsPlayed += setCount;
-      
-      // 1 punto por default por participación
-      ranking2.points += 1;
-      
-      if (isWinner) {
-        ranking2.gamesWon += 1;
-        ranking2.setsWon += setCount;
-        
-        // 1 punto adicional por cada set ganado
-        ranking2.points += setCount;
-        
-        // Verificar si hubo marcadores 6-0 a favor
-        for (const result of specialScoreResults) {
-          if ((result.winner === 'pair1' && 
-               (result.pair1.player1.id === player2Id || result.pair1.player2.id === player2Id)) || 
-              (result.winner === 'pair2' && 
-               (result.pair2.player1.id === player2Id || result.pair2.player2.id === player2Id))) {
-            // 3 puntos adicionales por sets 6-0
-            ranking2.points += 3;
-          }
-        }
-      } else {
-        // Restar 1 punto por cada set perdido
-        ranking2.points -= setCount;
-        
-        // Verificar si hubo marcadores 0-6 en contra
-        for (const result of specialScoreResults) {
-          if ((result.winner === 'pair2' && 
-               (result.pair1.player1.id === player2Id || result.pair1.player2.id === player2Id)) || 
-              (result.winner === 'pair1' && 
-               (result.pair2.player1.id === player2Id || result.pair2.player2.id === player2Id))) {
-            // -3 puntos adicionales por sets 0-6
-            ranking2.points -= 3;
-          }
-        }
-      }
-      
-      // Asegurar que los puntos no sean negativos
-      ranking2.points = Math.max(0, ranking2.points);
-      
-      this.playerRankings.set(player2Id, ranking2);
-    }
+    this.playerRankings = computeRankings(allPlayers, results);
   }
   
   // Implementación de operaciones de juegos
   async getGames(): Promise<Game[]> {
-    return Array.from(this.games.values());
+    return Array.from(this.games.values()).map(game => this.withRoster(game));
   }
   
   async getGame(id: number): Promise<Game | undefined> {
-    return this.games.get(id);
+    const game = this.games.get(id);
+    return game ? this.withRoster(game) : undefined;
   }
   
-  async createGame(game: Omit<Game, 'id'>): Promise<Game> {
+  async createGame(game: Omit<Game, 'id' | 'playerIds'>): Promise<Game> {
     const id = this.gameIdCounter++;
-    const newGame: Game = { ...game, id };
+    const newGame = { ...game, id };
     
-    // Inicializar lista de espera vacía
+    // Inicializar lista de espera y roster vacíos
     this.waitLists.set(id, []);
+    this.roster.set(id, []);
     
     this.games.set(id, newGame);
-    return newGame;
+    return this.withRoster(newGame);
   }
   
   async updateGame(id: number, gameData: Partial<Game>): Promise<Game | undefined> {
     const game = this.games.get(id);
     if (!game) return undefined;
     
-    const updatedGame = { ...game, ...gameData, id };
+    const { playerIds: _, ...data } = gameData;
+    const updatedGame = { ...game, ...data, id };
     this.games.set(id, updatedGame);
-    return updatedGame;
+    return this.withRoster(updatedGame);
+  }
+  
+  // El juego con los confirmados de su roster, en orden de llegada
+  private withRoster(game: Omit<Game, 'playerIds'>): Game {
+    const playerIds = (this.roster.get(game.id!) || [])
+      .filter(entry => entry.status === RosterStatus.CONFIRMED)
+      .map(entry => entry.playerId);
+    return { ...game, playerIds };
   }
   
   async deleteGame(id: number): Promise<boolean> {
-    // Eliminar también la lista de espera asociada
+    // Eliminar también el roster, la lista de espera, los descansos, las restricciones, las generaciones y los partidos asociados
+    this.roster.delete(id);
     this.waitLists.delete(id);
+    this.promotions.delete(id);
+    this.deleteOffersWhere(offer => offer.gameId === id);
+    this.sitOuts.delete(id);
+    this.deleteConstraintsWhere(c => c.gameId === id);
+    for (const generation of Array.from(this.pairingGenerations.values())) {
+      if (generation.gameId === id) this.pairingGenerations.delete(generation.id);
+    }
+    const matches = await this.getMatches(id);
+    for (const match of matches) {
+      await this.deleteMatch(match.id);
+    }
     return this.games.delete(id);
   }
   
+  // Series de juegos recurrentes
+  async getAllGameSeries(): Promise<GameSeries[]> {
+    return Array.from(this.gameSeries.values());
+  }
+  
+  async getGameSeries(id: number): Promise<GameSeries | undefined> {
+    return this.gameSeries.get(id);
+  }
+  
+  async createGameSeries(series: InsertGameSeries): Promise<GameSeries> {
+    const id = this.seriesIdCounter++;
+    const newSeries: GameSeries = {
+      ...series,
+      id,
+      endDate: series.endDate ?? null,
+      occurrences: series.occurrences ?? null,
+      maxPlayers: series.maxPlayers ?? null,
+      description: series.description ?? null,
+      offerWindowMinutes: series.offerWindowMinutes ?? null,
+      excludedDates: [],
+      createdAt: new Date(),
+    };
+    this.gameSeries.set(id, newSeries);
+    return newSeries;
+  }
+  
+  async updateGameSeries(id: number, update: GameSeriesUpdate): Promise<GameSeries | undefined> {
+    const series = this.gameSeries.get(id);
+    if (!series) return undefined;
+    
+    const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    const updatedSeries = { ...series, ...changes, id };
+    this.gameSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+  
+  async excludeGameSeriesDate(id: number, gameDate: string): Promise<void> {
+    const series = this.gameSeries.get(id);
+    if (series && !series.excludedDates.includes(gameDate)) {
+      this.gameSeries.set(id, { ...series, excludedDates: [...series.excludedDates, gameDate] });
+    }
+  }
+  
+  async deleteGameSeries(id: number): Promise<boolean> {
+    for (const game of Array.from(this.games.values())) {
+      if (game.seriesId === id) this.games.set(game.id!, { ...game, seriesId: undefined });
+    }
+    return this.gameSeries.delete(id);
+  }
+  
+  // Implementación de operaciones del roster
+  async getRoster(gameId: number): Promise<RosterEntry[]> {
+    return [...(this.roster.get(gameId) || [])]
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime() || a.id - b.id);
+  }
+  
+  async setRosterStatus(gameId: number, playerId: number, status: RosterStatusType): Promise<RosterEntry> {
+    const entries = this.roster.get(gameId) || [];
+    const existing = entries.find(entry => entry.playerId === playerId);
+    if (existing) {
+      // Quien vuelve a confirmarse pasa al final del orden de llegada
+      if (status === RosterStatus.CONFIRMED && existing.status !== RosterStatus.CONFIRMED) {
+        existing.joinedAt = new Date();
+      }
+      existing.status = status;
+      return existing;
+    }
+    
+    const entry: RosterEntry = { id: this.rosterIdCounter++, gameId, playerId, status, joinedAt: new Date() };
+    entries.push(entry);
+    this.roster.set(gameId, entries);
+    return entry;
+  }
+  
   // Implementación de operaciones de lista de espera
   async getWaitList(gameId: number): Promise<WaitListPlayer[]> {
+    // El orden de inserción desempata a quienes llegaron en el mismo milisegundo
     const waitList = this.waitLists.get(gameId) || [];
-    return waitList;
+    return waitList
+      .map((player, index) => ({ player, index }))
+      .sort((a, b) => compareWaitList(a.player, b.player) || a.index - b.index)
+      .map(({ player }) => player);
   }
   
-  async addToWaitList(gameId: number, playerId: number): Promise<WaitListPlayer | null> {
+  async addToWaitList(gameId: number, playerId: number, priority?: number): Promise<WaitListPlayer | null> {
     const game = this.games.get(gameId);
     if (!game) return null;
     
@@ -485,8 +666,9 @@ export class MemStorage implements IStorage {
       alias: player.alias,
       phone: player.phone,
       affiliationNumber: player.affiliationNumber,
-      selected: player.selected === null ? false : player.selected,
       role: player.role,
+      priority: priority ?? defaultWaitListPriority(player),
+      waitingSince: new Date(),
     };
     
     // Actualizar lista de espera
@@ -496,6 +678,15 @@ export class MemStorage implements IStorage {
     return waitListPlayer;
   }
   
+  async setWaitListPriority(gameId: number, playerId: number, priority: number): Promise<WaitListPlayer | null> {
+    const waitList = this.waitLists.get(gameId) || [];
+    const index = waitList.findIndex(p => p.id === playerId);
+    if (index === -1) return null;
+    
+    waitList[index] = { ...waitList[index], priority };
+    return waitList[index];
+  }
+  
   async removeFromWaitList(gameId: number, playerId: number): Promise<boolean> {
     const waitList = this.waitLists.get(gameId) || [];
     const initialLength = waitList.length;
@@ -506,18 +697,160 @@ export class MemStorage implements IStorage {
     return filteredList.length < initialLength;
   }
   
-  async moveFromWaitListToGame(gameId: number, playerId: number): Promise<boolean> {
-    // Esta funcionalidad requeriría más implementación en un sistema real
-    // Para este ejemplo, simplemente seleccionamos el jugador y lo quitamos de la lista de espera
-    const player = await this.getPlayer(playerId);
-    if (!player) return false;
-    
-    // Marcar el jugador como seleccionado
-    await this.updatePlayer(playerId, { selected: true });
+  async moveFromWaitListToGame(gameId: number, playerId: number, details: PromotionDetails = {}): Promise<WaitListPromotion | null> {
+    const waiting = (this.waitLists.get(gameId) || []).find(p => p.id === playerId);
+    if (!waiting) return null;
+    
+    // Confirmar al jugador en el roster del juego y quitarlo de la lista de espera
+    await this.setRosterStatus(gameId, playerId, RosterStatus.CONFIRMED);
+    await this.removeFromWaitList(gameId, playerId);
+    
+    const promotion: WaitListPromotion = {
+      id: this.promotionIdCounter++,
+      gameId,
+      playerId,
+      replacedPlayerId: details.replacedPlayerId ?? null,
+      promotedBy: details.promotedBy ?? null,
+      waitingSince: waiting.waitingSince,
+      promotedAt: new Date(),
+    };
+    this.promotions.set(gameId, [...(this.promotions.get(gameId) || []), promotion]);
+    return promotion;
+  }
+  
+  async getWaitListPromotions(gameId: number): Promise<WaitListPromotion[]> {
+    return this.promotions.get(gameId) || [];
+  }
+  
+  // Implementación de operaciones de ofertas
+  async createWaitListOffer(offer: Pick<InsertWaitListOffer, 'gameId' | 'playerId' | 'replacedPlayerId' | 'expiresAt'>): Promise<WaitListOffer> {
+    const newOffer: WaitListOffer = {
+      id: this.offerIdCounter++,
+      gameId: offer.gameId,
+      playerId: offer.playerId,
+      replacedPlayerId: offer.replacedPlayerId ?? null,
+      status: OfferStatus.PENDING,
+      offeredAt: new Date(),
+      expiresAt: offer.expiresAt,
+      respondedAt: null,
+    };
+    this.offers.set(newOffer.id, newOffer);
+    return newOffer;
+  }
+  
+  async getWaitListOffer(id: number): Promise<WaitListOffer | undefined> {
+    return this.offers.get(id);
+  }
+  
+  async getWaitListOffers(gameId: number): Promise<WaitListOffer[]> {
+    return Array.from(this.offers.values()).filter(offer => offer.gameId === gameId);
+  }
+  
+  async getPendingOffersForPlayer(playerId: number): Promise<WaitListOffer[]> {
+    return Array.from(this.offers.values())
+      .filter(offer => offer.playerId === playerId && offer.status === OfferStatus.PENDING);
+  }
+  
+  async getExpiredOffers(now: Date): Promise<WaitListOffer[]> {
+    return Array.from(this.offers.values())
+      .filter(offer => offer.status === OfferStatus.PENDING && offer.expiresAt <= now);
+  }
+  
+  async resolveWaitListOffer(id: number, status: OfferStatusType): Promise<WaitListOffer | undefined> {
+    const offer = this.offers.get(id);
+    if (!offer || offer.status !== OfferStatus.PENDING) return undefined;
     
-    // Remover de la lista de espera
-    return this.removeFromWaitList(gameId, playerId);
+    const resolved = { ...offer, status, respondedAt: new Date() };
+    this.offers.set(id, resolved);
+    return resolved;
+  }
+  
+  private deleteOffersWhere(predicate: (offer: WaitListOffer) => boolean): void {
+    for (const offer of Array.from(this.offers.values())) {
+      if (predicate(offer)) this.offers.delete(offer.id);
+    }
+  }
+  
+  // Implementación de operaciones de descansos
+  async getSitOutCounts(gameIds: number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    for (const gameId of gameIds) {
+      for (const { playerId } of this.sitOuts.get(gameId) || []) {
+        counts.set(playerId, (counts.get(playerId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+  
+  async getGameSitOuts(gameId: number): Promise<GameSitOut[]> {
+    return this.sitOuts.get(gameId) || [];
+  }
+  
+  async setGameSitOuts(gameId: number, sitOuts: GameSitOut[]): Promise<void> {
+    this.sitOuts.set(gameId, [...sitOuts]);
+  }
+  
+  // Implementación de operaciones de restricciones
+  async getPairingConstraints(gameId?: number): Promise<PairingConstraint[]> {
+    return Array.from(this.pairingConstraints.values())
+      .filter(constraint => constraint.gameId === null || constraint.gameId === gameId);
+  }
+  
+  async createPairingConstraint(constraint: InsertPairingConstraint): Promise<PairingConstraint> {
+    const id = this.constraintIdCounter++;
+    const newConstraint: PairingConstraint = {
+      id,
+      gameId: constraint.gameId ?? null,
+      kind: constraint.kind,
+      playerId: constraint.playerId,
+      otherPlayerId: constraint.otherPlayerId ?? null,
+      courtId: constraint.courtId ?? null,
+      createdAt: new Date(),
+    };
+    this.pairingConstraints.set(id, newConstraint);
+    return newConstraint;
+  }
+  
+  async deletePairingConstraint(id: number): Promise<boolean> {
+    return this.pairingConstraints.delete(id);
+  }
+  
+  // Implementación de operaciones del registro de generaciones
+  async getPairingGenerations(gameId: number): Promise<PairingGeneration[]> {
+    return Array.from(this.pairingGenerations.values())
+      .filter(generation => generation.gameId === gameId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getPairingGeneration(id: number): Promise<PairingGeneration | undefined> {
+    return this.pairingGenerations.get(id);
+  }
+  
+  async createPairingGeneration(generation: InsertPairingGeneration): Promise<PairingGeneration> {
+    const id = this.generationIdCounter++;
+    const newGeneration: PairingGeneration = {
+      id,
+      gameId: generation.gameId,
+      seed: generation.seed,
+      strategy: generation.strategy,
+      input: generation.input,
+      output: generation.output,
+      createdBy: generation.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.pairingGenerations.set(id, newGeneration);
+    return newGeneration;
+  }
+  
+  // Equivalente al ON DELETE CASCADE de la base de datos
+  private deleteConstraintsWhere(predicate: (constraint: PairingConstraint) => boolean): void {
+    for (const [id, constraint] of Array.from(this.pairingConstraints)) {
+      if (predicate(constraint)) this.pairingConstraints.delete(id);
+    }
   }
 }
 
-export const storage = new MemStorage();
+// Con DATABASE_URL los datos se persisten en Postgres; sin ella (p. ej. en pruebas) se usa memoria
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,177 @@
+import {
+  DEFAULT_OFFER_WINDOW_MINUTES,
+  GameStatus,
+  OfferStatus,
+  RosterStatus,
+  type Game,
+  type RosterChange,
+  type WaitListOffer,
+  type WaitListPlayer
+} from "@shared/schema";
+import { storage } from "./storage";
+import { smsSender } from "./sms";
+
+export const OFFER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type OfferResponse = "accepted" | "declined" | "expired" | "not_pending";
+
+// Lugares libres: la capacidad menos los confirmados y las ofertas que esperan respuesta
+export async function openSpots(game: Game): Promise<number> {
+  if (game.maxPlayers === undefined) return Infinity;
+
+  const offers = await storage.getWaitListOffers(game.id!);
+  const pending = offers.filter(offer => offer.status === OfferStatus.PENDING).length;
+  return game.maxPlayers - game.playerIds.length - pending;
+}
+
+export async function pendingOffer(gameId: number, playerId: number): Promise<WaitListOffer | undefined> {
+  const offers = await storage.getPendingOffersForPlayer(playerId);
+  return offers.find(offer => offer.gameId === gameId);
+}
+
+// Reserva el lugar por el plazo del juego y avisa por SMS a quien tiene teléfono
+async function createOffer(game: Game, player: WaitListPlayer, replacedPlayerId: number | null): Promise<WaitListOffer> {
+  const windowMinutes = game.offerWindowMinutes ?? DEFAULT_OFFER_WINDOW_MINUTES;
+  const offer = await storage.createWaitListOffer({
+    gameId: game.id!,
+    playerId: player.id,
+    replacedPlayerId,
+    expiresAt: new Date(Date.now() + windowMinutes * 60 * 1000),
+  });
+
+  if (player.phone) {
+    await smsSender.send(
+      player.phone,
+      `Se liberó un lugar en el juego del ${game.gameDate}. Acéptalo en SportMatchMaker en los próximos ` +
+      `${windowMinutes} minutos o pasará al siguiente de la lista de espera.`
+    );
+  }
+  return offer;
+}
+
+/**
+ * Ofrece los lugares libres de un juego a los siguientes de la lista de espera, en su
+ * orden. Solo con las inscripciones abiertas; quien ya tiene una oferta pendiente
+ * no recibe otra. Devuelve a quiénes se les ofreció un lugar.
+ */
+export async function offerOpenSpots(gameId: number, replacedPlayerId: number | null): Promise<WaitListPlayer[]> {
+  const game = await storage.getGame(gameId);
+  if (!game || game.status !== GameStatus.PENDING) return [];
+
+  let spots = await openSpots(game);
+  if (spots <= 0) return [];
+
+  const offers = await storage.getWaitListOffers(gameId);
+  const offeredIds = new Set(offers.filter(offer => offer.status === OfferStatus.PENDING).map(offer => offer.playerId));
+  const candidates = (await storage.getWaitList(gameId))
+    .filter(waiting => !game.playerIds.includes(waiting.id) && !offeredIds.has(waiting.id));
+
+  const offered: WaitListPlayer[] = [];
+  for (const player of candidates) {
+    if (spots <= 0) break;
+    await createOffer(game, player, replacedPlayerId);
+    offered.push(player);
+    spots--;
+  }
+  return offered;
+}
+
+/**
+ * Vence las ofertas sin respuesta: quien no respondió sale de la lista de espera y
+ * el lugar pasa al siguiente. Devuelve cuántas ofertas vencieron.
+ */
+export async function expireOffers(now: Date = new Date()): Promise<number> {
+  let expired = 0;
+  for (const offer of await storage.getExpiredOffers(now)) {
+    // Si el jugador respondió mientras tanto, la oferta ya no está pendiente
+    if (!(await storage.resolveWaitListOffer(offer.id, OfferStatus.EXPIRED))) continue;
+
+    await storage.removeFromWaitList(offer.gameId, offer.playerId);
+    await offerOpenSpots(offer.gameId, offer.replacedPlayerId);
+    expired++;
+  }
+  return expired;
+}
+
+// Vence las ofertas aunque nadie consulte el juego; no mantiene vivo el proceso
+export function startOfferExpirySweep(intervalMs: number = OFFER_SWEEP_INTERVAL_MS): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    expireOffers().catch(error => console.error("Error al vencer ofertas de la lista de espera:", error));
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+// Sin promotedBy, la promoción queda registrada como automática
+export async function acceptOffer(offer: WaitListOffer, promotedBy: number | null = null): Promise<OfferResponse> {
+  if (offer.status !== OfferStatus.PENDING) return "not_pending";
+  if (offer.expiresAt <= new Date()) {
+    await expireOffers();
+    return "expired";
+  }
+
+  if (!(await storage.resolveWaitListOffer(offer.id, OfferStatus.ACCEPTED))) return "not_pending";
+
+  const promotion = await storage.moveFromWaitListToGame(offer.gameId, offer.playerId, {
+    replacedPlayerId: offer.replacedPlayerId,
+    promotedBy,
+  });
+  if (!promotion) {
+    // Ya no estaba en la lista de espera, pero el lugar reservado era suyo
+    await storage.setRosterStatus(offer.gameId, offer.playerId, RosterStatus.CONFIRMED);
+  }
+  return "accepted";
+}
+
+// Quien rechaza un lugar deja la lista de espera; el lugar pasa al siguiente
+export async function declineOffer(offer: WaitListOffer): Promise<OfferResponse> {
+  if (!(await storage.resolveWaitListOffer(offer.id, OfferStatus.DECLINED))) return "not_pending";
+
+  await storage.removeFromWaitList(offer.gameId, offer.playerId);
+  await offerOpenSpots(offer.gameId, offer.replacedPlayerId);
+  return "declined";
+}
+
+// Confirma a un jugador en el roster; si no hay lugar libre, lo pasa a la lista de espera.
+// Si ya esperaba un lugar, entrar cuenta como promoción hecha por quien lo agrega
+export async function joinRoster(game: Game, playerId: number, addedBy: number): Promise<RosterChange> {
+  const gameId = game.id!;
+  await expireOffers();
+
+  // Quien tenía un lugar ofrecido lo toma
+  const offer = await pendingOffer(gameId, playerId);
+  if (offer && (await acceptOffer(offer, addedBy)) === "accepted") {
+    return { game: (await storage.getGame(gameId))!, waitListed: false, offered: null };
+  }
+
+  const current = (await storage.getGame(gameId))!;
+  if ((await openSpots(current)) <= 0) {
+    await storage.addToWaitList(gameId, playerId);
+    return { game: current, waitListed: true, offered: null };
+  }
+
+  const promotion = await storage.moveFromWaitListToGame(gameId, playerId, { promotedBy: addedBy });
+  if (!promotion) {
+    await storage.setRosterStatus(gameId, playerId, RosterStatus.CONFIRMED);
+  }
+  return { game: (await storage.getGame(gameId))!, waitListed: false, offered: null };
+}
+
+// Retira a un jugador del roster y ofrece el lugar libre al siguiente de la lista de espera
+export async function leaveRoster(game: Game, playerId: number): Promise<RosterChange> {
+  const gameId = game.id!;
+  await storage.setRosterStatus(gameId, playerId, RosterStatus.WITHDRAWN);
+
+  await expireOffers();
+  const [offered] = await offerOpenSpots(gameId, playerId);
+  return { game: (await storage.getGame(gameId))!, waitListed: false, offered: offered ?? null };
+}
+
+// Saca a un jugador de la lista de espera; si tenía un lugar ofrecido, pasa al siguiente
+export async function leaveWaitList(gameId: number, playerId: number): Promise<boolean> {
+  const offer = await pendingOffer(gameId, playerId);
+  if (offer) {
+    return (await declineOffer(offer)) === "declined";
+  }
+  return storage.removeFromWaitList(gameId, playerId);
+}
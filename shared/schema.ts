@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, jsonb, timestamp, unique, varchar, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,16 +12,170 @@ export const UserRole = {
 
 export type UserRoleType = typeof UserRole[keyof typeof UserRole];
 
+// Categoría del jugador; la usa la estrategia de parejas mixtas
+export const PlayerCategory = {
+  MALE: "male",
+  FEMALE: "female"
+} as const;
+
+export type PlayerCategoryType = typeof PlayerCategory[keyof typeof PlayerCategory];
+
+// Lado de la cancha en que prefiere jugar: drive (derecha) o revés (izquierda)
+export const PlayerSide = {
+  DRIVE: "drive",
+  REVES: "reves",
+  BOTH: "both" // Juega cómodo en los dos lados
+} as const;
+
+export type PlayerSideType = typeof PlayerSide[keyof typeof PlayerSide];
+
+// Mano dominante; sin lado preferido, un zurdo suele jugar de revés
+export const DominantHand = {
+  RIGHT: "right",
+  LEFT: "left"
+} as const;
+
+export type DominantHandType = typeof DominantHand[keyof typeof DominantHand];
+
+// Estrategias para formar parejas y asignarlas a las canchas
+export const PairingStrategy = {
+  RANDOM: "random", // Parejas y canchas al azar
+  BALANCED: "balanced", // Serpiente por ranking: mejor con peor
+  KING_OF_THE_COURT: "king_of_the_court", // Por niveles: los fuertes contra los fuertes
+  MIXED: "mixed", // Cada pareja con un jugador de cada categoría
+  MEXICANO: "mexicano" // Una ronda a la vez, por niveles según los puntos de la sesión
+} as const;
+
+export type PairingStrategyType = typeof PairingStrategy[keyof typeof PairingStrategy];
+
+export const pairingStrategySchema = z.enum([
+  PairingStrategy.RANDOM,
+  PairingStrategy.BALANCED,
+  PairingStrategy.KING_OF_THE_COURT,
+  PairingStrategy.MIXED,
+  PairingStrategy.MEXICANO
+]);
+
+// Restricciones que el organizador impone al emparejar
+export const ConstraintKind = {
+  FIXED_PARTNERS: "fixed_partners", // Siempre juegan juntos
+  NEVER_PARTNERS: "never_partners", // Nunca son pareja
+  REQUIRED_COURT: "required_court" // El jugador debe jugar en una cancha concreta
+} as const;
+
+export type ConstraintKindType = typeof ConstraintKind[keyof typeof ConstraintKind];
+
+// Estado de un jugador en el roster de un juego
+export const RosterStatus = {
+  CONFIRMED: "confirmed", // Juega en la fecha
+  WITHDRAWN: "withdrawn" // Estuvo en el roster y se retiró
+} as const;
+
+export type RosterStatusType = typeof RosterStatus[keyof typeof RosterStatus];
+
+// Prioridad en la lista de espera; a igual prioridad sube primero quien llegó antes
+export const WaitListPriority = {
+  MEMBER: 1, // Socio del club
+  GUEST: 0 // Invitado por otro jugador
+} as const;
+
+// Los socios van antes que los invitados, salvo que un admin indique otra prioridad
+export function defaultWaitListPriority(player: { invitedBy: string | null }): number {
+  return player.invitedBy ? WaitListPriority.GUEST : WaitListPriority.MEMBER;
+}
+
+// Estado de la oferta de un lugar libre a quien sigue en la lista de espera
+export const OfferStatus = {
+  PENDING: "pending", // Esperando respuesta; el lugar queda reservado
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  EXPIRED: "expired" // Venció sin respuesta; el lugar pasa al siguiente
+} as const;
+
+export type OfferStatusType = typeof OfferStatus[keyof typeof OfferStatus];
+
+// Minutos para aceptar un lugar cuando el juego no indica otro plazo
+export const DEFAULT_OFFER_WINDOW_MINUTES = 120;
+
+// Ciclo de vida de un juego; solo cambia con las transiciones de GameTransitions
+export const GameStatus = {
+  SCHEDULED: "scheduled", // Programado; los jugadores aún no se pueden inscribir
+  PENDING: "pending", // Inscripciones abiertas
+  LOCKED: "locked", // Roster cerrado: solo un admin lo cambia
+  IN_PROGRESS: "in_progress", // En juego: el roster queda congelado
+  COMPLETED: "completed",
+  CANCELLED: "cancelled"
+} as const;
+
+export type GameStatusType = typeof GameStatus[keyof typeof GameStatus];
+
+// Transiciones permitidas: desde qué estados y a cuál llevan
+export const GameTransitions = {
+  "open-signups": { from: [GameStatus.SCHEDULED, GameStatus.LOCKED], to: GameStatus.PENDING },
+  "lock-roster": { from: [GameStatus.SCHEDULED, GameStatus.PENDING], to: GameStatus.LOCKED },
+  start: { from: [GameStatus.SCHEDULED, GameStatus.PENDING, GameStatus.LOCKED], to: GameStatus.IN_PROGRESS },
+  complete: { from: [GameStatus.IN_PROGRESS], to: GameStatus.COMPLETED },
+  cancel: { from: [GameStatus.SCHEDULED, GameStatus.PENDING, GameStatus.LOCKED, GameStatus.IN_PROGRESS], to: GameStatus.CANCELLED },
+} as const satisfies Record<string, { from: readonly GameStatusType[]; to: GameStatusType }>;
+
+export type GameTransitionType = keyof typeof GameTransitions;
+
+export function canTransition(status: GameStatusType, transition: GameTransitionType): boolean {
+  return (GameTransitions[transition].from as readonly GameStatusType[]).includes(status);
+}
+
+// Un juego terminado o cancelado ya no recibe roles ni resultados
+export function isGameClosed(game: { status: GameStatusType }): boolean {
+  return game.status === GameStatus.COMPLETED || game.status === GameStatus.CANCELLED;
+}
+
+// Antes de empezar, un admin todavía puede cambiar el roster
+export function isRosterEditable(game: { status: GameStatusType }): boolean {
+  return game.status === GameStatus.SCHEDULED || game.status === GameStatus.PENDING || game.status === GameStatus.LOCKED;
+}
+
+// Antes de cerrar el roster, sus canchas y su capacidad todavía pueden cambiar
+export function isCapacityEditable(game: { status: GameStatusType }): boolean {
+  return game.status === GameStatus.SCHEDULED || game.status === GameStatus.PENDING;
+}
+
+// Estado de las inscripciones de un juego para los jugadores
+export const SignupWindow = {
+  NOT_OPEN: "not_open", // Todavía no abren
+  OPEN: "open",
+  CLOSED: "closed" // Cerraron, o el juego ya empezó o pasó
+} as const;
+
+export type SignupWindowType = typeof SignupWindow[keyof typeof SignupWindow];
+
+// Cómo está inscrito un jugador en un juego
+export const SignupStatus = {
+  CONFIRMED: "confirmed",
+  WAIT_LISTED: "wait_listed",
+  OFFERED: "offered" // En la lista de espera, con un lugar ofrecido por responder
+} as const;
+
+export type SignupStatusType = typeof SignupStatus[keyof typeof SignupStatus];
+
+// Verifica la jerarquía de roles: superadmin > admin > player
+export function roleSatisfies(role: string, requiredRole: string): boolean {
+  if (role === UserRole.SUPERADMIN) return true;
+  if (role === UserRole.ADMIN && requiredRole !== UserRole.SUPERADMIN) return true;
+  return role === requiredRole;
+}
+
 export const players = pgTable("players", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   alias: text("alias"),
   phone: text("phone"), // Será usado para autenticación
   affiliationNumber: text("affiliation_number"),
-  selected: boolean("selected").default(false),
   role: text("role").default(UserRole.PLAYER).notNull(),
   password: text("password"), // Solo para admin/superadmin
   invitedBy: text("invited_by"), // ID del jugador que lo invitó
+  category: text("category").$type<PlayerCategoryType>(),
+  preferredSide: text("preferred_side").$type<PlayerSideType>(),
+  dominantHand: text("dominant_hand").$type<DominantHandType>(),
 });
 
 export const courts = pgTable("courts", {
@@ -28,33 +183,306 @@ export const courts = pgTable("courts", {
   name: text("name").notNull(),
 });
 
+// Frecuencia de una serie de juegos
+export const SeriesFrequency = {
+  WEEKLY: "weekly",
+  BIWEEKLY: "biweekly" // Cada dos semanas, contando desde la semana de inicio
+} as const;
+
+export type SeriesFrequencyType = typeof SeriesFrequency[keyof typeof SeriesFrequency];
+
+// Tope de fechas de una serie, para que una serie sin fin razonable no cree juegos sin límite
+export const MAX_SERIES_OCCURRENCES = 104;
+
+// Series de juegos recurrentes; cada fecha se crea como un juego que se edita o cancela por separado
+export const gameSeries = pgTable("game_series", {
+  id: serial("id").primaryKey(),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  weekdays: integer("weekdays").array().notNull(), // 0 = domingo ... 6 = sábado
+  frequency: text("frequency").$type<SeriesFrequencyType>().default(SeriesFrequency.WEEKLY).notNull(),
+  endDate: text("end_date"), // Última fecha posible; sin valor, la serie termina al completar occurrences
+  occurrences: integer("occurrences"), // Número de fechas; sin valor, la serie termina en endDate
+  courtIds: integer("court_ids").array().notNull().default(sql`'{}'::integer[]`),
+  setsPerMatch: integer("sets_per_match").default(3).notNull(),
+  maxPlayers: integer("max_players"), // Sin valor, 4 por cancha
+  description: text("description"),
+  offerWindowMinutes: integer("offer_window_minutes"),
+  excludedDates: text("excluded_dates").array().notNull().default(sql`'{}'::text[]`), // Fechas eliminadas a mano; no se vuelven a crear
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const games = pgTable("games", {
+  id: serial("id").primaryKey(),
+  gameDate: text("game_date").notNull(),
+  date: text("date"),
+  courtIds: integer("court_ids").array().notNull().default(sql`'{}'::integer[]`),
+  status: text("status").$type<GameStatusType>().default(GameStatus.PENDING).notNull(),
+  maxPlayers: integer("max_players"),
+  setsPerMatch: integer("sets_per_match").default(3).notNull(),
+  description: text("description"),
+  strategy: text("strategy").$type<PairingStrategyType>(), // Formato con que se generó el rol
+  offerWindowMinutes: integer("offer_window_minutes"), // Plazo para aceptar un lugar ofrecido
+  signupOpensAt: timestamp("signup_opens_at"), // Sin valor, los jugadores se pueden inscribir desde que se crea
+  signupClosesAt: timestamp("signup_closes_at"), // Sin valor, hasta el día del juego
+  seriesId: integer("series_id").references(() => gameSeries.id, { onDelete: "set null" }), // Serie de la que salió la fecha
+});
+
+// Enumeración de estados de un partido
+export const MatchStatus = {
+  PENDING: "pending",
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed"
+} as const;
+
+export type MatchStatusType = typeof MatchStatus[keyof typeof MatchStatus];
+
+// Partidos (emparejamientos persistidos) de un juego: una cancha con dos parejas
+export const matches = pgTable("matches", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  gameDate: text("game_date").notNull(),
+  courtId: integer("court_id").notNull(),
+  courtName: text("court_name").notNull(),
+  pair1: jsonb("pair1").$type<Pair>().notNull(),
+  pair2: jsonb("pair2").$type<Pair>().notNull(),
+  sets: integer("sets").default(3).notNull(),
+  status: text("status").$type<MatchStatusType>().default(MatchStatus.PENDING).notNull(),
+  round: integer("round").default(1).notNull(), // Ronda de la sesión (Americano)
+  published: boolean("published").default(true).notNull(), // false = borrador que solo ven los administradores
+});
+
+export const matchResults = pgTable("match_results", {
+  id: serial("id").primaryKey(),
+  pairingId: integer("pairing_id").notNull().references(() => matches.id, { onDelete: "cascade" }),
+  gameDate: text("game_date").notNull(),
+  setNumber: integer("set_number").notNull(),
+  pair1Score: integer("pair1_score").notNull(),
+  pair2Score: integer("pair2_score").notNull(),
+  winner: text("winner").$type<"pair1" | "pair2">().notNull(),
+  completed: boolean("completed").default(false).notNull(),
+  pair1: jsonb("pair1").$type<Pair>().notNull(),
+  pair2: jsonb("pair2").$type<Pair>().notNull(),
+  courtId: integer("court_id").notNull(),
+  courtName: text("court_name").notNull(),
+}, (table) => [unique().on(table.pairingId, table.setNumber)]); // Un resultado por set
+
+// Lista de espera por juego: primero la prioridad más alta y después el orden de llegada (createdAt)
+export const waitListEntries = pgTable("wait_list_entries", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  priority: integer("priority").default(WaitListPriority.MEMBER).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.gameId, table.playerId)]);
+
+// Cada jugador que pasó de la lista de espera al roster de un juego
+export const waitListPromotions = pgTable("wait_list_promotions", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  replacedPlayerId: integer("replaced_player_id").references(() => players.id, { onDelete: "set null" }), // Quien se retiró y liberó el lugar
+  promotedBy: integer("promoted_by").references(() => players.id, { onDelete: "set null" }), // Admin que lo movió; null si fue automática
+  waitingSince: timestamp("waiting_since").notNull(),
+  promotedAt: timestamp("promoted_at").defaultNow().notNull(),
+});
+
+// Ofertas de un lugar libre a jugadores de la lista de espera; sin respuesta vencen en expiresAt
+export const waitListOffers = pgTable("wait_list_offers", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  replacedPlayerId: integer("replaced_player_id").references(() => players.id, { onDelete: "set null" }), // Quien liberó el lugar
+  status: text("status").$type<OfferStatusType>().default(OfferStatus.PENDING).notNull(),
+  offeredAt: timestamp("offered_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"), // Al aceptar, rechazar o vencer
+});
+
+// Roster de cada juego: quién juega esa fecha; joinedAt da el orden de llegada
+export const gameRoster = pgTable("game_roster", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  status: text("status").$type<RosterStatusType>().default(RosterStatus.CONFIRMED).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.gameId, table.playerId)]);
+
+// Jugadores que descansaron en una ronda de un juego porque su número no completaba una cancha
+export const sitOuts = pgTable("sit_outs", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  round: integer("round").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.gameId, table.playerId, table.round)]);
+
+// Restricciones de emparejamiento; sin gameId aplican a todos los juegos
+export const pairingConstraints = pgTable("pairing_constraints", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").references(() => games.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<ConstraintKindType>().notNull(),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  otherPlayerId: integer("other_player_id").references(() => players.id, { onDelete: "cascade" }), // Parejas fijas o prohibidas
+  courtId: integer("court_id").references(() => courts.id, { onDelete: "cascade" }), // Cancha obligatoria
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Registro de cada generación de emparejamientos: con las entradas y la semilla se puede repetir
+export const pairingGenerations = pgTable("pairing_generations", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  seed: text("seed").notNull(),
+  strategy: text("strategy").$type<PairingStrategyType>().notNull(),
+  input: jsonb("input").$type<GenerationInput>().notNull(),
+  output: jsonb("output").$type<GenerationOutput>().notNull(),
+  createdBy: integer("created_by").references(() => players.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sesiones de express-session, con el formato que espera connect-pg-simple
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Tokens de restablecimiento de contraseña de un solo uso; solo se guarda su hash
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").notNull().references(() => players.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Códigos de verificación por SMS; uno vigente por teléfono y solo se guarda su hash
+export const phoneVerificationCodes = pgTable("phone_verification_codes", {
+  phone: text("phone").primaryKey(),
+  codeHash: text("code_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Límites de un teléfono que sobreviven a cada código: reenvío y fallos acumulados
+export const phoneCodeLimits = pgTable("phone_code_limits", {
+  phone: text("phone").primaryKey(),
+  lastIssuedAt: timestamp("last_issued_at"), // Último código enviado; cuenta para la espera de reenvío
+  failedAttempts: integer("failed_attempts").default(0).notNull(), // Fallos desde el último acceso o bloqueo
+  lockedUntil: timestamp("locked_until"), // Sin valor, el teléfono no está bloqueado
+});
+
+// Rankings materializados; se regeneran completos con cada cálculo
+export const playerRankings = pgTable("player_rankings", {
+  playerId: integer("player_id").primaryKey().references(() => players.id, { onDelete: "cascade" }),
+  playerName: text("player_name").notNull(),
+  playerAlias: text("player_alias"),
+  gamesPlayed: integer("games_played").default(0).notNull(),
+  gamesWon: integer("games_won").default(0).notNull(),
+  setsPlayed: integer("sets_played").default(0).notNull(),
+  setsWon: integer("sets_won").default(0).notNull(),
+  points: integer("points").default(0).notNull(),
+});
+
 export const insertPlayerSchema = createInsertSchema(players).pick({
   name: true,
   alias: true,
   phone: true,
   affiliationNumber: true,
-  selected: true,
   role: true,
   password: true,
   invitedBy: true,
+  category: true,
+  preferredSide: true,
+  dominantHand: true,
+}).extend({
+  category: z.enum([PlayerCategory.MALE, PlayerCategory.FEMALE]).nullable().optional(),
+  preferredSide: z.enum([PlayerSide.DRIVE, PlayerSide.REVES, PlayerSide.BOTH]).nullable().optional(),
+  dominantHand: z.enum([DominantHand.RIGHT, DominantHand.LEFT]).nullable().optional(),
 });
 
-// Schema para inicio de sesión por teléfono
-export const phoneLoginSchema = z.object({
+// Schema para solicitar un código de verificación por SMS
+export const phoneCodeRequestSchema = z.object({
   phone: z.string().min(1, { message: "Número de teléfono es requerido" }),
 });
 
-// Schema para registro rápido por teléfono
-export const quickRegisterSchema = z.object({
-  name: z.string().min(1, { message: "Nombre es requerido" }),
+// Schema para verificar el código; nombre y alias solo se usan al registrarse
+export const phoneCodeVerifySchema = z.object({
   phone: z.string().min(1, { message: "Número de teléfono es requerido" }),
+  code: z.string().regex(/^\d{6}$/, { message: "El código debe tener 6 dígitos" }),
+  name: z.string().min(1, { message: "Nombre es requerido" }).optional(),
   alias: z.string().optional(),
 });
 
+const newPasswordSchema = z.string().min(8, { message: "La contraseña debe tener al menos 8 caracteres" });
+
+// Schema para cambio de contraseña del usuario autenticado
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, { message: "La contraseña actual es requerida" }),
+  newPassword: newPasswordSchema,
+});
+
+// Schema para restablecer la contraseña con un token emitido por un superadmin
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, { message: "El token es requerido" }),
+  newPassword: newPasswordSchema,
+});
+
 export const insertCourtSchema = createInsertSchema(courts).pick({
   name: true,
 });
 
+// Las restricciones de parejas necesitan otro jugador; la de cancha, una cancha
+export const insertPairingConstraintSchema = z.object({
+  gameId: z.number().int().nullable().optional(),
+  kind: z.enum([ConstraintKind.FIXED_PARTNERS, ConstraintKind.NEVER_PARTNERS, ConstraintKind.REQUIRED_COURT]),
+  playerId: z.number().int(),
+  otherPlayerId: z.number().int().nullable().optional(),
+  courtId: z.number().int().nullable().optional(),
+}).superRefine((constraint, ctx) => {
+  if (constraint.kind === ConstraintKind.REQUIRED_COURT) {
+    if (!constraint.courtId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["courtId"], message: "Indica la cancha obligatoria" });
+    }
+  } else if (!constraint.otherPlayerId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["otherPlayerId"], message: "Indica el otro jugador" });
+  } else if (constraint.otherPlayerId === constraint.playerId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["otherPlayerId"], message: "Elige dos jugadores distintos" });
+  }
+});
+
+const seriesDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Usa el formato AAAA-MM-DD" });
+
+const gameSeriesFieldsSchema = z.object({
+  startDate: seriesDateSchema,
+  weekdays: z.array(z.number().int().min(0).max(6))
+    .min(1, { message: "Elige al menos un día de la semana" })
+    .transform(days => Array.from(new Set(days)).sort((a, b) => a - b)),
+  frequency: z.enum([SeriesFrequency.WEEKLY, SeriesFrequency.BIWEEKLY]).default(SeriesFrequency.WEEKLY),
+  endDate: seriesDateSchema.nullable().optional(),
+  occurrences: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).nullable().optional(),
+  courtIds: z.array(z.number().int()).min(1, { message: "Selecciona al menos una cancha" }),
+  setsPerMatch: z.number().int().min(1).max(7).default(3),
+  maxPlayers: z.number().int().positive().nullable().optional(),
+  description: z.string().nullable().optional(),
+  offerWindowMinutes: z.number().int().positive().nullable().optional(),
+});
+
+// Una serie termina en una fecha o al completar un número de fechas, no ambas
+export const insertGameSeriesSchema = gameSeriesFieldsSchema.superRefine((series, ctx) => {
+  if ((series.endDate == null) === (series.occurrences == null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "Indica una fecha de fin o un número de fechas" });
+  } else if (series.endDate && series.endDate < series.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "La serie debe terminar después de empezar" });
+  } else if (seriesDates(series).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekdays"], message: "La serie no tiene ninguna fecha" });
+  }
+});
+
+// Cambios a una serie; aplican de hoy en adelante, así que la fecha de inicio no cambia
+export const gameSeriesUpdateSchema = gameSeriesFieldsSchema.omit({ startDate: true }).partial();
+
 // Schema para lista de espera
 export const waitListPlayerSchema = z.object({
   id: z.number(),
@@ -62,8 +490,14 @@ export const waitListPlayerSchema = z.object({
   alias: z.string().nullable().optional(),
   phone: z.string().nullable().optional(),
   affiliationNumber: z.string().nullable().optional(),
-  selected: z.boolean(),
   role: z.string().default(UserRole.PLAYER).optional(),
+  priority: z.number(),
+  waitingSince: z.date(),
+});
+
+// Cambio de prioridad de un jugador en la lista de espera
+export const waitListPriorityUpdateSchema = z.object({
+  priority: z.number().int(),
 });
 
 // Pair type for frontend and API
@@ -74,8 +508,10 @@ export const pairSchema = z.object({
     alias: z.string().nullable().optional(),
     phone: z.string().nullable().optional(),
     affiliationNumber: z.string().nullable().optional(),
-    selected: z.boolean().optional(),
     role: z.string().default(UserRole.PLAYER).optional(),
+    category: z.string().nullable().optional(),
+    preferredSide: z.string().nullable().optional(),
+    dominantHand: z.string().nullable().optional(),
   }),
   player2: z.object({
     id: z.number(),
@@ -83,33 +519,203 @@ export const pairSchema = z.object({
     alias: z.string().nullable().optional(),
     phone: z.string().nullable().optional(),
     affiliationNumber: z.string().nullable().optional(),
-    selected: z.boolean().optional(),
     role: z.string().default(UserRole.PLAYER).optional(),
+    category: z.string().nullable().optional(),
+    preferredSide: z.string().nullable().optional(),
+    dominantHand: z.string().nullable().optional(),
   }),
 });
 
+// Indica si un jugador forma parte de alguna de las dos parejas de un partido
+export function isMatchParticipant(playerId: number, match: { pair1: Pair; pair2: Pair }): boolean {
+  return [match.pair1, match.pair2].some(pair =>
+    pair.player1.id === playerId || pair.player2.id === playerId
+  );
+}
+
+// Qué tan nuevo es un partido respecto a los juegos anteriores
+export const pairingNoveltySchema = z.object({
+  partnerRepeats: z.number(), // Veces que las parejas ya jugaron juntas
+  opponentRepeats: z.number(), // Veces que los rivales ya se enfrentaron
+  explanation: z.string(),
+});
+
+// Equilibrio de un partido según el modelo de rating (rating de pareja = suma de los puntos del ranking)
+export const courtBalanceSchema = z.object({
+  pair1Rating: z.number(),
+  pair2Rating: z.number(),
+  ratingDiff: z.number(), // Diferencia absoluta entre los ratings combinados
+  pair1WinProbability: z.number(), // Entre 0 y 1; las dos suman 1
+  pair2WinProbability: z.number(),
+});
+
+// Diferencia de rating con la que la pareja más fuerte gana 10 de cada 11 partidos (escala tipo Elo)
+export const RATING_SCALE = 20;
+
+/**
+ * Equilibrio esperado de un partido: con ratings iguales cada pareja tiene 50% de
+ * probabilidad de ganar, y la ventaja crece con la diferencia como en el modelo Elo.
+ */
+export function courtBalance(pair1Rating: number, pair2Rating: number): CourtBalance {
+  const pair1WinProbability = 1 / (1 + Math.pow(10, (pair2Rating - pair1Rating) / RATING_SCALE));
+  return {
+    pair1Rating,
+    pair2Rating,
+    ratingDiff: Math.abs(pair1Rating - pair2Rating),
+    pair1WinProbability,
+    pair2WinProbability: 1 - pair1WinProbability,
+  };
+}
+
+/**
+ * Equidad de una sesión, de 0 a 100: 100 si en todas las canchas ambas parejas tienen
+ * la misma probabilidad de ganar, 0 si en todas una gana con seguridad. Los partidos
+ * sin equilibrio calculado no cuentan; sin ninguno, devuelve null.
+ */
+export function sessionFairness(pairings: { balance?: CourtBalance }[]): number | null {
+  const balances = pairings.flatMap(pairing => pairing.balance ? [pairing.balance] : []);
+  if (balances.length === 0) return null;
+  const total = balances.reduce(
+    (sum, balance) => sum + 1 - Math.abs(balance.pair1WinProbability - balance.pair2WinProbability),
+    0
+  );
+  return Math.round(100 * total / balances.length);
+}
+
 // Court pairing type with two pairs
 export const courtPairingSchema = z.object({
+  id: z.number().optional(), // ID del partido persistido
+  gameId: z.number().optional(),
   courtId: z.number(),
   courtName: z.string(),
   pair1: pairSchema,
   pair2: pairSchema,
   sets: z.number().min(1).default(1),
   gameDate: z.string().optional(),
+  round: z.number().int().min(1).optional(), // Ronda de la sesión; 1 si se omite
+  published: z.boolean().optional(), // false mientras el rol es un borrador
+  novelty: pairingNoveltySchema.optional(), // Solo en la respuesta de la generación
+  balance: courtBalanceSchema.optional(), // Solo en la respuesta de la generación
 });
 
 // Complete pairings result
 export const pairingsSchema = z.array(courtPairingSchema);
 
+// Jugador que descansa en la ronda; sitOuts cuenta sus descansos, incluido este
+export const benchPlayerSchema = pairSchema.shape.player1.extend({
+  sitOuts: z.number(),
+  round: z.number(),
+});
+
+// Respuesta de la generación: partidos por cancha y jugadores en la banca de todas las rondas,
+// con la semilla usada, el registro donde quedó guardada y la equidad de lo generado
+export const generatedPairingsSchema = z.object({
+  pairings: pairingsSchema,
+  bench: z.array(benchPlayerSchema),
+  seed: z.string(),
+  generationId: z.number(),
+  fairness: z.number().nullable(),
+});
+
+// Semilla del azar de una generación; con las mismas entradas produce los mismos emparejamientos
+export const generationSeedSchema = z.string().trim().min(1).max(64);
+
+// Entradas exactas del motor, tal como se guardan en el registro de generaciones
+export const generationInputSchema = z.object({
+  players: z.array(pairSchema.shape.player1), // En el orden de llegada
+  rankings: z.array(z.object({ playerId: z.number(), points: z.number() })),
+  courts: z.array(z.object({ id: z.number(), name: z.string() })),
+  gameDate: z.string(),
+  sets: z.number(),
+  strategy: pairingStrategySchema,
+  rounds: z.number(),
+  firstRound: z.number(),
+  history: z.array(z.object({ pair1: pairSchema, pair2: pairSchema })),
+  sitOutCounts: z.array(z.tuple([z.number(), z.number()])), // [playerId, descansos]
+  constraints: z.array(z.object({
+    kind: z.enum([ConstraintKind.FIXED_PARTNERS, ConstraintKind.NEVER_PARTNERS, ConstraintKind.REQUIRED_COURT]),
+    playerId: z.number(),
+    otherPlayerId: z.number().nullable(),
+    courtId: z.number().nullable(),
+  })),
+});
+
+// Resultado del motor antes de guardarse como partidos
+export const generationOutputSchema = z.object({
+  pairings: pairingsSchema,
+  bench: z.array(benchPlayerSchema),
+  overflow: z.array(pairSchema.shape.player1),
+});
+
+// Parámetros para generar emparejamientos
+export const generatePairingsSchema = z.object({
+  gameId: z.coerce.number().int().optional(),
+  gameDate: z.string().optional(),
+  sets: z.coerce.number().int().min(1).default(3),
+  selectedCourtIds: z.array(z.number()).default([]),
+  strategy: pairingStrategySchema.default(PairingStrategy.BALANCED),
+  lookback: z.coerce.number().int().min(0).max(52).default(4), // Juegos anteriores para evitar repeticiones
+  rounds: z.coerce.number().int().min(1).max(12).default(1), // Rondas de la sesión con parejas rotativas
+  seed: generationSeedSchema.optional(), // Sin semilla se genera una al azar
+});
+
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 export type InsertCourt = z.infer<typeof insertCourtSchema>;
 export type Player = typeof players.$inferSelect;
 export type Court = typeof courts.$inferSelect;
+export type GameRow = typeof games.$inferSelect;
+export type MatchRow = typeof matches.$inferSelect;
+export type MatchResultRow = typeof matchResults.$inferSelect;
+export type PhoneVerificationCode = typeof phoneVerificationCodes.$inferSelect;
+export type PhoneCodeLimit = typeof phoneCodeLimits.$inferSelect;
+export type PairingConstraint = typeof pairingConstraints.$inferSelect;
+export type InsertPairingConstraint = z.infer<typeof insertPairingConstraintSchema>;
+export type RosterEntry = typeof gameRoster.$inferSelect;
+export type WaitListPromotion = typeof waitListPromotions.$inferSelect;
+export type WaitListOffer = typeof waitListOffers.$inferSelect;
+export type InsertWaitListOffer = typeof waitListOffers.$inferInsert;
+export type GameSeries = typeof gameSeries.$inferSelect;
+export type InsertGameSeries = z.infer<typeof insertGameSeriesSchema>;
+export type GameSeriesUpdate = z.infer<typeof gameSeriesUpdateSchema>;
+export type PairingGeneration = typeof pairingGenerations.$inferSelect;
+export type InsertPairingGeneration = typeof pairingGenerations.$inferInsert;
 export type Pair = z.infer<typeof pairSchema>;
+// Schema para los partidos persistidos
+export const matchSchema = z.object({
+  id: z.number(),
+  gameId: z.number(),
+  gameDate: z.string(),
+  courtId: z.number(),
+  courtName: z.string(),
+  pair1: pairSchema,
+  pair2: pairSchema,
+  sets: z.number().min(1).default(3),
+  status: z.enum([MatchStatus.PENDING, MatchStatus.IN_PROGRESS, MatchStatus.COMPLETED]).default(MatchStatus.PENDING),
+  round: z.number().int().min(1).default(1),
+  published: z.boolean().default(false), // Los roles generados nacen como borrador; publicar es explícito
+});
+
+export const insertMatchSchema = matchSchema.omit({ id: true });
+
+// Edición manual de un borrador: la nueva cancha y parejas de cada partido, por ID de jugador
+const draftPairSchema = z.object({
+  player1Id: z.number().int(),
+  player2Id: z.number().int(),
+});
+
+export const draftEditSchema = z.object({
+  matches: z.array(z.object({
+    id: z.number().int(),
+    courtId: z.number().int(),
+    pair1: draftPairSchema,
+    pair2: draftPairSchema,
+  })).min(1),
+});
+
 // Schema para los resultados de partidos
 export const matchResultSchema = z.object({
   id: z.number().optional(),
-  pairingId: z.number(), // Identificador único para el emparejamiento
+  pairingId: z.number(), // ID del partido (matches.id) al que pertenece el set
   gameDate: z.string(),
   setNumber: z.number().min(1),
   pair1Score: z.number().min(0),
@@ -123,6 +729,31 @@ export const matchResultSchema = z.object({
   courtName: z.string(),
 });
 
+// Lo que se captura de un set; las parejas, la cancha y la fecha se toman del partido
+export const matchResultEntrySchema = matchResultSchema.pick({
+  setNumber: true,
+  pair1Score: true,
+  pair2Score: true,
+  winner: true,
+  completed: true,
+});
+
+// El ganador de un set es la pareja con más juegos; un set no termina empatado
+export function winnerMatchesScore(result: Pick<MatchResult, "pair1Score" | "pair2Score" | "winner">): boolean {
+  if (result.pair1Score === result.pair2Score) return false;
+  return result.winner === (result.pair1Score > result.pair2Score ? "pair1" : "pair2");
+}
+
+export const WINNER_MISMATCH_MESSAGE = "El ganador debe ser la pareja con más juegos en el set";
+
+export const insertMatchResultSchema = matchResultEntrySchema.extend({
+  pairingId: z.coerce.number().int(),
+}).refine(winnerMatchesScore, { message: WINNER_MISMATCH_MESSAGE, path: ["winner"] });
+
+// Corrección de un set ya registrado; no cambia de partido. El ganador se valida
+// contra el marcador completo (lo nuevo sobre lo registrado)
+export const matchResultUpdateSchema = matchResultEntrySchema.partial();
+
 // Schema para los rankings de jugadores
 export const playerRankingSchema = z.object({
   playerId: z.number(),
@@ -135,26 +766,153 @@ export const playerRankingSchema = z.object({
   points: z.number().default(0), // Puntos acumulados
 });
 
+// Clasificación de una sesión (juego) con los sets registrados en todas sus rondas
+export const sessionStandingSchema = z.object({
+  playerId: z.number(),
+  playerName: z.string(),
+  playerAlias: z.string().nullable().optional(),
+  roundsPlayed: z.number(), // Partidos con al menos un set registrado
+  setsWon: z.number(),
+  setsLost: z.number(),
+  gamesFor: z.number(), // Games del marcador a favor (criterio principal del Americano)
+  gamesAgainst: z.number(),
+});
+
 // Schema para juegos (agrupación de parejas por fecha)
 export const gameSchema = z.object({
   id: z.number().optional(),
   gameDate: z.string(),
   date: z.string().optional(), // campo adicional para compatibilidad
   courtIds: z.array(z.number()),
-  status: z.enum(["pending", "in_progress", "completed"]).default("pending"),
+  status: z.enum([
+    GameStatus.SCHEDULED,
+    GameStatus.PENDING,
+    GameStatus.LOCKED,
+    GameStatus.IN_PROGRESS,
+    GameStatus.COMPLETED,
+    GameStatus.CANCELLED
+  ]).default(GameStatus.PENDING),
   maxPlayers: z.number().optional(),
   waitList: z.array(waitListPlayerSchema).optional(),
-  playerIds: z.array(z.number()).default([]), // IDs de jugadores seleccionados
+  playerIds: z.array(z.number()).default([]), // Confirmados en el roster, en orden de llegada (solo lectura)
   setsPerMatch: z.number().default(3), // Número de sets por partido
   description: z.string().optional(), // Descripción opcional
+  strategy: pairingStrategySchema.optional(), // Formato con que se generó el rol
+  offerWindowMinutes: z.number().int().positive().optional(), // Sin valor se usa DEFAULT_OFFER_WINDOW_MINUTES
+  signupOpensAt: z.coerce.date().optional(), // Inicio de las inscripciones de los jugadores
+  signupClosesAt: z.coerce.date().optional(), // Fin de las inscripciones; después solo un admin cambia el roster
+  seriesId: z.number().optional(), // Serie recurrente de la que salió la fecha
 });
 
+// Ventana de inscripción de un juego; las fechas llegan como texto en JSON
+export const signupWindowSchema = z.object({
+  signupOpensAt: z.coerce.date().nullable().optional(),
+  signupClosesAt: z.coerce.date().nullable().optional(),
+}).refine(
+  ({ signupOpensAt, signupClosesAt }) => !signupOpensAt || !signupClosesAt || signupOpensAt < signupClosesAt,
+  { message: "Las inscripciones deben abrir antes de cerrar", path: ["signupClosesAt"] }
+);
+
+// Fecha local (yyyy-MM-dd), la del calendario del club; de noche, en UTC ya puede ser el día siguiente
+export function localDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Si los jugadores pueden inscribirse o salirse por su cuenta. Solo con las inscripciones
+ * abiertas, dentro de la ventana del juego y, como máximo, hasta el día del juego.
+ */
+export function signupWindow(
+  game: Pick<Game, "status" | "gameDate" | "signupOpensAt" | "signupClosesAt">,
+  now: Date = new Date()
+): SignupWindowType {
+  if (game.status === GameStatus.SCHEDULED) return SignupWindow.NOT_OPEN;
+  if (game.status !== GameStatus.PENDING) return SignupWindow.CLOSED;
+  if (game.signupOpensAt && now < new Date(game.signupOpensAt)) return SignupWindow.NOT_OPEN;
+  if (game.signupClosesAt && now >= new Date(game.signupClosesAt)) return SignupWindow.CLOSED;
+  if (game.gameDate < localDate(now)) return SignupWindow.CLOSED;
+  return SignupWindow.OPEN;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fechas (YYYY-MM-DD) de una serie, en orden: los días de la semana elegidos desde la
+ * fecha de inicio, cada semana o cada dos (contando desde la semana de inicio), hasta
+ * endDate o hasta completar occurrences; nunca más de MAX_SERIES_OCCURRENCES.
+ */
+export function seriesDates(series: {
+  startDate: string;
+  weekdays: number[];
+  frequency: SeriesFrequencyType;
+  endDate?: string | null;
+  occurrences?: number | null;
+}): string[] {
+  if (series.weekdays.length === 0) return [];
+
+  const start = Date.parse(`${series.startDate}T00:00:00Z`);
+  const weekStart = start - new Date(start).getUTCDay() * DAY_MS; // Domingo de la semana de inicio
+  const weekStep = series.frequency === SeriesFrequency.BIWEEKLY ? 2 : 1;
+  const limit = Math.min(series.occurrences ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const dates: string[] = [];
+  for (let day = start; dates.length < limit; day += DAY_MS) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    if (series.endDate && date > series.endDate) break;
+
+    const week = Math.floor((day - weekStart) / (7 * DAY_MS));
+    if (week % weekStep === 0 && series.weekdays.includes(new Date(day).getUTCDay())) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
 // Schema para la lista de espera
 export const waitListSchema = z.array(waitListPlayerSchema);
 
+// Resultado de agregar o quitar a un jugador del roster de un juego
+export const rosterChangeSchema = z.object({
+  game: gameSchema,
+  waitListed: z.boolean(), // El juego estaba lleno: el jugador quedó en la lista de espera
+  offered: waitListPlayerSchema.nullable(), // A quien se le ofreció el lugar que quedó libre
+});
+
+// Motivo opcional de una cancelación; se incluye en el aviso al roster
+export const gameCancelSchema = z.object({
+  reason: z.string().trim().max(200).optional(),
+});
+
+// Inscripción del jugador de la sesión en un juego próximo
+export const playerSignupSchema = z.object({
+  game: gameSchema,
+  status: z.enum([SignupStatus.CONFIRMED, SignupStatus.WAIT_LISTED, SignupStatus.OFFERED]),
+  waitListPosition: z.number().nullable(), // 1 = el siguiente en subir
+  offerId: z.number().nullable(), // Oferta pendiente, si tiene un lugar ofrecido
+});
+
 export type CourtPairing = z.infer<typeof courtPairingSchema>;
 export type Pairings = z.infer<typeof pairingsSchema>;
+export type PairingNovelty = z.infer<typeof pairingNoveltySchema>;
+export type CourtBalance = z.infer<typeof courtBalanceSchema>;
+export type GeneratePairingsRequest = z.input<typeof generatePairingsSchema>;
+export type BenchPlayer = z.infer<typeof benchPlayerSchema>;
+export type GeneratedPairings = z.infer<typeof generatedPairingsSchema>;
+export type GenerationInput = z.infer<typeof generationInputSchema>;
+export type GenerationOutput = z.infer<typeof generationOutputSchema>;
+export type Match = z.infer<typeof matchSchema>;
+export type InsertMatch = z.infer<typeof insertMatchSchema>;
+export type DraftEdit = z.infer<typeof draftEditSchema>;
 export type MatchResult = z.infer<typeof matchResultSchema>;
 export type PlayerRanking = z.infer<typeof playerRankingSchema>;
+export type SessionStanding = z.infer<typeof sessionStandingSchema>;
 export type WaitListPlayer = z.infer<typeof waitListPlayerSchema>;
+export type WaitListPriorityUpdate = z.infer<typeof waitListPriorityUpdateSchema>;
 export type Game = z.infer<typeof gameSchema>;
+export type RosterChange = z.infer<typeof rosterChangeSchema>;
+export type PlayerSignup = z.infer<typeof playerSignupSchema>;
+export type SignupWindowUpdate = z.infer<typeof signupWindowSchema>;
+export type GameCancel = z.infer<typeof gameCancelSchema>;
+export type GameSeriesDetails = GameSeries & { games: Game[] }; // La serie con los juegos que ya creó